@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { listFixtures } from '../utils/fixtures';
+
+const router = Router();
+
+/*
+ * GET /fixtures
+ * Returns { fixtures: [{ name, events }] } for every JSON file in mock-server/fixtures
+ * Any name can be passed as `fixture` to POST /workflow-generation/generate-workflow
+ */
+router.get('/fixtures', async (_req, res) => {
+  try {
+    res.json({ fixtures: await listFixtures() });
+  } catch (err) {
+    console.error('Failed to list fixtures', err);
+    res.status(500).json({ error: 'Fixture listing error' });
+  }
+});
+
+export default router;
@@ -1,9 +1,31 @@
 import { Router } from 'express';
 import { v4 as uuidv4 } from 'uuid';
+import { PacingError, PacingOptions, parsePacingQuery } from '../utils/pacing';
+import { fixtureExists } from '../utils/fixtures';
+
+export type GenerationStatus = 'generating' | 'failed' | 'completed' | 'cancelled';
 
 export interface GenerationMeta {
   workflowId: string;
-  fixture: 'happy' | 'error' | 'branching';
+  // Name of a file in mock-server/fixtures (without .json)
+  fixture: string;
+  pacing?: PacingOptions;
+  // Updated by the stream route as events go out; used by GET /workflows
+  status: GenerationStatus;
+  // Failed steps retried so far, see POST /generations/:id/retry
+  retries?: number;
+  // Events streamed so far (highest id sent + 1)
+  sent?: number;
+  // Set by POST /generations/:id/cancel: events that went out before the cancellation
+  cancelledAfter?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InitialDetails {
+  name: string;
+  description?: string;
+  nodes: string[];
 }
 
 // In-memory lookup from generationId -> meta
@@ -14,23 +36,51 @@ const router = Router();
 /*
  * POST /workflow-generation/generate-workflow
  * Returns a mock { workflow_id, generation_id }
- * Accepts optional `?error=1` query param to force error fixture later.
+ * Body (or query) `fixture` picks the fixture to stream by name, see GET /fixtures.
+ * The legacy `?error=1` / `?branching=1` query params are still honoured.
+ * Optional `?speed=`, `?fixedDelayMs=` and `?seed=` set the stream pacing for this generation.
  */
-router.post('/generate-workflow', (req, res) => {
+router.post('/generate-workflow', async (req, res) => {
+  let pacing: PacingOptions;
+  try {
+    pacing = parsePacingQuery(req.query);
+  } catch (err) {
+    if (err instanceof PacingError) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+    throw err;
+  }
+
   const workflowId = uuidv4();
   const generationId = uuidv4();
 
+  const requested = req.body?.fixture ?? req.query.fixture;
   const isError = typeof req.query.error !== 'undefined';
   const isBranching = typeof req.query.branching !== 'undefined';
-  
+
   let fixture: GenerationMeta['fixture'] = 'happy';
-  if (isError) {
+  if (requested !== undefined) {
+    if (typeof requested !== 'string' || !(await fixtureExists(requested))) {
+      res.status(400).json({ error: `Unknown fixture: ${String(requested)}` });
+      return;
+    }
+    fixture = requested;
+  } else if (isError) {
     fixture = 'error';
   } else if (isBranching) {
     fixture = 'branching';
   }
 
-  generationRegistry.set(generationId, { workflowId, fixture });
+  const now = new Date().toISOString();
+  generationRegistry.set(generationId, {
+    workflowId,
+    fixture,
+    pacing,
+    status: 'generating',
+    createdAt: now,
+    updatedAt: now,
+  });
 
   res.json({ workflow_id: workflowId, generation_id: generationId });
 });
@@ -48,23 +98,25 @@ router.get('/generations/:id/generate-initial-details', (req, res) => {
     return;
   }
 
-  // Return different initial details based on fixture type
-  let response;
-  if (generation.fixture === 'branching') {
-    response = {
+  res.json(initialDetailsFor(generation.fixture));
+});
+
+/**
+ * Initial details shown before the stream produces nodes, based on the fixture
+ */
+export function initialDetailsFor(fixture: string): InitialDetails {
+  if (fixture === 'branching') {
+    return {
       name: 'Social Media Monitor',
       description: 'Comprehensive social media monitoring system that tracks brand mentions across multiple platforms.',
       nodes: ['WebSearchNode', 'InstagramScraperNode', 'TikTokScraperNode', 'LLMCallNode', 'GoogleSheetsUploadNode', 'SendEmailNode'],
     };
-  } else {
-    response = {
-      name: 'Data analysis agent',
-      description: 'This agent is used to analyze data and generate reports.',
-      nodes: ['GetDatafromLakeNode', 'AnalyzeDataNode', 'GenerateReportNode'],
-    };
   }
-
-  res.json(response);
-});
+  return {
+    name: 'Data analysis agent',
+    description: 'This agent is used to analyze data and generate reports.',
+    nodes: ['GetDatafromLakeNode', 'AnalyzeDataNode', 'GenerateReportNode'],
+  };
+}
 
 export default router;
@@ -0,0 +1,171 @@
+import { Router } from 'express';
+import { promises as fs } from 'fs';
+import { createSSEParser, getLastEventId, initSSE, sendSSE } from '../utils/sse';
+import { fixtureExists, fixturePath, isValidFixtureName } from '../utils/fixtures';
+
+// How long a recording whose caller disconnected mid-stream can still be resumed
+const RESUME_WINDOW_MS = Number(process.env.MOCK_RECORDING_RESUME_MS) || 60000;
+
+interface Recording {
+  generationId: string;
+  events: Record<string, unknown>[];
+  lastEventAt: number;
+  // Last id the upstream sent, to resume it from there
+  upstreamEventId?: string;
+  // Set while no caller is connected; the recording is dropped when it fires
+  expiryTimer?: NodeJS.Timeout;
+}
+
+// Recordings cut short by a disconnect, by fixture name, until resumed or expired
+const recordings = new Map<string, Recording>();
+
+const router = Router();
+
+/*
+ * GET /recordings/generations/:id/stream?upstream=<base url>&name=<fixture>[&overwrite=1]
+ * Proxies a real backend's `/generations/:id/stream` to the caller and records
+ * every event, with the delay since the previous one as `delayMs`, into
+ * fixtures/<name>.json. Replay it with `{ "fixture": "<name>" }` on generate-workflow.
+ * `upstream` defaults to MOCK_UPSTREAM_URL; MOCK_UPSTREAM_TOKEN is sent as a bearer token.
+ * A caller reconnecting with Last-Event-ID picks the recording up where it left off: it gets
+ * the events it missed and the rest is appended to the same fixture.
+ */
+router.get('/recordings/generations/:id/stream', async (req, res) => {
+  const { id } = req.params;
+
+  const upstream = (typeof req.query.upstream === 'string' && req.query.upstream) || process.env.MOCK_UPSTREAM_URL;
+  if (!upstream) {
+    res.status(400).json({ error: 'Missing upstream: pass ?upstream= or set MOCK_UPSTREAM_URL' });
+    return;
+  }
+
+  const name = typeof req.query.name === 'string' && req.query.name
+    ? req.query.name
+    : `recording-${id.slice(0, 8)}`;
+  if (!isValidFixtureName(name)) {
+    res.status(400).json({ error: `Invalid fixture name: ${name}` });
+    return;
+  }
+
+  const lastEventId = getLastEventId(req);
+  const resumable = recordings.get(name);
+  const resumed = lastEventId !== null && resumable?.generationId === id ? resumable : undefined;
+
+  if (!resumed && typeof req.query.overwrite === 'undefined' && (await fixtureExists(name))) {
+    res.status(409).json({ error: `Fixture ${name} already exists (pass ?overwrite=1 to replace it)` });
+    return;
+  }
+
+  const headers: Record<string, string> = { Accept: 'text/event-stream' };
+  if (resumed?.upstreamEventId) headers['Last-Event-ID'] = resumed.upstreamEventId;
+  const authorization = req.header('Authorization') ??
+    (process.env.MOCK_UPSTREAM_TOKEN ? `Bearer ${process.env.MOCK_UPSTREAM_TOKEN}` : undefined);
+  if (authorization) headers.Authorization = authorization;
+
+  const controller = new AbortController();
+  const upstreamUrl = `${upstream.replace(/\/$/, '')}/generations/${encodeURIComponent(id)}/stream`;
+
+  let response: Awaited<ReturnType<typeof fetch>>;
+  try {
+    response = await fetch(upstreamUrl, { headers, signal: controller.signal });
+  } catch (err) {
+    console.error('Failed to reach upstream', err);
+    res.status(502).json({ error: `Could not reach upstream ${upstreamUrl}` });
+    return;
+  }
+
+  if (!response.ok || !response.body) {
+    res.status(502).json({ error: `Upstream answered ${response.status} ${response.statusText}` });
+    return;
+  }
+
+  initSSE(res);
+
+  const recording: Recording = resumed ?? { generationId: id, events: [], lastEventAt: Date.now() };
+  clearTimeout(recording.expiryTimer);
+  recording.expiryTimer = undefined;
+  recordings.delete(name);
+
+  // Without upstream ids the upstream starts over: skip what is already recorded
+  let skip = resumed && !resumed.upstreamEventId ? recording.events.length : 0;
+
+  // Catch the caller up on events recorded after the last one it saw
+  if (resumed) {
+    recording.events.forEach(({ delayMs: _delayMs, ...payload }, index) => {
+      if (index > lastEventId!) sendSSE(res, payload, index);
+    });
+  }
+
+  let saved = false;
+
+  const save = async () => {
+    if (saved) return;
+    saved = true;
+    try {
+      await fs.writeFile(fixturePath(name), `${JSON.stringify(recording.events, null, 2)}\n`, 'utf-8');
+      console.log(`Recorded ${recording.events.length} events from ${upstreamUrl} into fixtures/${name}.json`);
+    } catch (err) {
+      console.error('Failed to write recording', err);
+    }
+  };
+
+  const parser = createSSEParser(({ data, id: upstreamEventId }) => {
+    let payload: any;
+    try {
+      payload = JSON.parse(data);
+    } catch {
+      console.warn('Skipping non-JSON upstream event', data);
+      return;
+    }
+
+    // Heartbeats are regenerated by the stream route on replay
+    if (payload?.type === 'heartbeat') {
+      sendSSE(res, payload);
+      return;
+    }
+
+    if (skip > 0) {
+      skip -= 1;
+      return;
+    }
+
+    const now = Date.now();
+    recording.events.push({ delayMs: now - recording.lastEventAt, ...payload });
+    recording.lastEventAt = now;
+    if (upstreamEventId) recording.upstreamEventId = upstreamEventId;
+    sendSSE(res, payload, recording.events.length - 1);
+  });
+
+  let upstreamEnded = false;
+
+  // Client went away: stop proxying but keep what was captured so far, and let it resume
+  // with Last-Event-ID for a while if the upstream hadn't finished
+  req.on('close', () => {
+    controller.abort();
+    void save();
+    if (upstreamEnded) return;
+    recording.expiryTimer = setTimeout(() => recordings.delete(name), RESUME_WINDOW_MS);
+    recordings.set(name, recording);
+  });
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parser.push(decoder.decode(value, { stream: true }));
+    }
+    parser.flush();
+    upstreamEnded = true;
+  } catch (err) {
+    if (!controller.signal.aborted) {
+      console.error('Upstream stream failed', err);
+    }
+  }
+
+  await save();
+  res.end();
+});
+
+export default router;
@@ -0,0 +1,105 @@
+import { Router } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { generationRegistry } from './generate';
+import { PacingError, PacingOptions, pacingFromEnv, parsePacingQuery, resolvePacing } from '../utils/pacing';
+import { replayEvents } from '../utils/replay';
+import { getWorkflow } from '../utils/workflowStore';
+import { planRefinement, RefineConnection, RefineNode } from '../utils/refinement';
+
+interface RefinementMeta {
+  generationId: string;
+  events: Record<string, unknown>[];
+  pacing: PacingOptions;
+}
+
+// In-memory lookup from refinementId -> planned events
+const refinementRegistry = new Map<string, RefinementMeta>();
+
+const router = Router();
+
+/*
+ * POST /generations/:id/refine
+ * Body: { message, nodes?, connections? } and optional `?speed=` / `?fixedDelayMs=` pacing.
+ * Plans the changes the message asks for against the given graph, or the generation's saved
+ * workflow when no nodes are sent. Returns { refinement_id }.
+ */
+router.post('/generations/:id/refine', async (req, res) => {
+  const { id } = req.params;
+
+  let pacing: PacingOptions;
+  try {
+    pacing = parsePacingQuery(req.query);
+  } catch (err) {
+    if (err instanceof PacingError) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+    throw err;
+  }
+
+  const message = req.body?.message;
+  if (typeof message !== 'string' || message.trim() === '') {
+    res.status(400).json({ error: 'A refinement needs a message' });
+    return;
+  }
+
+  let nodes: RefineNode[] | undefined = Array.isArray(req.body?.nodes) ? req.body.nodes : undefined;
+  let connections: RefineConnection[] = Array.isArray(req.body?.connections) ? req.body.connections : [];
+
+  if (!nodes) {
+    const meta = generationRegistry.get(id);
+    const saved = meta ? await getWorkflow(meta.workflowId) : null;
+    if (!saved) {
+      res.status(404).json({ error: 'Unknown generation_id and no nodes sent' });
+      return;
+    }
+    nodes = saved.nodes as RefineNode[];
+    connections = saved.connections as RefineConnection[];
+  }
+
+  if (nodes.some((node) => typeof node?.nodeId !== 'string')) {
+    res.status(400).json({ error: 'Every node needs a nodeId' });
+    return;
+  }
+
+  const refinementId = uuidv4();
+  refinementRegistry.set(refinementId, {
+    generationId: id,
+    events: planRefinement(id, message.trim(), nodes, connections),
+    pacing,
+  });
+
+  res.json({ refinement_id: refinementId });
+});
+
+/*
+ * GET /generations/:id/refinements/:refinementId/stream
+ * Streams the step events that patch the workflow, framed by status_change COMPLETED -> REFINING
+ * and REFINING -> COMPLETED, with the reply as an assistant_message. Resumable via Last-Event-ID.
+ */
+router.get('/generations/:id/refinements/:refinementId/stream', (req, res) => {
+  const { id, refinementId } = req.params;
+  const meta = refinementRegistry.get(refinementId);
+  if (!meta || meta.generationId !== id) {
+    res.status(404).json({ error: 'Unknown refinement_id' });
+    return;
+  }
+
+  let pacing: PacingOptions;
+  try {
+    pacing = resolvePacing(parsePacingQuery(req.query), meta.pacing, pacingFromEnv());
+  } catch (err) {
+    if (err instanceof PacingError) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+    throw err;
+  }
+
+  replayEvents(req, res, meta.events, {
+    pacing,
+    heartbeat: { generation_id: id },
+  });
+});
+
+export default router;
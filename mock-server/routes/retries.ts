@@ -0,0 +1,55 @@
+import { Router } from 'express';
+import { generationRegistry } from './generate';
+import { loadFixture } from '../utils/fixtures';
+import { findErrorIndex, withRecoveries } from '../utils/recovery';
+
+type RetryScope = 'step' | 'generation';
+
+const RETRY_SCOPES: RetryScope[] = ['step', 'generation'];
+
+const router = Router();
+
+/*
+ * POST /generations/:id/retry
+ * Body: { scope: "step" | "generation" } (default "step"). Only failed generations can be retried.
+ * The next stream swaps the failed event for its `recovery` events. Returns
+ * { generation_id, resume_after }: the event id to resume after for a step retry, null to start over.
+ */
+router.post('/generations/:id/retry', async (req, res) => {
+  const { id } = req.params;
+  const meta = generationRegistry.get(id);
+  if (!meta) {
+    res.status(404).json({ error: 'Unknown generation_id' });
+    return;
+  }
+
+  const scope = req.body?.scope ?? 'step';
+  if (!RETRY_SCOPES.includes(scope)) {
+    res.status(400).json({ error: `scope must be one of ${RETRY_SCOPES.join(', ')}` });
+    return;
+  }
+
+  if (meta.status !== 'failed') {
+    res.status(409).json({ error: `Only failed generations can be retried (this one is ${meta.status})` });
+    return;
+  }
+
+  let errorIndex: number;
+  try {
+    errorIndex = findErrorIndex(withRecoveries(await loadFixture(meta.fixture), meta.retries ?? 0));
+  } catch (err) {
+    console.error('Failed to load fixture', err);
+    res.status(500).json({ error: 'Fixture load error' });
+    return;
+  }
+
+  const resumeAfter = scope === 'step' && errorIndex > 0 ? errorIndex - 1 : null;
+  meta.retries = (meta.retries ?? 0) + 1;
+  meta.status = 'generating';
+  meta.sent = resumeAfter === null ? 0 : resumeAfter + 1;
+  meta.updatedAt = new Date().toISOString();
+
+  res.json({ generation_id: id, resume_after: resumeAfter });
+});
+
+export default router;
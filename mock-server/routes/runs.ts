@@ -0,0 +1,128 @@
+import { Router } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { PacingError, PacingOptions, pacingFromEnv, parsePacingQuery, resolvePacing } from '../utils/pacing';
+import { replayEvents } from '../utils/replay';
+import { getWorkflow, isValidWorkflowId } from '../utils/workflowStore';
+import { planRun, RunConnection, RunNode } from '../utils/workflowRun';
+
+interface RunMeta {
+  workflowId: string;
+  events: Record<string, unknown>[];
+  pacing: PacingOptions;
+  // Set once a stream delivered run_completed; the run is dropped when it fires
+  expiryTimer?: NodeJS.Timeout;
+}
+
+// How long a finished run can still be re-streamed or resumed
+const RUN_RETENTION_MS = Number(process.env.MOCK_RUN_RETENTION_MS) || 60000;
+// Runs that are never streamed don't expire, so the oldest are dropped past this many
+const MAX_RUNS = 100;
+
+// In-memory lookup from runId -> planned events
+const runRegistry = new Map<string, RunMeta>();
+
+function registerRun(runId: string, meta: RunMeta) {
+  runRegistry.set(runId, meta);
+  // Maps iterate in insertion order, so the first key is the oldest run
+  while (runRegistry.size > MAX_RUNS) {
+    const [oldestId, oldest] = runRegistry.entries().next().value!;
+    clearTimeout(oldest.expiryTimer);
+    runRegistry.delete(oldestId);
+  }
+}
+
+const router = Router();
+
+/*
+ * POST /workflows/:id/runs
+ * Body: { nodes?, connections?, failNodeId?, seed? } and optional `?speed=` / `?fixedDelayMs=` pacing.
+ * Runs the given graph, or the saved workflow when no nodes are sent. Returns { run_id }.
+ */
+router.post('/workflows/:id/runs', async (req, res) => {
+  const { id } = req.params;
+  if (!isValidWorkflowId(id)) {
+    res.status(400).json({ error: 'Invalid workflow id' });
+    return;
+  }
+
+  let pacing: PacingOptions;
+  try {
+    pacing = parsePacingQuery(req.query);
+  } catch (err) {
+    if (err instanceof PacingError) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+    throw err;
+  }
+
+  let nodes: RunNode[] | undefined = Array.isArray(req.body?.nodes) ? req.body.nodes : undefined;
+  let connections: RunConnection[] = Array.isArray(req.body?.connections) ? req.body.connections : [];
+
+  if (!nodes) {
+    const saved = await getWorkflow(id);
+    if (!saved) {
+      res.status(404).json({ error: 'Unknown workflow_id and no nodes sent' });
+      return;
+    }
+    nodes = saved.nodes as RunNode[];
+    connections = saved.connections as RunConnection[];
+  }
+
+  if (nodes.length === 0 || nodes.some((node) => typeof node?.nodeId !== 'string')) {
+    res.status(400).json({ error: 'A run needs at least one node, each with a nodeId' });
+    return;
+  }
+
+  const failNodeId = req.body?.failNodeId;
+  if (typeof failNodeId !== 'undefined' && !nodes.some((node) => node.nodeId === failNodeId)) {
+    res.status(400).json({ error: `failNodeId ${JSON.stringify(failNodeId)} is not one of the run's nodes` });
+    return;
+  }
+
+  const runId = uuidv4();
+  const events = planRun(runId, nodes, connections, {
+    failNodeId,
+    seed: Number.isInteger(req.body?.seed) ? req.body.seed : undefined,
+  });
+  registerRun(runId, { workflowId: id, events, pacing });
+
+  res.json({ run_id: runId });
+});
+
+/*
+ * GET /runs/:runId/stream
+ * Streams node_status events (queued/running/succeeded/failed/skipped) in execution order,
+ * framed by run_started and run_completed. Resumable via Last-Event-ID like generation streams,
+ * until MOCK_RUN_RETENTION_MS after run_completed was first sent.
+ */
+router.get('/runs/:runId/stream', (req, res) => {
+  const { runId } = req.params;
+  const meta = runRegistry.get(runId);
+  if (!meta) {
+    res.status(404).json({ error: 'Unknown run_id' });
+    return;
+  }
+
+  let pacing: PacingOptions;
+  try {
+    pacing = resolvePacing(parsePacingQuery(req.query), meta.pacing, pacingFromEnv());
+  } catch (err) {
+    if (err instanceof PacingError) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+    throw err;
+  }
+
+  replayEvents(req, res, meta.events, {
+    pacing,
+    heartbeat: { run_id: runId },
+    onEvent: (event) => {
+      if (event.type !== 'run_completed' || meta.expiryTimer) return;
+      meta.expiryTimer = setTimeout(() => runRegistry.delete(runId), RUN_RETENTION_MS);
+    },
+  });
+});
+
+export default router;
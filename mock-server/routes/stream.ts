@@ -1,12 +1,35 @@
 import { Router } from 'express';
-import { promises as fs } from 'fs';
-import path from 'path';
-import { generationRegistry } from './generate';
-import { initSSE, sendSSE } from '../utils/sse';
-import { randomDelay } from '../utils/randomDelay';
+import { GenerationMeta, generationRegistry } from './generate';
+import { replayEvents, ReplayHandle } from '../utils/replay';
+import { loadFixture } from '../utils/fixtures';
+import { withRecoveries } from '../utils/recovery';
+import { PacingError, PacingOptions, pacingFromEnv, parsePacingQuery, resolvePacing } from '../utils/pacing';
+
+// Streams still sending, per generation, so a cancel can stop them
+const openStreams = new Map<string, Set<ReplayHandle>>();
 
 const router = Router();
 
+function cancellationEvent(generationId: string) {
+  return { type: 'status_change', old_status: 'RUNNING', new_status: 'CANCELLED', generation_id: generationId };
+}
+
+/**
+ * What the generation streams: its fixture after any retries, cut off where it was cancelled
+ */
+async function generationEvents(id: string, meta: GenerationMeta): Promise<any[]> {
+  const events = withRecoveries(await loadFixture(meta.fixture), meta.retries ?? 0);
+  if (meta.status !== 'cancelled') return events;
+  return [...events.slice(0, meta.cancelledAfter ?? 0), cancellationEvent(id)];
+}
+
+/*
+ * GET /generations/:id/stream
+ * Replays the generation's fixture over SSE.
+ * Pacing: `?speed=`, `?fixedDelayMs=`, `?seed=` on this request override the values
+ * given to generate-workflow, which override MOCK_SPEED / MOCK_FIXED_DELAY_MS / MOCK_SEED.
+ * After a retry the failed steps are replaced by their `recovery` events.
+ */
 router.get('/generations/:id/stream', async (req, res) => {
   const { id } = req.params;
 
@@ -16,45 +39,92 @@ router.get('/generations/:id/stream', async (req, res) => {
     return;
   }
 
-  // Determine fixture file path
-  const fixtureFile = path.join(__dirname, '..', 'fixtures', `${meta.fixture}.json`);
+  let pacing: PacingOptions;
+  try {
+    pacing = resolvePacing(parsePacingQuery(req.query), meta.pacing, pacingFromEnv());
+  } catch (err) {
+    if (err instanceof PacingError) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+    throw err;
+  }
 
   let events: any[] = [];
   try {
-    const raw = await fs.readFile(fixtureFile, 'utf-8');
-    events = JSON.parse(raw);
+    events = await generationEvents(id, meta);
   } catch (err) {
     console.error('Failed to load fixture', err);
     res.status(500).json({ error: 'Fixture load error' });
     return;
   }
 
-  // Initialise SSE
-  initSSE(res);
+  const handle = replayEvents(req, res, events, {
+    pacing,
+    heartbeat: { generation_id: id },
+    // If error event, close stream immediately
+    isFinalEvent: (event) => event.status === 'error',
+    // Track progress so GET /workflows can show generating / failed
+    onEvent: (event, eventId) => {
+      if (event.status === 'error') {
+        meta.status = 'failed';
+      } else if (event.type === 'complete') {
+        meta.status = 'completed';
+      }
+      meta.sent = Math.max(meta.sent ?? 0, eventId + 1);
+      meta.updatedAt = new Date().toISOString();
+    },
+    onClose: () => {
+      openStreams.get(id)?.delete(handle!);
+    },
+  });
 
-  let idx = 0;
+  if (handle) {
+    const streams = openStreams.get(id) ?? new Set<ReplayHandle>();
+    streams.add(handle);
+    openStreams.set(id, streams);
+  }
+});
 
-  const pushNext = () => {
-    if (idx >= events.length) {
-      res.end();
-      return;
-    }
+/*
+ * POST /generations/:id/cancel
+ * Stops a generation that is still generating. Open streams catch up to the last event any client
+ * was sent, then get a status_change RUNNING -> CANCELLED and close; later streams replay up to the
+ * same point. Returns { generation_id, status: "cancelled" }.
+ */
+router.post('/generations/:id/cancel', async (req, res) => {
+  const { id } = req.params;
+  const meta = generationRegistry.get(id);
+  if (!meta) {
+    res.status(404).json({ error: 'Unknown generation_id' });
+    return;
+  }
 
-    const payload = events[idx];
-    sendSSE(res, payload);
-    idx += 1;
+  let events: any[];
+  try {
+    events = await generationEvents(id, meta);
+  } catch (err) {
+    console.error('Failed to load fixture', err);
+    res.status(500).json({ error: 'Fixture load error' });
+    return;
+  }
 
-    // If error event, close stream immediately
-    if (payload.status === 'error') {
-      res.end();
-      return;
-    }
+  if (meta.status !== 'generating') {
+    res.status(409).json({ error: `Only running generations can be cancelled (this one is ${meta.status})` });
+    return;
+  }
+
+  const cancelledAfter = meta.sent ?? 0;
+  meta.status = 'cancelled';
+  meta.cancelledAfter = cancelledAfter;
+  meta.updatedAt = new Date().toISOString();
 
-    setTimeout(pushNext, randomDelay());
-  };
+  openStreams.get(id)?.forEach((handle) => {
+    handle.finish([...events.slice(handle.position(), cancelledAfter), cancellationEvent(id)]);
+  });
+  openStreams.delete(id);
 
-  // Kick off first send
-  pushNext();
+  res.json({ generation_id: id, status: meta.status });
 });
 
 export default router;
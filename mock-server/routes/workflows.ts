@@ -0,0 +1,224 @@
+import { Router } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { generationRegistry, initialDetailsFor } from './generate';
+import {
+  deleteWorkflow,
+  getWorkflow,
+  isValidWorkflowId,
+  listWorkflows,
+  renameWorkflow,
+  saveWorkflow,
+  StoredWorkflow,
+  validateWorkflowInput,
+} from '../utils/workflowStore';
+
+type WorkflowListStatus = 'draft' | 'generating' | 'failed' | 'cancelled' | 'published';
+
+const LIST_STATUSES: WorkflowListStatus[] = ['draft', 'generating', 'failed', 'cancelled', 'published'];
+
+interface WorkflowSummary {
+  id: string;
+  name: string;
+  status: WorkflowListStatus;
+  // null while the workflow only exists as a generation
+  nodeCount: number | null;
+  saved: boolean;
+  generationId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+function summarizeSaved(workflow: StoredWorkflow): WorkflowSummary {
+  return {
+    id: workflow.id,
+    name: workflow.name,
+    status: workflow.status,
+    nodeCount: workflow.nodes.length,
+    saved: true,
+    generationId: workflow.generationId,
+    createdAt: workflow.createdAt,
+    updatedAt: workflow.updatedAt,
+  };
+}
+
+/**
+ * Generations that were never saved still show up, as generating / failed / cancelled / draft
+ */
+function summarizeUnsavedGenerations(savedIds: Set<string>): WorkflowSummary[] {
+  const latestByWorkflow = new Map<string, WorkflowSummary>();
+
+  generationRegistry.forEach((meta, generationId) => {
+    if (savedIds.has(meta.workflowId)) return;
+    const previous = latestByWorkflow.get(meta.workflowId);
+    if (previous && previous.updatedAt > meta.updatedAt) return;
+
+    latestByWorkflow.set(meta.workflowId, {
+      id: meta.workflowId,
+      name: initialDetailsFor(meta.fixture).name,
+      status: meta.status === 'completed' ? 'draft' : meta.status,
+      nodeCount: null,
+      saved: false,
+      generationId,
+      createdAt: meta.createdAt,
+      updatedAt: meta.updatedAt,
+    });
+  });
+
+  return Array.from(latestByWorkflow.values());
+}
+
+const router = Router();
+
+/*
+ * GET /workflows
+ * Query: `q` (case-insensitive name search), `status` (draft | generating | failed | cancelled | published),
+ * `order` (desc | asc by updatedAt, default desc).
+ * Lists saved workflows plus generations that were never saved: { workflows: WorkflowSummary[] }
+ */
+router.get('/workflows', async (req, res) => {
+  const { q, status, order = 'desc' } = req.query;
+
+  if (status !== undefined && !LIST_STATUSES.includes(status as WorkflowListStatus)) {
+    res.status(400).json({ error: `status must be one of ${LIST_STATUSES.join(', ')}` });
+    return;
+  }
+  if (order !== 'asc' && order !== 'desc') {
+    res.status(400).json({ error: 'order must be "asc" or "desc"' });
+    return;
+  }
+
+  const saved = await listWorkflows();
+  const savedIds = new Set(saved.map((workflow) => workflow.id));
+  const search = typeof q === 'string' ? q.trim().toLowerCase() : '';
+
+  const workflows = [...saved.map(summarizeSaved), ...summarizeUnsavedGenerations(savedIds)]
+    .filter((workflow) => !status || workflow.status === status)
+    .filter((workflow) => !search || workflow.name.toLowerCase().includes(search))
+    .sort((a, b) => (order === 'asc' ? 1 : -1) * a.updatedAt.localeCompare(b.updatedAt));
+
+  res.json({ workflows });
+});
+
+/*
+ * GET /workflows/:id
+ * Returns the saved workflow, or 404 if it was never saved
+ */
+router.get('/workflows/:id', async (req, res) => {
+  const { id } = req.params;
+  if (!isValidWorkflowId(id)) {
+    res.status(400).json({ error: 'Invalid workflow id' });
+    return;
+  }
+
+  const workflow = await getWorkflow(id);
+  if (!workflow) {
+    res.status(404).json({ error: 'Unknown workflow_id' });
+    return;
+  }
+
+  res.json(workflow);
+});
+
+/*
+ * PUT /workflows/:id
+ * Body: { name, nodes, connections, databases?, status?: 'draft' | 'published', generationId? }
+ * Creates or replaces the workflow and returns it with server-assigned timestamps
+ */
+router.put('/workflows/:id', async (req, res) => {
+  const { id } = req.params;
+  if (!isValidWorkflowId(id)) {
+    res.status(400).json({ error: 'Invalid workflow id' });
+    return;
+  }
+
+  const problems = validateWorkflowInput(req.body);
+  if (problems.length > 0) {
+    res.status(400).json({ error: 'Invalid workflow', details: problems });
+    return;
+  }
+
+  res.json(await saveWorkflow(id, req.body));
+});
+
+/*
+ * PATCH /workflows/:id
+ * Body: { name }
+ * Renames a saved workflow without touching its status
+ */
+router.patch('/workflows/:id', async (req, res) => {
+  const { id } = req.params;
+  if (!isValidWorkflowId(id)) {
+    res.status(400).json({ error: 'Invalid workflow id' });
+    return;
+  }
+
+  const name = req.body?.name;
+  if (typeof name !== 'string' || name.trim() === '') {
+    res.status(400).json({ error: 'name must be a non-empty string' });
+    return;
+  }
+
+  const workflow = await renameWorkflow(id, name);
+  if (!workflow) {
+    res.status(404).json({ error: 'Unknown workflow_id' });
+    return;
+  }
+
+  res.json(workflow);
+});
+
+/*
+ * POST /workflows/:id/duplicate
+ * Copies a saved workflow under a new id as a draft and returns the copy
+ */
+router.post('/workflows/:id/duplicate', async (req, res) => {
+  const { id } = req.params;
+  if (!isValidWorkflowId(id)) {
+    res.status(400).json({ error: 'Invalid workflow id' });
+    return;
+  }
+
+  const original = await getWorkflow(id);
+  if (!original) {
+    res.status(404).json({ error: 'Unknown workflow_id' });
+    return;
+  }
+
+  const copy = await saveWorkflow(uuidv4(), {
+    name: `${original.name} (copy)`,
+    nodes: original.nodes,
+    connections: original.connections,
+    databases: original.databases,
+    status: 'draft',
+  });
+
+  res.status(201).json(copy);
+});
+
+/*
+ * DELETE /workflows/:id
+ * Deletes the saved file and forgets any generation of this workflow. 204, or 404 if unknown.
+ */
+router.delete('/workflows/:id', async (req, res) => {
+  const { id } = req.params;
+  if (!isValidWorkflowId(id)) {
+    res.status(400).json({ error: 'Invalid workflow id' });
+    return;
+  }
+
+  let found = await deleteWorkflow(id);
+  generationRegistry.forEach((meta, generationId) => {
+    if (meta.workflowId !== id) return;
+    generationRegistry.delete(generationId);
+    found = true;
+  });
+
+  if (!found) {
+    res.status(404).json({ error: 'Unknown workflow_id' });
+    return;
+  }
+
+  res.status(204).end();
+});
+
+export default router;
@@ -1,6 +1,12 @@
 import express, { Request, Response, NextFunction } from 'express';
 import generateRouter from '../routes/generate';
 import streamRouter from '../routes/stream';
+import fixturesRouter from '../routes/fixtures';
+import recordingsRouter from '../routes/recordings';
+import workflowsRouter from '../routes/workflows';
+import runsRouter from '../routes/runs';
+import refinementsRouter from '../routes/refinements';
+import retriesRouter from '../routes/retries';
 
 const app = express();
 
@@ -11,7 +17,7 @@ const app = express();
 // Enable CORS for all origins
 app.use((req: Request, res: Response, next: NextFunction) => {
   res.header('Access-Control-Allow-Origin', '*');
-  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
   res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept');
   
   if (req.method === 'OPTIONS') {
@@ -27,8 +33,8 @@ app.use((req: Request, _res: Response, next: NextFunction) => {
   next();
 });
 
-// Parse incoming JSON
-app.use(express.json());
+// Parse incoming JSON (saved workflows can be large)
+app.use(express.json({ limit: '5mb' }));
 
 // --------------------------------------------------
 // Routes
@@ -60,6 +66,24 @@ app.use('/workflow-generation', generateRouter);
 // SSE stream route
 app.use('/', streamRouter);
 
+// Fixture listing for the scenario picker
+app.use('/', fixturesRouter);
+
+// Record a real backend stream into a fixture
+app.use('/', recordingsRouter);
+
+// Saved workflows (JSON file store)
+app.use('/', workflowsRouter);
+
+// Simulated workflow runs
+app.use('/', runsRouter);
+
+// Conversational refinement of a finished generation
+app.use('/', refinementsRouter);
+
+// Retrying a failed generation
+app.use('/', retriesRouter);
+
 // Startup / Graceful shutdown
 const PORT = Number(process.env.PORT) || 4000;
 const server = app.listen(PORT, () => {
@@ -0,0 +1,63 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures');
+
+// Fixture names map straight to file names, so keep them path-safe
+const FIXTURE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export interface FixtureSummary {
+  name: string;
+  events: number | null;
+}
+
+export function isValidFixtureName(name: string): boolean {
+  return FIXTURE_NAME_PATTERN.test(name);
+}
+
+export function fixturePath(name: string): string {
+  return path.join(FIXTURES_DIR, `${name}.json`);
+}
+
+/**
+ * Every `*.json` file in the fixtures folder, sorted by name
+ * `events` is null when the file isn't a valid JSON array
+ */
+export async function listFixtures(): Promise<FixtureSummary[]> {
+  const files = await fs.readdir(FIXTURES_DIR);
+  const names = files
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => path.basename(file, '.json'))
+    .filter(isValidFixtureName)
+    .sort();
+
+  return Promise.all(
+    names.map(async (name) => {
+      try {
+        const events = await loadFixture(name);
+        return { name, events: events.length };
+      } catch {
+        return { name, events: null };
+      }
+    })
+  );
+}
+
+export async function fixtureExists(name: string): Promise<boolean> {
+  if (!isValidFixtureName(name)) return false;
+  try {
+    await fs.access(fixturePath(name));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function loadFixture(name: string): Promise<any[]> {
+  const raw = await fs.readFile(fixturePath(name), 'utf-8');
+  const events = JSON.parse(raw);
+  if (!Array.isArray(events)) {
+    throw new Error(`Fixture ${name} is not an array of events`);
+  }
+  return events;
+}
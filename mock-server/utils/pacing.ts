@@ -0,0 +1,88 @@
+import { randomDelay, seededRandom } from './randomDelay';
+
+/**
+ * How fast a fixture is replayed over SSE
+ * - speed: divides every delay (2 = twice as fast)
+ * - fixedDelayMs: constant gap between events instead of the random 2–10s
+ * - seed: makes the random gaps reproducible
+ */
+export interface PacingOptions {
+  speed?: number;
+  fixedDelayMs?: number;
+  seed?: number;
+}
+
+type RawPacing = Record<string, unknown>;
+
+export class PacingError extends Error {}
+
+function parseNumber(value: unknown, name: string, check: (n: number) => boolean): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || !check(parsed)) {
+    throw new PacingError(`Invalid ${name}: ${String(value)}`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse pacing from request query params (`speed`, `fixedDelayMs`, `seed`)
+ * Throws PacingError on malformed values so routes can answer 400
+ */
+export function parsePacingQuery(query: RawPacing): PacingOptions {
+  return {
+    speed: parseNumber(query.speed, 'speed', (n) => n > 0),
+    fixedDelayMs: parseNumber(query.fixedDelayMs, 'fixedDelayMs', (n) => n >= 0),
+    seed: parseNumber(query.seed, 'seed', Number.isInteger),
+  };
+}
+
+/**
+ * Pacing defaults from MOCK_SPEED, MOCK_FIXED_DELAY_MS and MOCK_SEED
+ * Malformed env values are ignored with a warning rather than crashing the server
+ */
+export function pacingFromEnv(env: NodeJS.ProcessEnv = process.env): PacingOptions {
+  try {
+    return parsePacingQuery({
+      speed: env.MOCK_SPEED,
+      fixedDelayMs: env.MOCK_FIXED_DELAY_MS,
+      seed: env.MOCK_SEED,
+    });
+  } catch (err) {
+    console.warn(`Ignoring pacing env vars: ${(err as Error).message}`);
+    return {};
+  }
+}
+
+/**
+ * Merge pacing sources; earlier sources win for each field that is set
+ */
+export function resolvePacing(...sources: Array<PacingOptions | undefined>): PacingOptions {
+  const resolved: PacingOptions = {};
+  for (const source of sources.slice().reverse()) {
+    if (!source) continue;
+    (Object.keys(source) as Array<keyof PacingOptions>).forEach((key) => {
+      if (source[key] !== undefined) resolved[key] = source[key];
+    });
+  }
+  return resolved;
+}
+
+/**
+ * Delay (ms) to wait before sending the event at `index`
+ * A fixture event's own `delayMs` takes precedence over fixed/random delays.
+ * Seeded delays depend only on (seed, index), so a resumed stream keeps its timing
+ */
+export function delayForEvent(pacing: PacingOptions, index: number, event: { delayMs?: unknown }): number {
+  let base: number;
+  if (typeof event.delayMs === 'number' && event.delayMs >= 0) {
+    base = event.delayMs;
+  } else if (pacing.fixedDelayMs !== undefined) {
+    base = pacing.fixedDelayMs;
+  } else if (pacing.seed !== undefined) {
+    base = randomDelay(seededRandom(pacing.seed * 1000003 + index));
+  } else {
+    base = randomDelay();
+  }
+  return Math.round(base / (pacing.speed ?? 1));
+}
@@ -1,4 +1,18 @@
-export function randomDelay(): number {
+export function randomDelay(rng: () => number = Math.random): number {
   // 2 to 10 seconds (in ms)
-  return 2000 + Math.floor(Math.random() * 8000);
-}
\ No newline at end of file
+  return 2000 + Math.floor(rng() * 8000);
+}
+
+/**
+ * Small seeded PRNG (mulberry32) returning floats in [0, 1)
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Error events in a fixture may carry a `recovery` list: the events the backend sends instead
+ * when the failed step is retried. Retries are counted per generation.
+ */
+
+export function isRecoverableError(event: any): boolean {
+  return event?.status === 'error' && Array.isArray(event.recovery);
+}
+
+/**
+ * The fixture as it streams after `retries` retries: the first `retries` recoverable errors
+ * are swapped for their recovery events. `recovery` lists are stripped from what is left.
+ */
+export function withRecoveries(events: any[], retries: number): any[] {
+  let remaining = retries;
+  return events.flatMap((event) => {
+    if (!isRecoverableError(event)) return [event];
+
+    const { recovery, ...payload } = event;
+    if (remaining > 0) {
+      remaining -= 1;
+      return recovery;
+    }
+    return [payload];
+  });
+}
+
+/**
+ * Index of the first error event, or -1 when the stream has none
+ */
+export function findErrorIndex(events: any[]): number {
+  return events.findIndex((event) => event?.status === 'error');
+}
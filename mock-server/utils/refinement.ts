@@ -0,0 +1,354 @@
+// Loose shapes of what the front-end sends; only the fields the responder reads
+interface RefineSchema {
+  type?: string;
+  enum?: unknown[];
+  description?: string;
+}
+
+export interface RefineNode {
+  nodeId: string;
+  name?: string;
+  description?: string;
+  params?: Record<string, unknown>;
+  loop_text?: string | null;
+  inputs?: Record<string, RefineSchema>;
+  outputs?: Record<string, RefineSchema>;
+}
+
+export interface RefineConnection {
+  source: string;
+  target: string;
+}
+
+type RefineEvent = Record<string, unknown>;
+
+// Events that patch the workflow, plus the chat reply describing the change
+interface RefinementPlan {
+  events: RefineEvent[];
+  reply: string;
+}
+
+interface NodeTemplate {
+  keywords: string[];
+  type: string;
+  name: string;
+  description: string;
+  inputs: Record<string, RefineSchema>;
+  outputs: Record<string, RefineSchema>;
+  params: Record<string, unknown>;
+}
+
+// What "add a ... step" can add, picked by the first keyword found in the message
+const NODE_TEMPLATES: NodeTemplate[] = [
+  {
+    keywords: ['slack'],
+    type: 'MessageNode',
+    name: 'Send Slack Message',
+    description: 'Post a message to a Slack channel',
+    inputs: {
+      slack_channel: { type: 'string', description: 'Channel or DM to post to' },
+      message: { type: 'string', description: 'Message text' },
+    },
+    outputs: { message_id: { type: 'string', description: 'Id of the posted message' } },
+    params: { slack_channel: '#general', message: 'The workflow has finished.' },
+  },
+  {
+    keywords: ['email', 'mail'],
+    type: 'EmailNode',
+    name: 'Send Email',
+    description: 'Send an email',
+    inputs: {
+      email_to: { type: 'array', description: 'Recipients' },
+      email_subject: { type: 'string', description: 'Subject line' },
+      email_body: { type: 'string', description: 'Body of the email' },
+    },
+    outputs: { sent: { type: 'boolean', description: 'Whether the email went out' } },
+    params: { email_to: ['team@example.com'], email_subject: '{{$date}} - Workflow update', email_body: 'The workflow has finished.' },
+  },
+  {
+    keywords: ['sheet', 'spreadsheet'],
+    type: 'SpreadsheetNode',
+    name: 'Append to Google Sheet',
+    description: 'Append rows to a Google Sheet',
+    inputs: {
+      spreadsheet_id: { type: 'string', description: 'Id of the spreadsheet' },
+      worksheet: { type: 'string', description: 'Tab to append to' },
+    },
+    outputs: { rows_added: { type: 'integer', description: 'Number of rows appended' } },
+    params: { spreadsheet_id: '', worksheet: 'Sheet1' },
+  },
+  {
+    keywords: ['search', 'web'],
+    type: 'WebSearchNode',
+    name: 'Search the Web',
+    description: 'Run a web search and return the top results',
+    inputs: {
+      query: { type: 'string', description: 'Search query' },
+      max_results: { type: 'integer', description: 'How many results to return' },
+    },
+    outputs: { results: { type: 'array', description: 'Search results' } },
+    params: { query: '', max_results: 5 },
+  },
+  {
+    keywords: ['summar', 'llm', 'ai ', 'gpt', 'classif', 'translat'],
+    type: 'AIProcessingNode',
+    name: 'Summarize with LLM',
+    description: 'Summarize the previous step with an LLM',
+    inputs: {
+      system_prompt: { type: 'string', description: 'Instructions for the model' },
+      model: { type: 'string', description: 'Model to use', enum: ['gpt-4o', 'gpt-4o-mini', 'claude-3-5-sonnet'] },
+      temperature: { type: 'number', description: 'Sampling temperature' },
+    },
+    outputs: { response: { type: 'string', description: 'Model output' } },
+    params: { system_prompt: 'Summarize the input in a few bullet points.', model: 'gpt-4o-mini', temperature: 0.2 },
+  },
+  {
+    keywords: ['webhook', 'http', 'api'],
+    type: 'WebhookNode',
+    name: 'Call Webhook',
+    description: 'Send the result to an HTTP endpoint',
+    inputs: {
+      url: { type: 'string', description: 'Endpoint to call' },
+      method: { type: 'string', description: 'HTTP method', enum: ['POST', 'PUT', 'GET'] },
+    },
+    outputs: { status_code: { type: 'integer', description: 'Response status' } },
+    params: { url: 'https://example.com/hook', method: 'POST' },
+  },
+];
+
+const HELP_MESSAGE = 'I can add a step (e.g. "add a Slack notification"), remove one ("remove the email step"), ' +
+  'rename one ("rename Get Sales Data to Load Sales") or change a setting ("set max_results to 10").';
+
+// Gaps between events, so the canvas visibly patches step by step
+const STEP_DELAY_MS = 400;
+const THINKING_DELAY_MS = 800;
+
+const STOP_WORDS = new Set(['the', 'and', 'node', 'step', 'from', 'with', 'into', 'then', 'that', 'this', 'send', 'data']);
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter((word) => word.length > 2 && !STOP_WORDS.has(word));
+}
+
+// Node type from its id, e.g. "MessageNode_29578" -> "message"
+function nodeTypeWord(node: RefineNode): string {
+  return node.nodeId.replace(/_\d+$/, '').replace(/Node$/, '').toLowerCase();
+}
+
+/**
+ * Node the message talks about: its full name, else the one sharing the most words with the message,
+ * else one whose type is named
+ */
+function findMentionedNode(message: string, nodes: RefineNode[]): RefineNode | undefined {
+  const text = message.toLowerCase();
+  const byName = nodes
+    .filter((node) => node.name && text.includes(node.name.toLowerCase()))
+    .sort((a, b) => b.name!.length - a.name!.length)[0];
+  if (byName) return byName;
+
+  const messageWords = new Set(words(message));
+  let best: RefineNode | undefined;
+  let bestScore = 0;
+  nodes.forEach((node) => {
+    const score = words(`${node.name ?? ''} ${node.description ?? ''}`).filter((word) => messageWords.has(word)).length;
+    if (score > bestScore) {
+      best = node;
+      bestScore = score;
+    }
+  });
+  if (best) return best;
+
+  return nodes.find((node) => nodeTypeWord(node) && text.includes(nodeTypeWord(node)));
+}
+
+function uniqueNodeId(type: string, nodes: RefineNode[]): string {
+  const taken = new Set(nodes.map((node) => node.nodeId));
+  let suffix = 10000 + Math.floor(Math.random() * 90000);
+  while (taken.has(`${type}_${suffix}`)) suffix++;
+  return `${type}_${suffix}`;
+}
+
+function stripQuotes(value: string): string {
+  return value.trim().replace(/[.!]+$/, '').replace(/^["'`](.*)["'`]$/, '$1').trim();
+}
+
+// A value typed in chat, converted to what the param's schema expects
+function coerceValue(raw: string, schema?: RefineSchema): unknown {
+  const value = stripQuotes(raw);
+  if (schema?.enum) {
+    return schema.enum.find((option) => String(option).toLowerCase() === value.toLowerCase()) ?? value;
+  }
+  switch (schema?.type) {
+    case 'number':
+    case 'integer': {
+      const number = Number(value);
+      return Number.isFinite(number) ? number : value;
+    }
+    case 'boolean':
+      return /^(true|yes|on)$/i.test(value) ? true : /^(false|no|off)$/i.test(value) ? false : value;
+    case 'array':
+      return value.split(/\s*(?:,|\band\b)\s*/).filter(Boolean);
+    default:
+      return value;
+  }
+}
+
+function configureEvents(node: RefineNode, name: string, params: Record<string, unknown>): RefineEvent[] {
+  const data = {
+    nodeId: node.nodeId,
+    name,
+    description: node.description ?? '',
+    params,
+    loop_text: node.loop_text ?? null,
+  };
+  return [
+    { step: 'node_configurator', status: 'started', data: { ...data, params: node.params ?? {} }, delayMs: STEP_DELAY_MS },
+    { step: 'node_configurator', status: 'done', data, delayMs: STEP_DELAY_MS },
+  ];
+}
+
+function planRename(message: string, nodes: RefineNode[]): RefinementPlan | null {
+  const match = message.match(/\brename\s+(.+?)\s+to\s+(.+)$/i);
+  if (!match) return null;
+
+  const node = findMentionedNode(match[1], nodes);
+  const name = stripQuotes(match[2]);
+  if (!node || !name) return null;
+
+  return {
+    events: configureEvents(node, name, node.params ?? {}),
+    reply: `Renamed "${node.name ?? node.nodeId}" to "${name}".`,
+  };
+}
+
+function planRemoval(message: string, nodes: RefineNode[], connections: RefineConnection[]): RefinementPlan | null {
+  if (!/\b(remove|delete|drop)\b/i.test(message)) return null;
+
+  const node = findMentionedNode(message, nodes);
+  if (!node) return null;
+
+  // Keep the chain intact: whatever fed the node now feeds what it fed
+  const sources = connections.filter((connection) => connection.target === node.nodeId).map((connection) => connection.source);
+  const targets = connections.filter((connection) => connection.source === node.nodeId).map((connection) => connection.target);
+  const rewired = sources.flatMap((source) => targets
+    .filter((target) => target !== source && !connections.some((c) => c.source === source && c.target === target))
+    .map((target) => ({ source, target })));
+
+  const events: RefineEvent[] = [
+    { step: 'node_remover', status: 'started', data: { nodeIds: [node.nodeId] }, delayMs: STEP_DELAY_MS },
+    { step: 'node_remover', status: 'done', data: { nodeIds: [node.nodeId] }, delayMs: STEP_DELAY_MS },
+  ];
+  if (rewired.length > 0) {
+    events.push(
+      { step: 'connection_builder', status: 'started', data: {}, delayMs: STEP_DELAY_MS },
+      { step: 'connection_builder', status: 'done', data: { mode: 'merge', connections: rewired }, delayMs: STEP_DELAY_MS },
+    );
+  }
+
+  return { events, reply: `Removed "${node.name ?? node.nodeId}"${rewired.length > 0 ? ' and reconnected its neighbours' : ''}.` };
+}
+
+function planAddition(message: string, nodes: RefineNode[], connections: RefineConnection[]): RefinementPlan | null {
+  if (!/\b(add|insert|include|also)\b/i.test(message)) return null;
+
+  const text = message.toLowerCase();
+  const template = NODE_TEMPLATES.find((candidate) => candidate.keywords.some((keyword) => text.includes(keyword)));
+  if (!template) return null;
+
+  // Attach after a node named in the message ("after X"), else after the last step of the graph
+  const afterMatch = message.match(/\bafter\s+(.+)$/i);
+  const sinks = nodes.filter((node) => !connections.some((connection) => connection.source === node.nodeId));
+  const anchor = (afterMatch && findMentionedNode(afterMatch[1], nodes)) || sinks[sinks.length - 1] || nodes[nodes.length - 1];
+
+  const nodeId = uniqueNodeId(template.type, nodes);
+  const node: RefineNode = {
+    nodeId,
+    name: template.name,
+    description: template.description,
+    inputs: template.inputs,
+    outputs: template.outputs,
+  };
+
+  const events: RefineEvent[] = [
+    { step: 'node_selector', status: 'started', data: {}, delayMs: THINKING_DELAY_MS },
+    { step: 'node_selector', status: 'done', data: { mode: 'merge', nodes: [node] }, delayMs: STEP_DELAY_MS },
+  ];
+  if (anchor) {
+    events.push(
+      { step: 'connection_builder', status: 'started', data: {}, delayMs: STEP_DELAY_MS },
+      { step: 'connection_builder', status: 'done', data: { mode: 'merge', connections: [{ source: anchor.nodeId, target: nodeId }] }, delayMs: STEP_DELAY_MS },
+    );
+  }
+  events.push(...configureEvents(node, template.name, template.params));
+
+  return {
+    events,
+    reply: `Added "${template.name}"${anchor ? ` after "${anchor.name ?? anchor.nodeId}"` : ''}. Check its settings in the inspector.`,
+  };
+}
+
+function planReconfiguration(message: string, nodes: RefineNode[]): RefinementPlan | null {
+  const text = message.toLowerCase();
+  const mentioned = findMentionedNode(message, nodes);
+  // Nodes the message could be about: the one it names first, then everything else
+  const candidates = mentioned ? [mentioned, ...nodes.filter((node) => node !== mentioned)] : nodes;
+
+  // "set <param> to <value>" / "change <param> to <value>"
+  const assignment = message.match(/\b(?:set|change|update|make)\s+(?:the\s+)?(.+?)\s+(?:to|=)\s+(.+)$/i);
+  if (assignment) {
+    const target = assignment[1].toLowerCase();
+    for (const node of candidates) {
+      const paramNames = Object.keys({ ...(node.inputs ?? {}), ...(node.params ?? {}) });
+      const param = paramNames.find((name) => target.includes(name.toLowerCase()) || target.includes(name.replace(/_/g, ' ').toLowerCase()));
+      if (!param) continue;
+
+      const value = coerceValue(assignment[2], node.inputs?.[param]);
+      return {
+        events: configureEvents(node, node.name ?? node.nodeId, { ...(node.params ?? {}), [param]: value }),
+        reply: `Set ${param} of "${node.name ?? node.nodeId}" to ${JSON.stringify(value)}.`,
+      };
+    }
+  }
+
+  // "use gpt-4o" / "switch to PUT": an enum value one of the nodes accepts
+  for (const node of candidates) {
+    for (const [param, schema] of Object.entries(node.inputs ?? {})) {
+      const option = schema.enum
+        ?.filter((value) => new RegExp(`(^|[^a-z0-9-])${String(value).toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}($|[^a-z0-9-])`).test(text))
+        .sort((a, b) => String(b).length - String(a).length)[0];
+      if (option === undefined || node.params?.[param] === option) continue;
+
+      return {
+        events: configureEvents(node, node.name ?? node.nodeId, { ...(node.params ?? {}), [param]: option }),
+        reply: `Switched ${param} of "${node.name ?? node.nodeId}" to ${JSON.stringify(option)}.`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Scripted stand-in for the refinement agent: turns a chat message into step events that patch
+ * the given workflow (remove, add, rename or reconfigure one node), with `delayMs` before each.
+ * The stream is framed by status changes COMPLETED -> REFINING -> COMPLETED and carries the
+ * reply as an `assistant_message` event
+ */
+export function planRefinement(
+  generationId: string,
+  message: string,
+  nodes: RefineNode[],
+  connections: RefineConnection[]
+): RefineEvent[] {
+  const plan = planRename(message, nodes) ??
+    planRemoval(message, nodes, connections) ??
+    planAddition(message, nodes, connections) ??
+    planReconfiguration(message, nodes) ??
+    { events: [], reply: `Sorry, I couldn't work out what to change. ${HELP_MESSAGE}` };
+
+  return [
+    { type: 'status_change', old_status: 'COMPLETED', new_status: 'REFINING', generation_id: generationId, delayMs: 0 },
+    ...plan.events,
+    { type: 'assistant_message', content: plan.reply, generation_id: generationId, delayMs: STEP_DELAY_MS },
+    { type: 'status_change', old_status: 'REFINING', new_status: 'COMPLETED', generation_id: generationId, delayMs: 0 },
+  ];
+}
@@ -0,0 +1,121 @@
+import { Request, Response } from 'express';
+import { getLastEventId, initSSE, sendSSE } from './sse';
+import { delayForEvent, PacingOptions } from './pacing';
+
+// Heartbeats keep the client's liveness watchdog quiet during long pauses
+const HEARTBEAT_INTERVAL_MS = Number(process.env.HEARTBEAT_INTERVAL_MS) || 5000;
+
+export interface ReplayOptions {
+  pacing: PacingOptions;
+  // Extra fields for heartbeat events, e.g. { generation_id }
+  heartbeat: Record<string, unknown>;
+  // Close the stream right after this event (e.g. a step error)
+  isFinalEvent?: (event: any) => boolean;
+  // Called for every event as it is sent (heartbeats excluded), with its id
+  onEvent?: (event: any, id: number) => void;
+  // Called once the replay stops, whether it finished or the client went away
+  onClose?: () => void;
+}
+
+export interface ReplayHandle {
+  // Stop sending and end the response
+  end: () => void;
+  // Id the next event will be sent with
+  position: () => number;
+  // Stop the paced replay, send these events right away (ids continue from `position`) and end
+  finish: (events: any[]) => void;
+}
+
+/**
+ * Replay a pre-recorded event list over SSE, resuming after Last-Event-ID
+ * Event ids are list indexes; `delayMs` on an event is the wait before it and is stripped.
+ * Returns null (after answering 204) when the client has already seen everything
+ */
+export function replayEvents(req: Request, res: Response, events: any[], options: ReplayOptions): ReplayHandle | null {
+  // Resume after the last event the client saw
+  const lastEventId = getLastEventId(req);
+  let idx = lastEventId === null ? 0 : lastEventId + 1;
+
+  // Nothing left to replay: 204 tells EventSource to stop reconnecting
+  if (idx >= events.length) {
+    res.status(204).end();
+    return null;
+  }
+
+  initSSE(res);
+
+  let timer: NodeJS.Timeout | null = null;
+  let ended = false;
+
+  // Heartbeats carry no id: they are not part of the replayable sequence
+  const heartbeat = setInterval(() => {
+    sendSSE(res, { type: 'heartbeat', timestamp: new Date().toISOString(), ...options.heartbeat });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  let closed = false;
+  const stop = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    clearInterval(heartbeat);
+    if (!closed) {
+      closed = true;
+      options.onClose?.();
+    }
+  };
+
+  const end = () => {
+    if (ended) return;
+    ended = true;
+    stop();
+    res.end();
+  };
+
+  // Stop pushing once the client goes away; it will resume from its last id
+  req.on('close', () => {
+    ended = true;
+    stop();
+  });
+
+  const pushNext = () => {
+    if (ended) return;
+    if (idx >= events.length) {
+      end();
+      return;
+    }
+
+    // `delayMs` is fixture metadata, not part of the event
+    const { delayMs: _delayMs, ...payload } = events[idx];
+    sendSSE(res, payload, idx);
+    options.onEvent?.(payload, idx);
+    idx += 1;
+
+    if (options.isFinalEvent?.(payload)) {
+      end();
+      return;
+    }
+
+    if (idx < events.length) {
+      timer = setTimeout(pushNext, delayForEvent(options.pacing, idx, events[idx]));
+    } else {
+      end();
+    }
+  };
+
+  // The first event goes out right away unless the list asks for a delay
+  const firstDelayMs = typeof events[idx].delayMs === 'number' ? delayForEvent(options.pacing, idx, events[idx]) : 0;
+  timer = setTimeout(pushNext, firstDelayMs);
+
+  const finish = (finalEvents: any[]) => {
+    if (ended) return;
+    stop();
+    finalEvents.forEach((event) => {
+      const { delayMs: _delayMs, ...payload } = event;
+      sendSSE(res, payload, idx);
+      options.onEvent?.(payload, idx);
+      idx += 1;
+    });
+    end();
+  };
+
+  return { end, position: () => idx, finish };
+}
@@ -1,4 +1,4 @@
-import { Response } from 'express';
+import { Request, Response } from 'express';
 
 // Common SSE headers
 export function initSSE(res: Response) {
@@ -8,8 +8,82 @@ export function initSSE(res: Response) {
   res.flushHeaders?.(); // flush if compression middleware not present
 }
 
-// Send one JSON payload as an SSE "message" event
-export function sendSSE(res: Response, data: unknown) {
+// Send one JSON payload as an SSE "message" event. When an id is given it is
+// emitted as the `id:` line so the client can resume via Last-Event-ID.
+export function sendSSE(res: Response, data: unknown, id?: string | number) {
   res.write(`event: message\n`);
+  if (typeof id !== 'undefined') {
+    res.write(`id: ${id}\n`);
+  }
   res.write(`data: ${JSON.stringify(data)}\n\n`);
-}
\ No newline at end of file
+}
+
+// Resolve the last event id a reconnecting client has seen. Browsers send the
+// Last-Event-ID header on their own retries; our client passes it as a query
+// param because EventSource cannot set headers on a fresh connection.
+export function getLastEventId(req: Request): number | null {
+  const raw = req.header('Last-Event-ID') ?? req.query.lastEventId;
+  if (typeof raw !== 'string' || raw.trim() === '') return null;
+
+  const parsed = Number(raw);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
+
+export interface ParsedSSEEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+// Incremental parser for an SSE byte stream (as proxied from an upstream
+// server). Feed it chunks as they arrive; it calls `onEvent` for every
+// complete frame and keeps partial frames buffered until the next chunk.
+export function createSSEParser(onEvent: (event: ParsedSSEEvent) => void) {
+  let buffer = '';
+  // A chunk ending in \r may be the first half of \r\n: wait for the next one to tell
+  let pendingCR = false;
+
+  const dispatchFrame = (frame: string) => {
+    const dataLines: string[] = [];
+    let event = 'message';
+    let id: string | undefined;
+
+    for (const line of frame.split('\n')) {
+      if (line === '' || line.startsWith(':')) continue;
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      let value = colon === -1 ? '' : line.slice(colon + 1);
+      if (value.startsWith(' ')) value = value.slice(1);
+
+      if (field === 'data') dataLines.push(value);
+      else if (field === 'event') event = value;
+      else if (field === 'id') id = value;
+    }
+
+    if (dataLines.length > 0) {
+      onEvent({ event, data: dataLines.join('\n'), id });
+    }
+  };
+
+  return {
+    push(chunk: string) {
+      let text = pendingCR ? `\r${chunk}` : chunk;
+      pendingCR = text.endsWith('\r');
+      if (pendingCR) text = text.slice(0, -1);
+      buffer += text.replace(/\r\n?/g, '\n');
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        dispatchFrame(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+      }
+    },
+    // Dispatch whatever is left once the stream has ended
+    flush() {
+      if (pendingCR) buffer += '\n';
+      if (buffer.trim() !== '') dispatchFrame(buffer);
+      buffer = '';
+      pendingCR = false;
+    },
+  };
+}
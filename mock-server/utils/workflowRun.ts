@@ -0,0 +1,176 @@
+import { seededRandom } from './randomDelay';
+
+// Loose shapes of what the front-end sends; only the fields the simulation reads
+interface RunSchema {
+  type?: string;
+  enum?: unknown[];
+  items?: RunSchema;
+  properties?: Record<string, RunSchema>;
+}
+
+export interface RunNode {
+  nodeId: string;
+  name?: string;
+  params?: Record<string, unknown>;
+  inputs?: Record<string, RunSchema>;
+  outputs?: Record<string, RunSchema>;
+}
+
+export interface RunConnection {
+  source: string;
+  target: string;
+}
+
+export interface RunOptions {
+  // Node that fails instead of succeeding; everything downstream is skipped
+  failNodeId?: string;
+  seed?: number;
+}
+
+/**
+ * Execution order: Kahn's algorithm, ties broken by the order nodes were given in
+ * Nodes caught in a cycle (loops) run after everything else, in their original order
+ */
+export function topologicalOrder(nodes: RunNode[], connections: RunConnection[]): string[] {
+  const ids = nodes.map((node) => node.nodeId);
+  const known = new Set(ids);
+  const indegree = new Map(ids.map((id) => [id, 0]));
+  const downstream = new Map<string, string[]>(ids.map((id) => [id, []]));
+
+  connections.forEach(({ source, target }) => {
+    if (!known.has(source) || !known.has(target) || source === target) return;
+    downstream.get(source)!.push(target);
+    indegree.set(target, indegree.get(target)! + 1);
+  });
+
+  // Kept sorted by position in `nodes`, so the next node to run is always the earliest ready one
+  const position = new Map(ids.map((id, index) => [id, index]));
+  const order: string[] = [];
+  const ready = ids.filter((id) => indegree.get(id) === 0);
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    order.push(id);
+    downstream.get(id)!.forEach((target) => {
+      const remaining = indegree.get(target)! - 1;
+      indegree.set(target, remaining);
+      if (remaining === 0) ready.push(target);
+    });
+    ready.sort((a, b) => position.get(a)! - position.get(b)!);
+  }
+
+  const ordered = new Set(order);
+  return [...order, ...ids.filter((id) => !ordered.has(id))];
+}
+
+/**
+ * Plausible value matching a port schema, e.g. { type: 'array', items: { type: 'string' } }
+ */
+export function sampleFromSchema(schema: RunSchema | undefined, key: string, rng: () => number, depth = 0): unknown {
+  if (schema?.enum && schema.enum.length > 0) {
+    return schema.enum[Math.floor(rng() * schema.enum.length)];
+  }
+
+  switch (schema?.type) {
+    case 'number':
+    case 'integer':
+      return Math.round(rng() * 1000);
+    case 'boolean':
+      return rng() > 0.5;
+    case 'array':
+      if (depth > 3) return [];
+      return [0, 1].map((index) => sampleFromSchema(schema.items, `${key}_${index + 1}`, rng, depth + 1));
+    case 'object': {
+      if (depth > 3 || !schema.properties) return {};
+      const result: Record<string, unknown> = {};
+      Object.entries(schema.properties).forEach(([childKey, childSchema]) => {
+        result[childKey] = sampleFromSchema(childSchema, childKey, rng, depth + 1);
+      });
+      return result;
+    }
+    default:
+      return `sample ${key}`;
+  }
+}
+
+/**
+ * Pre-computed run: every SSE event in order, with `delayMs` before each one
+ * Planning up front keeps the stream resumable by event index, like a fixture
+ */
+export function planRun(runId: string, nodes: RunNode[], connections: RunConnection[], options: RunOptions = {}) {
+  const rng = options.seed !== undefined ? seededRandom(options.seed) : Math.random;
+  const order = topologicalOrder(nodes, connections);
+  const nodesById = new Map(nodes.map((node) => [node.nodeId, node]));
+  const outputs = new Map<string, Record<string, unknown>>();
+  const failed = new Set<string>();
+  const events: Record<string, unknown>[] = [];
+
+  events.push({ type: 'run_started', run_id: runId, node_order: order, delayMs: 0 });
+  order.forEach((nodeId) => {
+    events.push({ type: 'node_status', run_id: runId, nodeId, status: 'queued', delayMs: 0 });
+  });
+
+  let totalMs = 0;
+  order.forEach((nodeId) => {
+    const node = nodesById.get(nodeId)!;
+    const upstream = connections.filter((connection) => connection.target === nodeId).map((connection) => connection.source);
+
+    // Anything downstream of a failure never runs
+    if (upstream.some((sourceId) => failed.has(sourceId))) {
+      failed.add(nodeId);
+      events.push({ type: 'node_status', run_id: runId, nodeId, status: 'skipped', delayMs: 100 });
+      return;
+    }
+
+    // Inputs come from upstream outputs with the same key, then params, then samples
+    const upstreamValues = Object.assign({}, ...upstream.map((sourceId) => outputs.get(sourceId) ?? {}));
+    const input: Record<string, unknown> = {};
+    Object.entries(node.inputs ?? {}).forEach(([key, schema]) => {
+      if (key in upstreamValues) input[key] = upstreamValues[key];
+      else if (node.params && key in node.params) input[key] = node.params[key];
+      else input[key] = sampleFromSchema(schema, key, rng);
+    });
+
+    const durationMs = 400 + Math.floor(rng() * 1600);
+    totalMs += durationMs;
+    events.push({ type: 'node_status', run_id: runId, nodeId, status: 'running', input, delayMs: 300 });
+
+    if (nodeId === options.failNodeId) {
+      failed.add(nodeId);
+      events.push({
+        type: 'node_status',
+        run_id: runId,
+        nodeId,
+        status: 'failed',
+        duration_ms: durationMs,
+        error: `${node.name || nodeId} failed: simulated error`,
+        delayMs: durationMs,
+      });
+      return;
+    }
+
+    const output: Record<string, unknown> = {};
+    Object.entries(node.outputs ?? {}).forEach(([key, schema]) => {
+      output[key] = sampleFromSchema(schema, key, rng);
+    });
+    outputs.set(nodeId, output);
+    events.push({
+      type: 'node_status',
+      run_id: runId,
+      nodeId,
+      status: 'succeeded',
+      duration_ms: durationMs,
+      output,
+      delayMs: durationMs,
+    });
+  });
+
+  events.push({
+    type: 'run_completed',
+    run_id: runId,
+    status: failed.size > 0 ? 'failed' : 'succeeded',
+    duration_ms: totalMs,
+    delayMs: 200,
+  });
+
+  return events;
+}
@@ -0,0 +1,134 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// One JSON file per workflow; the folder is gitignored
+export const WORKFLOWS_DIR = process.env.MOCK_DATA_DIR
+  ? path.resolve(process.env.MOCK_DATA_DIR, 'workflows')
+  : path.join(__dirname, '..', 'data', 'workflows');
+
+// Workflow ids map straight to file names, so keep them path-safe
+const WORKFLOW_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export interface StoredWorkflow {
+  id: string;
+  name: string;
+  nodes: unknown[];
+  connections: unknown[];
+  databases: unknown[];
+  status: 'draft' | 'published';
+  generationId?: string;
+  createdAt: string;
+  updatedAt: string;
+  publishedAt?: string;
+}
+
+export type WorkflowInput = Omit<StoredWorkflow, 'id' | 'createdAt' | 'updatedAt' | 'publishedAt'>;
+
+export function isValidWorkflowId(id: string): boolean {
+  return WORKFLOW_ID_PATTERN.test(id);
+}
+
+function workflowPath(id: string): string {
+  return path.join(WORKFLOWS_DIR, `${id}.json`);
+}
+
+/**
+ * Check the shape of a PUT body; returns a list of problems (empty when valid)
+ */
+export function validateWorkflowInput(body: any): string[] {
+  const problems: string[] = [];
+  if (!body || typeof body !== 'object') return ['Body must be a JSON object'];
+  if (typeof body.name !== 'string' || body.name.trim() === '') problems.push('name must be a non-empty string');
+  if (!Array.isArray(body.nodes)) problems.push('nodes must be an array');
+  if (!Array.isArray(body.connections)) problems.push('connections must be an array');
+  if (body.databases !== undefined && !Array.isArray(body.databases)) problems.push('databases must be an array');
+  if (body.status !== undefined && body.status !== 'draft' && body.status !== 'published') {
+    problems.push('status must be "draft" or "published"');
+  }
+  return problems;
+}
+
+/**
+ * Every saved workflow, in no particular order
+ */
+export async function listWorkflows(): Promise<StoredWorkflow[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(WORKFLOWS_DIR);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw err;
+  }
+
+  const ids = files.filter((file) => file.endsWith('.json')).map((file) => path.basename(file, '.json'));
+  const workflows = await Promise.all(ids.filter(isValidWorkflowId).map(getWorkflow));
+  return workflows.filter((workflow): workflow is StoredWorkflow => workflow !== null);
+}
+
+export async function getWorkflow(id: string): Promise<StoredWorkflow | null> {
+  try {
+    const raw = await fs.readFile(workflowPath(id), 'utf-8');
+    return JSON.parse(raw);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+/**
+ * Create or replace a workflow, keeping its original createdAt
+ */
+export async function saveWorkflow(id: string, input: WorkflowInput): Promise<StoredWorkflow> {
+  const existing = await getWorkflow(id);
+  const now = new Date().toISOString();
+  const status = input.status ?? 'draft';
+
+  const workflow: StoredWorkflow = {
+    id,
+    name: input.name.trim(),
+    nodes: input.nodes,
+    connections: input.connections,
+    databases: input.databases ?? [],
+    status,
+    generationId: input.generationId ?? existing?.generationId,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    publishedAt: status === 'published' ? now : existing?.publishedAt,
+  };
+
+  await writeWorkflow(workflow);
+  return workflow;
+}
+
+/**
+ * Change only the name; status and publishedAt stay as they are
+ */
+export async function renameWorkflow(id: string, name: string): Promise<StoredWorkflow | null> {
+  const existing = await getWorkflow(id);
+  if (!existing) return null;
+
+  const workflow: StoredWorkflow = { ...existing, name: name.trim(), updatedAt: new Date().toISOString() };
+  await writeWorkflow(workflow);
+  return workflow;
+}
+
+/**
+ * Remove a saved workflow; resolves false when there was nothing to delete
+ */
+export async function deleteWorkflow(id: string): Promise<boolean> {
+  try {
+    await fs.unlink(workflowPath(id));
+    return true;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return false;
+    throw err;
+  }
+}
+
+async function writeWorkflow(workflow: StoredWorkflow): Promise<void> {
+  await fs.mkdir(WORKFLOWS_DIR, { recursive: true });
+  // Write then rename so a crash never leaves a half-written file behind
+  const tmpPath = `${workflowPath(workflow.id)}.tmp`;
+  await fs.writeFile(tmpPath, `${JSON.stringify(workflow, null, 2)}\n`, 'utf-8');
+  await fs.rename(tmpPath, workflowPath(workflow.id));
+}
@@ -2,10 +2,12 @@
 
 import { useState } from "react";
 import TextareaAutosize from "react-textarea-autosize";
-import { SparklesIcon, BarChart3, FileText, Headphones, Eye, UserPlus } from "lucide-react";
+import { SparklesIcon, BarChart3, FileText, Headphones, Eye, UserPlus, ListIcon } from "lucide-react";
+import Link from "next/link";
 import { api } from "@/lib/api";
 import { useRouter } from "next/navigation";
 import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { ScenarioPicker, isScenarioPickerEnabled } from "@/components/scenario-picker";
 
 const WORKFLOW_SUGGESTIONS = [
   {
@@ -39,6 +41,7 @@ export default function GenerateWorkflowPage() {
   const [message, setMessage] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fixture, setFixture] = useState<string | undefined>(undefined);
   const router = useRouter();
 
   const handleSend = async (e: React.FormEvent) => {
@@ -49,7 +52,7 @@ export default function GenerateWorkflowPage() {
     setError(null);
     
     try {
-      const data = await api.generateWorkflow(message);
+      const data = await api.generateWorkflow(message, { fixture });
       
       // Navigate to workflow page
       const url = `/workflows/${data.workflow_id}?generation-id=${data.generation_id}`;
@@ -63,7 +66,14 @@ export default function GenerateWorkflowPage() {
   };
 
   return (
-    <div className="flex min-h-screen items-center justify-center bg-white">
+    <div className="relative flex min-h-screen items-center justify-center bg-white">
+      <Link
+        href="/workflows"
+        className="absolute right-6 top-4 flex items-center gap-1.5 text-sm text-gray-600 hover:text-black"
+      >
+        <ListIcon className="h-4 w-4" />
+        All workflows
+      </Link>
       <div className="w-full max-w-2xl flex flex-col items-center">
         <div className="w-full flex justify-center mb-2">
           <SparklesIcon className="h-7 w-7 text-black" />
@@ -119,7 +129,10 @@ export default function GenerateWorkflowPage() {
                   );
                 })}
               </div>
-              <div className="flex justify-end m-2">
+              <div className={`flex items-center m-2 ${isScenarioPickerEnabled ? "justify-between" : "justify-end"}`}>
+                {isScenarioPickerEnabled && (
+                  <ScenarioPicker value={fixture} onChange={setFixture} disabled={isLoading} />
+                )}
                 <button
                   type="submit"
                   className={`${
@@ -1,5 +1,7 @@
 import type { Metadata } from "next";
 import { Inter } from "next/font/google";
+import { Suspense } from "react";
+import { RunningGenerationsIndicator } from "@/components/running-generations-indicator";
 import "./globals.css";
 
 const inter = Inter({ subsets: ["latin"] });
@@ -16,7 +18,13 @@ export default function RootLayout({
 }>) {
   return (
     <html lang="en">
-      <body className={inter.className}>{children}</body>
+      <body className={inter.className}>
+        {children}
+        {/* Reads the URL, which needs a Suspense boundary when pages are prerendered */}
+        <Suspense fallback={null}>
+          <RunningGenerationsIndicator />
+        </Suspense>
+      </body>
     </html>
   );
 }
\ No newline at end of file
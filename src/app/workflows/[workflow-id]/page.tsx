@@ -5,7 +5,18 @@ import { useParams, useRouter } from 'next/navigation';
 import { useSearchParams } from 'next/navigation';
 import { api } from '@/lib/api';
 import { useGenerationState } from '@/hooks/use-generation-state';
-import { GenerationCanvas } from '@/components/generation-canvas';
+import { useWorkflowHistory } from '@/hooks/use-workflow-history';
+import { useWorkflowRun } from '@/hooks/use-workflow-run';
+import { generationStateToSaveRequest } from '@/lib/workflow-persistence';
+import type { SavedWorkflow, SavedWorkflowStatus, WorkflowDocument } from '@/types/workflow';
+import { GenerationCanvas, type CanvasFocusRequest } from '@/components/generation-canvas';
+import { GenerationStatusTimeline } from '@/components/generation-status-timeline';
+import { RunLogPanel } from '@/components/run-log-panel';
+import { WorkflowFileMenu } from '@/components/workflow-file-menu';
+import { NodeInspector } from '@/components/node-inspector';
+import { StepTimelineEntry } from '@/components/step-timeline-entry';
+import { GenerationErrorCard } from '@/components/generation-error-card';
+import type { RetryScope } from '@/lib/api';
 import { 
   Loader2, 
   AlertTriangle, 
@@ -16,7 +27,13 @@ import {
   CheckCircle2,
   Clock,
   CircleCheckBig,
-  SendIcon
+  SendIcon,
+  PencilIcon,
+  EyeIcon,
+  Undo2,
+  Redo2,
+  SaveIcon,
+  SquareIcon
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -30,14 +47,23 @@ export default function ViewWorkflowPage() {
   const workflowId = params?.['workflow-id'] as string | undefined;
   const generationId = searchParams?.get('generation-id') as string | undefined;
 
-  const [currentWorkflowName, setCurrentWorkflowName] = useState<string>("Workflow Generation");
+  const [titleDraft, setTitleDraft] = useState("");
   const [isEditingTitle, setIsEditingTitle] = useState(false);
+  const [isEditMode, setIsEditMode] = useState(false);
+  const [inspectedNodeId, setInspectedNodeId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+
+  // Persistence state
+  const [savedWorkflow, setSavedWorkflow] = useState<SavedWorkflow | null>(null);
+  const [savingStatus, setSavingStatus] = useState<SavedWorkflowStatus | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
   
   // Chat state
-  const [chatHistory, setChatHistory] = useState<{ role: 'user' | 'assistant'; content: string }[]>([]);
+  // Step messages render the timeline entry they point at
+  const [chatHistory, setChatHistory] = useState<{ role: 'user' | 'assistant'; content: string; stepEntryId?: string }[]>([]);
   const [currentMessage, setCurrentMessage] = useState("");
+  const [canvasFocus, setCanvasFocus] = useState<CanvasFocusRequest | null>(null);
   
   // Mock nodes state
   const [mockNodesFetched, setMockNodesFetched] = useState(false);
@@ -48,56 +74,91 @@ export default function ViewWorkflowPage() {
   const [isChatMinimized, setIsChatMinimized] = useState(false);
   const isResizing = useRef(false);
   const titleInputRef = useRef<HTMLInputElement>(null);
+  const titleEditEndedRef = useRef(false);
 
   // SSE-based generation state
   const {
     state: generationState,
     isConnected,
     isConnecting,
+    isReconnecting,
+    reconnectAttempt,
     connectionError,
+    isServerSilent,
     isProcessing,
     canShowCanvas,
     toggleChat,
     setMockNodes,
+    applyEdit,
+    loadWorkflow,
+    importWorkflow,
+    refine,
+    isRefining,
+    retry,
+    keepPartial,
+    isRetrying,
+    cancel,
+    isCancelling,
     hasMockNodes,
     isCompleted,
   } = useGenerationState({
     generationId: generationId || '',
+    workflowId,
     enabled: !!generationId,
   });
 
+  // Every user edit (canvas, title) goes through the history so it can be undone
+  const { execute: executeEdit, undo, redo, canUndo, canRedo, clear: clearHistory } = useWorkflowHistory({
+    state: generationState,
+    applyEdit,
+    resetKey: generationId,
+  });
+  const currentWorkflowName = generationState.workflowName || "Workflow Generation";
+
   const isGenerating = !!generationId && isProcessing;
+
+  // Simulated execution of whatever is on the canvas
+  const { runState, isRunning, startRun, resetRun } = useWorkflowRun({
+    workflowId,
+    nodes: generationState.nodes,
+    connections: generationState.connections,
+  });
+  const nodeNames = useMemo(
+    () => Object.fromEntries(generationState.nodes.map((node) => [node.nodeId, node.name])),
+    [generationState.nodes]
+  );
   const generationError = connectionError || generationState.errorMessage;
+  const stepEntries = useMemo(
+    () => new Map(generationState.stepTimeline.map((entry) => [entry.id, entry])),
+    [generationState.stepTimeline]
+  );
 
   // Function to fetch mock nodes for immediate user feedback
+  // Skipped when the shared store already has the generation (page opened again, or another tab)
+  const hasGenerationStarted = generationState.currentStep !== null || generationState.hasMockNodes;
   const fetchMockNodes = useCallback(async () => {
-    if (mockNodesFetched || !generationId) return;
+    if (mockNodesFetched || !generationId || hasGenerationStarted) return;
     
     try {
       setMockNodesFetched(true);
-      console.log('🎯 Fetching initial details for generation:', generationId);
-      
+
       // Call the simplified endpoint that returns { name, description, nodes }
       const response = await api.getInitialDetails(generationId);
       
       if (response.nodes && response.nodes.length > 0) {
-        console.log('🚀 Received initial mock nodes:', response.nodes);
         // These are the initial mock nodes that should have the purple shimmer
         setMockNodes(response.nodes);
         
         // Set the workflow name from the API response
         if (response.name) {
-          console.log('🏷️ Setting workflow name from API:', response.name);
-          setCurrentWorkflowName(response.name);
+          // Initial name from the server, not a user edit: bypass the history
+          applyEdit({ type: 'rename_workflow', name: response.name });
         }
-      } else {
-        console.warn('⚠️ No nodes received in response:', response);
       }
-    } catch (error) {
-      console.warn('⚠️ Failed to fetch mock nodes (non-critical):', error);
+    } catch {
       // Fail silently - mock nodes are nice-to-have, not essential
     }
-  }, [generationId, mockNodesFetched, setMockNodes]);
+  }, [generationId, mockNodesFetched, hasGenerationStarted, setMockNodes, applyEdit]);
 
   // Fetch mock nodes when component mounts
   useEffect(() => {
@@ -106,16 +167,42 @@ export default function ViewWorkflowPage() {
     }
   }, [generationId, workflowId, fetchMockNodes]);
 
-  // Initialize loading state
+  // Initialize loading state: stream a generation, or open the saved workflow
   useEffect(() => {
-    if (workflowId && generationId) {
+    if (!workflowId) {
+      setError("Workflow ID is missing.");
       setLoading(false);
-      setError(null);
-    } else if (!workflowId || !generationId) {
-      setError("Workflow ID or Generation ID is missing.");
+      return;
+    }
+
+    if (generationId) {
       setLoading(false);
+      setError(null);
+      return;
     }
-  }, [workflowId, generationId]);
+
+    let cancelled = false;
+    setLoading(true);
+    api.getWorkflow(workflowId)
+      .then((workflow) => {
+        if (cancelled) return;
+        loadWorkflow(workflow);
+        setSavedWorkflow(workflow);
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Failed to load workflow:', err);
+        setError(err instanceof Error ? err.message : "Failed to load workflow.");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [workflowId, generationId, loadWorkflow]);
 
   // Update chat with SSE messages
   useEffect(() => {
@@ -124,7 +211,8 @@ export default function ViewWorkflowPage() {
         .filter(msg => msg && msg.content) // Filter out null/undefined messages
         .map(msg => ({
           role: msg.type === 'system' ? "user" as const : "assistant" as const,
-          content: msg.content || ''
+          content: msg.content || '',
+          stepEntryId: msg.stepEntryId,
         }));
       setChatHistory(newMessages);
     }
@@ -147,19 +235,30 @@ export default function ViewWorkflowPage() {
     setCurrentMessage(e.target.value);
   };
 
+  // Chat messages ask the agent to change the finished workflow in place
+  const canRefine = !!(generationId || generationState.generationId) &&
+    generationState.isComplete &&
+    !generationState.hasError &&
+    !isRefining;
+
   const handleSendMessage = () => {
-    if (currentMessage.trim()) {
-      setChatHistory(prev => [...prev, { role: 'user', content: currentMessage.trim() }]);
-      setCurrentMessage("");
-      
-      // Simulate response
-      setTimeout(() => {
-        setChatHistory(prev => [...prev, { 
-          role: 'assistant', 
-          content: "I'll help you update the workflow based on your request!" 
-        }]);
-      }, 1500);
-    }
+    if (!currentMessage.trim() || !canRefine) return;
+    // The refinement patches the workflow outside the edit history, so earlier edits can't be undone onto it
+    clearHistory();
+    refine(currentMessage);
+    setCurrentMessage("");
+  };
+
+  // Error card actions: a retry streams over the workflow and the edit history, so both are reset
+  const handleRetry = (scope: RetryScope) => {
+    resetRun();
+    clearHistory();
+    retry(scope);
+  };
+
+  const handleKeepPartial = () => {
+    keepPartial();
+    setIsEditMode(true);
   };
 
   const handleMessageKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -171,22 +270,35 @@ export default function ViewWorkflowPage() {
 
   // Title editing handlers
   const handleEditTitle = () => {
+    titleEditEndedRef.current = false;
+    setTitleDraft(currentWorkflowName);
     setIsEditingTitle(true);
   };
 
   const handleTitleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setCurrentWorkflowName(e.target.value);
+    setTitleDraft(e.target.value);
   };
 
-  const handleTitleBlur = () => {
+  // The rename is recorded once, when editing ends, not per keystroke
+  const commitTitle = () => {
+    titleEditEndedRef.current = true;
     setIsEditingTitle(false);
+    if (titleDraft.trim() && titleDraft.trim() !== currentWorkflowName) {
+      executeEdit({ type: 'rename_workflow', name: titleDraft });
+    }
+  };
+
+  const handleTitleBlur = () => {
+    // Enter/Escape already ended editing; the blur from unmounting the input must not commit again
+    if (!titleEditEndedRef.current) commitTitle();
   };
 
   const handleTitleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter') {
-      setIsEditingTitle(false);
+      commitTitle();
     }
     if (e.key === 'Escape') {
+      titleEditEndedRef.current = true;
       setIsEditingTitle(false);
     }
   };
@@ -217,14 +329,31 @@ export default function ViewWorkflowPage() {
     setIsChatMinimized(!isChatMinimized);
   };
 
-  const handleSaveWorkflow = () => {
-    console.log("Publishing workflow...");
-    // Placeholder for save functionality
+  const handleSaveWorkflow = async (status: SavedWorkflowStatus) => {
+    if (!workflowId || savingStatus) return;
+
+    setSavingStatus(status);
+    setSaveError(null);
+    try {
+      const workflow = await api.saveWorkflow(workflowId, generationStateToSaveRequest(generationState, status));
+      setSavedWorkflow(workflow);
+    } catch (err) {
+      console.error('Failed to save workflow:', err);
+      setSaveError(err instanceof Error ? err.message : "Failed to save workflow.");
+    } finally {
+      setSavingStatus(null);
+    }
+  };
+
+  // The imported file replaces the workflow wholesale, so earlier edits can't be undone onto it
+  const handleImportWorkflow = (document: WorkflowDocument) => {
+    resetRun();
+    importWorkflow(document);
+    clearHistory();
   };
 
   const handleRunWorkflow = () => {
-    console.log("Running workflow...");
-    // Placeholder for run functionality
+    startRun();
   };
 
   if (loading) {
@@ -249,7 +378,12 @@ export default function ViewWorkflowPage() {
     );
   }
 
-  const formattedCreationDate = new Date().toLocaleDateString();
+  const formattedCreationDate = (savedWorkflow ? new Date(savedWorkflow.createdAt) : new Date()).toLocaleDateString();
+  const canSave = !isGenerating && generationState.nodes.length > 0;
+  const canRun = !isGenerating && !isRunning && generationState.nodes.length > 0;
+  const canEditWorkflow = isEditMode && generationState.isComplete && !generationState.hasError && !isRefining;
+  // Closes by itself when the node goes away (deleted, undone, another workflow imported)
+  const inspectedNode = generationState.nodes.find((node) => node.nodeId === inspectedNodeId);
 
   return (
     <div className="flex flex-col h-[calc(100vh-56px)] bg-background">
@@ -266,7 +400,7 @@ export default function ViewWorkflowPage() {
               {isEditingTitle ? (
                 <Input
                   ref={titleInputRef}
-                  value={currentWorkflowName}
+                  value={titleDraft}
                   onChange={handleTitleChange}
                   onBlur={handleTitleBlur}
                   onKeyDown={handleTitleKeyDown}
@@ -286,18 +420,90 @@ export default function ViewWorkflowPage() {
 
             <div className="flex items-center text-sm text-muted-foreground gap-2">
               <span>Created on {formattedCreationDate}</span>
+              <GenerationStatusTimeline
+                transitions={generationState.statusHistory}
+                finalStatus={generationState.finalStatus}
+              />
             </div>
           </div>
         </div>
 
         <div className="flex items-center gap-2">
+          {isGenerating && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={cancel}
+              disabled={isCancelling}
+              className="flex items-center text-destructive"
+              title="Stop the generation and keep what was generated so far"
+            >
+              {isCancelling ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <SquareIcon className="h-4 w-4 mr-1.5 fill-current" />}
+              Stop
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={undo}
+            disabled={!canUndo}
+            title="Undo (Ctrl/Cmd+Z)"
+          >
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={redo}
+            disabled={!canRedo}
+            title="Redo (Shift+Ctrl/Cmd+Z)"
+          >
+            <Redo2 className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant={isEditMode ? "secondary" : "outline"}
+            onClick={() => setIsEditMode(!isEditMode)}
+            disabled={!generationState.isComplete || generationState.hasError}
+            className="flex items-center"
+            title={generationState.isComplete ? undefined : "Editing unlocks once generation completes"}
+          >
+            {isEditMode ? <EyeIcon className="h-4 w-4 mr-1.5" /> : <PencilIcon className="h-4 w-4 mr-1.5" />}
+            {isEditMode ? "Done editing" : "Edit"}
+          </Button>
+          <WorkflowFileMenu
+            generationState={generationState}
+            onImport={handleImportWorkflow}
+            canExport={canSave}
+            canImport={!isGenerating && !isRunning}
+          />
+          {saveError ? (
+            <span className="text-xs text-destructive">{saveError}</span>
+          ) : savedWorkflow && (
+            <span className="text-xs text-muted-foreground">
+              {savedWorkflow.status === 'published' ? 'Published' : 'Saved'} {new Date(savedWorkflow.updatedAt).toLocaleTimeString()}
+            </span>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => handleSaveWorkflow('draft')}
+            disabled={!canSave || !!savingStatus}
+            className="flex items-center"
+          >
+            {savingStatus === 'draft' ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <SaveIcon className="h-4 w-4 mr-1.5" />}
+            Save
+          </Button>
           <Button
             size="sm"
             variant="default"
-            onClick={handleSaveWorkflow}
+            onClick={() => handleSaveWorkflow('published')}
+            disabled={!canSave || !!savingStatus}
             className="flex items-center"
           >
-            <CircleCheckBig className="h-4 w-4 mr-1.5" />
+            {savingStatus === 'published' ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <CircleCheckBig className="h-4 w-4 mr-1.5" />}
             Publish
           </Button>
         </div>
@@ -340,9 +546,14 @@ export default function ViewWorkflowPage() {
                     variant="default"
                     className="h-7"
                     onClick={handleRunWorkflow}
+                    disabled={!canRun}
                   >
-                    <PlayIcon className="h-3.5 w-3.5 mr-1" />
-                    Run Workflow
+                    {isRunning ? (
+                      <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                    ) : (
+                      <PlayIcon className="h-3.5 w-3.5 mr-1" />
+                    )}
+                    {isRunning ? 'Running...' : 'Run Workflow'}
                   </Button>
                   <Button
                     variant="ghost"
@@ -358,20 +569,61 @@ export default function ViewWorkflowPage() {
               
               {/* Chat History */}
               <div className="flex-1 overflow-y-auto p-4 space-y-4">
-                {chatHistory.map((msg, idx) => (
-                  <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                    <div className={`max-w-[85%] p-3 rounded-lg ${
-                      msg.role === 'user' ? 'bg-primary text-primary-foreground' : 'bg-muted'
+                {chatHistory.map((msg, idx) => {
+                  const stepEntry = msg.stepEntryId ? stepEntries.get(msg.stepEntryId) : undefined;
+                  if (stepEntry) {
+                    return (
+                      <StepTimelineEntry
+                        key={stepEntry.id}
+                        entry={stepEntry}
+                        focusableNodeIds={stepEntry.nodeIds.filter((nodeId) => nodeNames[nodeId])}
+                        onFocusNodes={(nodeIds) => setCanvasFocus({ nodeIds })}
+                      />
+                    );
+                  }
+                  return (
+                    <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                      <div className={`max-w-[85%] p-3 rounded-lg ${
+                        msg.role === 'user' ? 'bg-primary text-primary-foreground' : 'bg-muted'
+                      }`}>
+                        <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+                      </div>
+                    </div>
+                  );
+                })}
+                {generationState.hasError && generationState.error && (
+                  <GenerationErrorCard
+                    error={generationState.error}
+                    nodeName={generationState.error.nodeId ? nodeNames[generationState.error.nodeId] : undefined}
+                    canRetry={!!generationId && !!generationState.error.step}
+                    canKeepPartial={generationState.nodes.length > 0}
+                    isRetrying={isRetrying}
+                    onRetry={handleRetry}
+                    onKeepPartial={handleKeepPartial}
+                    onShowNode={(nodeId) => setCanvasFocus({ nodeIds: [nodeId] })}
+                  />
+                )}
+                {isGenerating && (
+                  <div className="flex justify-start">
+                    <div className={`max-w-[85%] p-3 rounded-lg flex items-center ${
+                      isReconnecting || isServerSilent ? 'bg-amber-50 text-amber-800' : 'bg-muted'
                     }`}>
-                      <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+                      <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                      <p className="text-sm">
+                        {isReconnecting
+                          ? `Connection lost, reconnecting (attempt ${reconnectAttempt})...`
+                          : isServerSilent
+                            ? 'No updates from the server for a while, still waiting...'
+                            : 'Generating workflow...'}
+                      </p>
                     </div>
                   </div>
-                ))}
-                {isGenerating && (
+                )}
+                {isRefining && (
                   <div className="flex justify-start">
-                    <div className="max-w-[85%] p-3 rounded-lg bg-muted flex items-center">
+                    <div className="max-w-[85%] p-3 rounded-lg flex items-center bg-muted">
                       <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                      <p className="text-sm">Generating workflow...</p>
+                      <p className="text-sm">Updating workflow...</p>
                     </div>
                   </div>
                 )}
@@ -385,7 +637,7 @@ export default function ViewWorkflowPage() {
                     value={currentMessage}
                     onChange={handleMessageChange}
                     onKeyDown={handleMessageKeyDown}
-                    placeholder="Edit your workflow..."
+                    placeholder={canRefine || isRefining ? "Edit your workflow..." : "Available once the workflow is generated"}
                     className="min-h-20 text-sm resize-none"
                   />
                   <div className="flex justify-between items-center">
@@ -393,7 +645,7 @@ export default function ViewWorkflowPage() {
                       type="button" 
                       size="sm"
                       onClick={handleSendMessage}
-                      disabled={!currentMessage.trim()}
+                      disabled={!currentMessage.trim() || !canRefine}
                     >
                       <SendIcon className="h-4 w-4 mr-1.5" />
                       Send
@@ -413,13 +665,31 @@ export default function ViewWorkflowPage() {
           />
         )}
 
-        {/* Right: Generation Canvas */}
-        <div className="flex-1 h-full overflow-hidden bg-gray-50">
-          <GenerationCanvas 
-            generationState={generationState}
-            isConnected={isConnected}
-            className="h-full"
-          />
+        {/* Right: Generation Canvas (+ node inspector) */}
+        <div className="flex-1 h-full overflow-hidden bg-gray-50 flex">
+          <div className="flex min-w-0 flex-1 flex-col">
+            <GenerationCanvas 
+              generationState={generationState}
+              isConnected={isConnected}
+              className="flex-1 min-h-0"
+              editable={isEditMode}
+              onEdit={executeEdit}
+              runState={runState}
+              onNodeClick={setInspectedNodeId}
+              focusRequest={canvasFocus}
+            />
+            {runState.status !== 'idle' && (
+              <RunLogPanel runState={runState} nodeNames={nodeNames} onClose={resetRun} />
+            )}
+          </div>
+          {inspectedNode && (
+            <NodeInspector
+              node={inspectedNode}
+              editable={canEditWorkflow}
+              onEdit={executeEdit}
+              onClose={() => setInspectedNodeId(null)}
+            />
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,372 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  AlertTriangle,
+  ArrowDownIcon,
+  ArrowUpIcon,
+  ChevronDown,
+  CopyIcon,
+  ExternalLinkIcon,
+  Loader2,
+  MoreHorizontal,
+  PencilIcon,
+  PlusIcon,
+  SearchIcon,
+  Trash2Icon,
+} from 'lucide-react';
+import { api } from '@/lib/api';
+import type { WorkflowListStatus, WorkflowSummary } from '@/types/workflow';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+// Wait for typing to settle before asking the server again
+const SEARCH_DEBOUNCE_MS = 250;
+
+// Radix radio groups need a string value, so "all statuses" is ""
+const ALL_STATUSES = '';
+
+const STATUS_STYLES: Record<WorkflowListStatus, { label: string; className: string }> = {
+  draft: { label: 'Draft', className: 'bg-gray-100 text-gray-700' },
+  generating: { label: 'Generating', className: 'bg-blue-50 text-blue-700' },
+  failed: { label: 'Failed', className: 'bg-red-50 text-red-700' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-500' },
+  published: { label: 'Published', className: 'bg-green-50 text-green-700' },
+};
+
+type PendingAction =
+  | { type: 'rename'; workflow: WorkflowSummary }
+  | { type: 'delete'; workflow: WorkflowSummary };
+
+// Unsaved generations are reopened through their stream
+function workflowUrl(workflow: WorkflowSummary): string {
+  if (!workflow.saved && workflow.generationId) {
+    return `/workflows/${workflow.id}?generation-id=${workflow.generationId}`;
+  }
+  return `/workflows/${workflow.id}`;
+}
+
+export default function WorkflowsPage() {
+  const router = useRouter();
+
+  const [workflows, setWorkflows] = useState<WorkflowSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [status, setStatus] = useState<WorkflowListStatus | undefined>(undefined);
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc');
+
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [renameDraft, setRenameDraft] = useState('');
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [isActing, setIsActing] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  // Incremented per list request; a response that isn't from the latest one is dropped, so a
+  // slow answer for old filters can't overwrite the list for the current ones
+  const latestRequestRef = useRef(0);
+
+  const fetchWorkflows = useCallback(async () => {
+    const requestId = ++latestRequestRef.current;
+    try {
+      setError(null);
+      const result = await api.listWorkflows({ search: debouncedSearch, status, order });
+      if (requestId !== latestRequestRef.current) return;
+      setWorkflows(result);
+    } catch (err) {
+      if (requestId !== latestRequestRef.current) return;
+      console.error('Failed to list workflows:', err);
+      setError(err instanceof Error ? err.message : 'Failed to list workflows.');
+    } finally {
+      if (requestId === latestRequestRef.current) setLoading(false);
+    }
+  }, [debouncedSearch, status, order]);
+
+  useEffect(() => {
+    fetchWorkflows();
+  }, [fetchWorkflows]);
+
+  const openAction = (action: PendingAction) => {
+    setActionError(null);
+    setRenameDraft(action.workflow.name);
+    setPendingAction(action);
+  };
+
+  const closeAction = () => {
+    if (isActing) return;
+    setPendingAction(null);
+  };
+
+  // Runs a row action, then refreshes the list so sorting and filters stay right
+  const runAction = async (action: () => Promise<unknown>) => {
+    setIsActing(true);
+    setActionError(null);
+    try {
+      await action();
+      setPendingAction(null);
+      await fetchWorkflows();
+    } catch (err) {
+      console.error('Workflow action failed:', err);
+      setActionError(err instanceof Error ? err.message : 'Something went wrong.');
+    } finally {
+      setIsActing(false);
+    }
+  };
+
+  // No dialog for duplicate, so failures go to the page-level error
+  const handleDuplicate = async (workflow: WorkflowSummary) => {
+    try {
+      await api.duplicateWorkflow(workflow.id);
+      await fetchWorkflows();
+    } catch (err) {
+      console.error('Failed to duplicate workflow:', err);
+      setError(err instanceof Error ? err.message : 'Failed to duplicate workflow.');
+    }
+  };
+
+  const handleConfirmAction = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!pendingAction) return;
+
+    if (pendingAction.type === 'rename') {
+      const name = renameDraft.trim();
+      if (!name) return;
+      runAction(() => api.renameWorkflow(pendingAction.workflow.id, name));
+    } else {
+      runAction(() => api.deleteWorkflow(pendingAction.workflow.id));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="mx-auto max-w-5xl px-6 py-8">
+        {/* Header */}
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold">Workflows</h1>
+            <p className="text-sm text-muted-foreground">Generated and saved workflows</p>
+          </div>
+          <Button size="sm" onClick={() => router.push('/generate-workflow')}>
+            <PlusIcon className="h-4 w-4 mr-1" />
+            New workflow
+          </Button>
+        </div>
+
+        {/* Toolbar */}
+        <div className="mb-4 flex items-center gap-2">
+          <div className="relative flex-1">
+            <SearchIcon className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by name..."
+              className="pl-8"
+            />
+          </div>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="h-9">
+                Status: {status ? STATUS_STYLES[status].label : 'All'}
+                <ChevronDown className="h-3.5 w-3.5 ml-1" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-40">
+              <DropdownMenuRadioGroup
+                value={status ?? ALL_STATUSES}
+                onValueChange={(next) => setStatus(next === ALL_STATUSES ? undefined : (next as WorkflowListStatus))}
+              >
+                <DropdownMenuRadioItem value={ALL_STATUSES}>All</DropdownMenuRadioItem>
+                {(Object.keys(STATUS_STYLES) as WorkflowListStatus[]).map((value) => (
+                  <DropdownMenuRadioItem key={value} value={value}>
+                    {STATUS_STYLES[value].label}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+
+        {error && (
+          <div className="mb-4 flex items-center gap-2 rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+            <AlertTriangle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        {/* List */}
+        <div className="rounded-md border bg-white">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead className="w-32">Status</TableHead>
+                <TableHead className="w-24 text-right">Nodes</TableHead>
+                <TableHead className="w-48">
+                  <button
+                    type="button"
+                    className="flex items-center gap-1 hover:text-foreground"
+                    onClick={() => setOrder((prev) => (prev === 'desc' ? 'asc' : 'desc'))}
+                    title={order === 'desc' ? 'Newest first' : 'Oldest first'}
+                  >
+                    Updated
+                    {order === 'desc' ? <ArrowDownIcon className="h-3.5 w-3.5" /> : <ArrowUpIcon className="h-3.5 w-3.5" />}
+                  </button>
+                </TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="py-10 text-center text-muted-foreground">
+                    <Loader2 className="mx-auto h-5 w-5 animate-spin" />
+                  </TableCell>
+                </TableRow>
+              ) : workflows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="py-10 text-center text-sm text-muted-foreground">
+                    {debouncedSearch || status ? 'No workflows match these filters.' : 'No workflows yet.'}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                workflows.map((workflow) => (
+                  <TableRow
+                    key={workflow.id}
+                    className="cursor-pointer"
+                    onClick={() => router.push(workflowUrl(workflow))}
+                  >
+                    <TableCell className="font-medium">{workflow.name}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={`border-transparent ${STATUS_STYLES[workflow.status].className}`}>
+                        {workflow.status === 'generating' && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                        {STATUS_STYLES[workflow.status].label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{workflow.nodeCount ?? '—'}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {new Date(workflow.updatedAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" title="Actions">
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onSelect={() => router.push(workflowUrl(workflow))}>
+                            <ExternalLinkIcon className="h-4 w-4 mr-2" />
+                            Open
+                          </DropdownMenuItem>
+                          {/* Only saved workflows have a stored copy to rename or duplicate */}
+                          <DropdownMenuItem disabled={!workflow.saved} onSelect={() => handleDuplicate(workflow)}>
+                            <CopyIcon className="h-4 w-4 mr-2" />
+                            Duplicate
+                          </DropdownMenuItem>
+                          <DropdownMenuItem disabled={!workflow.saved} onSelect={() => openAction({ type: 'rename', workflow })}>
+                            <PencilIcon className="h-4 w-4 mr-2" />
+                            Rename
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem
+                            className="text-destructive focus:text-destructive"
+                            onSelect={() => openAction({ type: 'delete', workflow })}
+                          >
+                            <Trash2Icon className="h-4 w-4 mr-2" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      {/* Rename / delete confirmation */}
+      <Dialog open={!!pendingAction} onOpenChange={(open) => !open && closeAction()}>
+        <DialogContent>
+          {pendingAction?.type === 'rename' && (
+            <form onSubmit={handleConfirmAction} className="grid gap-4">
+              <DialogHeader>
+                <DialogTitle>Rename workflow</DialogTitle>
+              </DialogHeader>
+              <Input
+                value={renameDraft}
+                onChange={(e) => setRenameDraft(e.target.value)}
+                autoFocus
+                disabled={isActing}
+              />
+              {actionError && <p className="text-sm text-destructive">{actionError}</p>}
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={closeAction} disabled={isActing}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isActing || !renameDraft.trim()}>
+                  {isActing && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                  Rename
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+          {pendingAction?.type === 'delete' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Delete workflow?</DialogTitle>
+                <DialogDescription>
+                  &ldquo;{pendingAction.workflow.name}&rdquo; will be removed permanently.
+                </DialogDescription>
+              </DialogHeader>
+              {actionError && <p className="text-sm text-destructive">{actionError}</p>}
+              <DialogFooter>
+                <Button variant="outline" onClick={closeAction} disabled={isActing}>
+                  Cancel
+                </Button>
+                <Button variant="destructive" onClick={() => handleConfirmAction()} disabled={isActing}>
+                  {isActing && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                  Delete
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
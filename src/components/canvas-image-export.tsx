@@ -0,0 +1,109 @@
+"use client"
+
+import React, { useState } from "react"
+import { useReactFlow, useStore } from "reactflow"
+import { ImageDown, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { downloadFile } from "@/lib/utils"
+import {
+  canvasImageFileName,
+  renderCanvasImage,
+  type CanvasImageFormat,
+  type CanvasImageScope,
+} from "@/lib/canvas-image"
+
+interface CanvasImageExportProps {
+  workflowName?: string
+}
+
+// PNG/SVG download of the canvas; must be rendered inside the ReactFlow tree
+export function CanvasImageExport({ workflowName }: CanvasImageExportProps) {
+  const reactFlow = useReactFlow()
+  const domNode = useStore((s) => s.domNode)
+  const [scope, setScope] = useState<CanvasImageScope>("full")
+  const [transparent, setTransparent] = useState(false)
+  const [exporting, setExporting] = useState<CanvasImageFormat | null>(null)
+  const [exportError, setExportError] = useState<string | null>(null)
+
+  const handleExport = async (format: CanvasImageFormat) => {
+    const viewportElement = domNode?.querySelector<HTMLElement>(".react-flow__viewport")
+    if (!domNode || !viewportElement) return
+
+    setExporting(format)
+    setExportError(null)
+    try {
+      const options = { format, scope, transparent }
+      const dataUrl = await renderCanvasImage(
+        {
+          viewportElement,
+          nodes: reactFlow.getNodes(),
+          viewport: reactFlow.getViewport(),
+          containerWidth: domNode.clientWidth,
+          containerHeight: domNode.clientHeight,
+        },
+        options
+      )
+      const blob = await (await fetch(dataUrl)).blob()
+      downloadFile(blob, canvasImageFileName(workflowName, options))
+    } catch (err) {
+      setExportError(err instanceof Error ? `Image export failed: ${err.message}` : "Image export failed")
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  // The error sits by the trigger, not in the menu: the menu has closed by the time an export fails
+  return (
+    <div className="flex items-center gap-2">
+      {exportError && (
+        <span className="rounded bg-white px-2 py-1 text-xs text-destructive shadow-sm">{exportError}</span>
+      )}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8 bg-white"
+            title="Export image"
+            disabled={!!exporting}
+          >
+            {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImageDown className="h-4 w-4" />}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-52">
+          <DropdownMenuLabel className="text-xs">Area</DropdownMenuLabel>
+          <DropdownMenuRadioGroup value={scope} onValueChange={(value) => setScope(value as CanvasImageScope)}>
+            <DropdownMenuRadioItem value="full" onSelect={(e) => e.preventDefault()}>
+              Full workflow
+            </DropdownMenuRadioItem>
+            <DropdownMenuRadioItem value="viewport" onSelect={(e) => e.preventDefault()}>
+              Current view
+            </DropdownMenuRadioItem>
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuCheckboxItem
+            checked={transparent}
+            onCheckedChange={(checked) => setTransparent(checked === true)}
+            onSelect={(e) => e.preventDefault()}
+          >
+            Transparent background
+          </DropdownMenuCheckboxItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => handleExport("png")}>Download PNG</DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => handleExport("svg")}>Download SVG</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  )
+}
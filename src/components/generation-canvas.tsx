@@ -1,6 +1,6 @@
 "use client"
 
-import React, { useCallback, useEffect, useMemo, useState } from "react"
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import ReactFlow, {
   Background,
   Controls,
@@ -12,17 +12,30 @@ import ReactFlow, {
   useEdgesState,
   Panel,
   ReactFlowProvider,
-  addEdge,
-  Connection
+  Connection,
+  useStore,
+  ReactFlowState
 } from "reactflow"
 import "reactflow/dist/style.css"
 import { WorkflowGenerationNode } from "./workflow-generation-node"
+import { GenerationDiagnostics } from "./generation-diagnostics"
+import { CanvasImageExport } from "./canvas-image-export"
+import { LayoutSettingsMenu } from "./layout-settings-menu"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { ZoomIn, ZoomOut, Maximize, Loader2, CheckCircle } from "lucide-react"
 import { motion, AnimatePresence } from "framer-motion"
-import type { GenerationState, InternalWorkflowNode, InternalConnection } from "@/types/generation"
-import dagre from "dagre"
+import type { GenerationState, InternalWorkflowNode, InternalConnection, WorkflowEdit } from "@/types/generation"
+import type { NodeRunStatus, WorkflowRunState } from "@/types/run"
+import { combineWorkflowEdits, createConnectionId } from "@/lib/workflow-edits"
+import { anchorLayout, animatePositions, movedNodeIds, type PositionMap } from "@/lib/layout-transition"
+import {
+  DEFAULT_LAYOUT_OPTIONS,
+  FALLBACK_NODE_SIZE,
+  layoutGraph,
+  type LayoutDirection,
+  type LayoutEngineName,
+} from "@/lib/layout-engines"
 
 // Node types for React Flow
 const nodeTypes: NodeTypes = {
@@ -33,38 +46,74 @@ interface GenerationCanvasProps {
   generationState: GenerationState
   isConnected?: boolean
   className?: string
+  // Unlocks dragging, connecting and deleting once generation is complete
+  editable?: boolean
+  onEdit?: (edit: WorkflowEdit) => void
+  // Simulated run to visualise on top of the graph
+  runState?: WorkflowRunState
+  // A real (not mock/planner) node was clicked, e.g. to open the inspector
+  onNodeClick?: (nodeId: string) => void
+  // Zoom to these nodes and highlight them briefly; a new object repeats the focus
+  focusRequest?: CanvasFocusRequest | null
 }
 
-// Auto-layout function using dagre
-function getLayoutedElements(nodes: Node[], edges: Edge[]) {
-  const g = new dagre.graphlib.Graph()
-  g.setDefaultEdgeLabel(() => ({}))
-  g.setGraph({ rankdir: 'LR', nodesep: 100, ranksep: 150 })
+export interface CanvasFocusRequest {
+  nodeIds: string[]
+}
 
-  nodes.forEach((node) => {
-    g.setNode(node.id, { width: 280, height: 120 })
-  })
+interface LayoutSettings {
+  engine: LayoutEngineName
+  direction: LayoutDirection
+}
 
-  edges.forEach((edge) => {
-    g.setEdge(edge.source, edge.target)
-  })
+// Auto-layout with the selected engine, using the sizes React Flow measured for each node
+// and keeping pinned nodes where the user put them
+async function getLayoutedElements(nodes: Node[], edges: Edge[], settings: LayoutSettings, pinned: PositionMap) {
+  const positions = await layoutGraph(
+    settings.engine,
+    nodes.map((node) => ({
+      id: node.id,
+      width: node.width ?? FALLBACK_NODE_SIZE.width,
+      height: node.height ?? FALLBACK_NODE_SIZE.height,
+      fixed: pinned[node.id],
+    })),
+    edges.map((edge) => ({ source: edge.source, target: edge.target })),
+    { ...DEFAULT_LAYOUT_OPTIONS, direction: settings.direction }
+  )
 
-  dagre.layout(g)
-
-  const layoutedNodes = nodes.map((node) => {
-    const nodeWithPosition = g.node(node.id)
-    return {
-      ...node,
-      position: {
-        x: nodeWithPosition.x - 140, // Center the node
-        y: nodeWithPosition.y - 60,
-      },
-    }
-  })
+  const layoutedNodes = nodes.map((node) => (
+    positions[node.id] ? { ...node, position: positions[node.id] } : node
+  ))
 
   return { nodes: layoutedNodes, edges }
 }
 
+// Changes whenever a node or edge is added or removed, or a node is resized (zoom detail level, expanded params)
+function layoutKey(nodes: Node[], edges: Edge[]) {
+  const nodeKey = nodes.map((node) => `${node.id}:${node.width ?? 0}x${node.height ?? 0}`).join("|")
+  const edgeKey = edges.map((edge) => `${edge.source}>${edge.target}`).join("|")
+  return `${nodeKey}#${edgeKey}`
+}
+
+const layoutKeySelector = (s: ReactFlowState) => layoutKey(Array.from(s.nodeInternals.values()), s.edges)
+
+// Moving or unpinning a pinned node re-arranges the nodes around it
+function pinnedKey(pinned: PositionMap) {
+  return Object.entries(pinned).map(([id, position]) => `${id}@${position.x},${position.y}`).join("|")
+}
+
+// Collects a burst of stream events or resizes (e.g. every node switching detail level) into one layout
+const RELAYOUT_DEBOUNCE_MS = 120
+
+const LAYOUT_ANIMATION_MS = 450
+
+// How long focused nodes stay highlighted
+const FOCUS_HIGHLIGHT_MS = 2500
+
+function pickPositions(positions: PositionMap, ids: string[]): PositionMap {
+  return Object.fromEntries(ids.map((id) => [id, positions[id]]))
+}
+
 // Convert internal node to React Flow node
 function convertToFlowNode(node: InternalWorkflowNode, index: number, totalNodes: number): Node {
   // Calculate initial position in a horizontal line (will be auto-layouted later)
@@ -75,7 +124,7 @@ function convertToFlowNode(node: InternalWorkflowNode, index: number, totalNodes
   return {
     id: node.nodeId,
     type: 'workflowGeneration',
-    position: { x: startX + (index * spacing), y },
+    position: node.position ?? { x: startX + (index * spacing), y },
     data: {
       nodeId: node.nodeId,
       name: node.name,
@@ -85,11 +134,11 @@ function convertToFlowNode(node: InternalWorkflowNode, index: number, totalNodes
       params: node.params,
       loop_text: node.loop_text?.replace(/^\{\{\$(.+)\}\}$/, '$1'),
       category: node.category,
-      outputs: node.outputs || [],
+      inputs: node.inputs || {},
+      outputs: node.outputs || {},
       isMock: node.isMock,
       isArchitecturePlanner: node.isArchitecturePlanner
     },
-    draggable: false, // Read-only during generation
   }
 }
 
@@ -108,10 +157,30 @@ function convertToFlowEdge(connection: InternalConnection, index: number): Edge
   }
 }
 
+// Edge colours while a run is in progress or finished
+const RUN_EDGE_STROKES: Partial<Record<NodeRunStatus, string>> = {
+  running: '#3b82f6',
+  succeeded: '#16a34a',
+  failed: '#dc2626',
+}
+
+// Overlay run status on an edge: data has flowed once the source succeeded
+function styleEdgeForRun(edge: Edge, runState: WorkflowRunState): Edge {
+  const sourceStatus = runState.nodes[edge.source]?.status
+  const targetStatus = runState.nodes[edge.target]?.status
+  if (sourceStatus !== 'succeeded' || !targetStatus || targetStatus === 'queued' || targetStatus === 'skipped') {
+    return { ...edge, animated: false, style: { ...edge.style, stroke: '#cbd5e1' } }
+  }
+  return {
+    ...edge,
+    animated: targetStatus === 'running',
+    style: { ...edge.style, stroke: RUN_EDGE_STROKES[targetStatus] ?? RUN_EDGE_STROKES.succeeded },
+  }
+}
+
 // Status indicator component
-const StatusIndicator: React.FC<{ state: GenerationState; isProcessingConnections?: boolean }> = ({ 
-  state, 
-  isProcessingConnections = false 
+const StatusIndicator: React.FC<{ state: GenerationState }> = ({ 
+  state
 }) => {
   const getStatusInfo = () => {
     if (state.hasError) {
@@ -122,20 +191,36 @@ const StatusIndicator: React.FC<{ state: GenerationState; isProcessingConnection
       }
     }
 
-    if (state.isComplete && !isProcessingConnections) {
+    if (state.isCancelled) {
       return {
-        icon: <CheckCircle className="w-4 h-4 text-green-600" />,
-        text: "Workflow generation complete",
-        className: "bg-green-50 border-green-200 text-green-700"
+        icon: <div className="w-3 h-3 bg-gray-400 rounded-full" />,
+        text: "Generation stopped",
+        className: "bg-gray-50 border-gray-200 text-gray-700"
       }
     }
 
-    // Override status for completed generations that are still animating connections
-    if (state.isComplete && isProcessingConnections) {
+    if (state.status === "REFINING") {
       return {
-        icon: <Loader2 className="w-4 h-4 animate-spin text-purple-600" />,
-        text: "Animating connections & progressive layout...",
-        className: "bg-purple-50 border-purple-200 text-purple-700"
+        icon: <Loader2 className="w-4 h-4 animate-spin text-blue-600" />,
+        text: "Applying your changes...",
+        className: "bg-blue-50 border-blue-200 text-blue-700"
+      }
+    }
+
+    // Kept after a failure: complete for editing, but the generation still ended on the error
+    if (state.isComplete && (state.status === "ERROR" || state.status === "FAILED")) {
+      return {
+        icon: <div className="w-3 h-3 bg-amber-500 rounded-full" />,
+        text: "Partial workflow, generation stopped",
+        className: "bg-amber-50 border-amber-200 text-amber-700"
+      }
+    }
+
+    if (state.isComplete) {
+      return {
+        icon: <CheckCircle className="w-4 h-4 text-green-600" />,
+        text: "Workflow generation complete",
+        className: "bg-green-50 border-green-200 text-green-700"
       }
     }
 
@@ -155,7 +240,7 @@ const StatusIndicator: React.FC<{ state: GenerationState; isProcessingConnection
       }
     }
 
-    if (state.currentStep === 'connection_builder' || isProcessingConnections) {
+    if (state.currentStep === 'connection_builder') {
       return {
         icon: <Loader2 className="w-4 h-4 animate-spin text-purple-600" />,
         text: "Building connections & organizing layout...",
@@ -220,14 +305,27 @@ const ShimmerOverlay: React.FC<{ show: boolean }> = ({ show }) => {
 const GenerationCanvasInner: React.FC<GenerationCanvasProps> = ({ 
   generationState,
   isConnected = false,
-  className = "" 
+  className = "",
+  editable = false,
+  onEdit,
+  runState,
+  onNodeClick,
+  focusRequest,
 }) => {
 
   const [nodes, setNodes, onNodesChange] = useNodesState([])
   const [edges, setEdges, onEdgesChange] = useEdgesState([])
   const [reactFlowInstance, setReactFlowInstance] = useState<any>(null)
-  const [isProcessingConnections, setIsProcessingConnections] = useState(false)
-  const [lastNodeCount, setLastNodeCount] = useState(0)
+  const [layoutSettings, setLayoutSettings] = useState<LayoutSettings>({ engine: "dagre", direction: "LR" })
+  // Read by the async layout runs, which outlive the render that started them
+  const layoutSettingsRef = useRef(layoutSettings)
+  // Nodes placed by the workflow model (moved by the user); layouts arrange the rest around them
+  const pinnedPositions = useMemo<PositionMap>(() => Object.fromEntries(
+    generationState.nodes.filter((node) => node.position).map((node) => [node.nodeId, node.position!])
+  ), [generationState.nodes])
+  const pinnedPositionsRef = useRef(pinnedPositions)
+
+  const canEdit = editable && generationState.isComplete && !generationState.hasError
 
   // Convert generation state nodes to flow nodes
   const flowNodes = useMemo(() => {
@@ -235,14 +333,7 @@ const GenerationCanvasInner: React.FC<GenerationCanvasProps> = ({
     const nodesToRender = generationState.nodes.length > 0 
       ? generationState.nodes 
       : generationState.mockNodes;
-      
-    console.log('🔄 Flow nodes recalculated:', {
-      realNodesCount: generationState.nodes.length,
-      mockNodesCount: generationState.mockNodes.length,
-      renderingCount: nodesToRender.length,
-      usingMockNodes: generationState.nodes.length === 0 && generationState.mockNodes.length > 0
-    });
-    
+
     return nodesToRender.map((node, index) => 
       convertToFlowNode(node, index, nodesToRender.length)
     )
@@ -250,115 +341,233 @@ const GenerationCanvasInner: React.FC<GenerationCanvasProps> = ({
 
   // Update nodes when generation state changes (but don't reset connections for parameter updates)
   useEffect(() => {
-    console.log('📝 Updating node display data (parameters, status, etc.) - connections should remain intact')
-    setNodes(flowNodes)
-  }, [flowNodes, setNodes])
+    // Keep laid-out positions unless the workflow model pins the node
+    pinnedPositionsRef.current = pinnedPositions
+    setNodes((currentNodes) => {
+      const currentPositions = new Map(currentNodes.map((node) => [node.id, node.position]))
+      return flowNodes.map((node) => {
+        const currentPosition = currentPositions.get(node.id)
+        return pinnedPositions[node.id] || !currentPosition ? node : { ...node, position: currentPosition }
+      })
+    })
+  }, [flowNodes, pinnedPositions, setNodes])
+
+  // Layout pipeline: every change to the graph's shape cancels the layout in flight and schedules
+  // a new one, which is anchored to the current positions and animates only the nodes that move
+  const layoutAbortRef = useRef<AbortController | null>(null)
+  const laidOutKeyRef = useRef("")
+  // Nodes that have been placed by a layout; newer ones appear at their spot instead of gliding in
+  const laidOutIdsRef = useRef(new Set<string>())
+  // Fit the view after the next layout: while generating, once a generation is complete, and after a settings change
+  const fitPendingRef = useRef(true)
+  const generationCompleteRef = useRef(generationState.isComplete)
 
-  // Only reset connections when NODE COUNT changes, not when individual nodes get updated
   useEffect(() => {
-    // Count total rendered nodes (real or mock)
-    const currentNodeCount = generationState.nodes.length > 0 
-      ? generationState.nodes.length 
-      : generationState.mockNodes.length;
-    
-    // Reset connections only when we have new nodes (not when existing nodes get updated)
-    if (currentNodeCount > lastNodeCount && currentNodeCount > 0) {
-      console.log(`🔄 Node count changed: ${lastNodeCount} → ${currentNodeCount}, resetting connections`)
-      setIsProcessingConnections(false)
-      setEdges([]) // Clear existing edges to allow new connections
-      setLastNodeCount(currentNodeCount)
-    } else if (currentNodeCount < lastNodeCount) {
-      // Handle case where nodes are removed (shouldn't happen in generation, but just in case)
-      console.log(`🔄 Node count decreased: ${lastNodeCount} → ${currentNodeCount}, resetting connections`)
-      setIsProcessingConnections(false)
-      setEdges([])
-      setLastNodeCount(currentNodeCount)
-    } else if (lastNodeCount === 0 && currentNodeCount > 0) {
-      // Initial case when first nodes appear
-      setLastNodeCount(currentNodeCount)
-    }
-  }, [generationState.nodes.length, generationState.mockNodes.length, lastNodeCount, setEdges])
+    generationCompleteRef.current = generationState.isComplete
+  }, [generationState.isComplete])
 
-  // Handle connections - works for both real-time and completed generations
+  // A new generation starts from a blank layout
   useEffect(() => {
-    if (generationState.connections.length > 0 && !isProcessingConnections && edges.length === 0) {
-      console.log('🔗 Starting connection animations:', generationState.connections)
-      console.log('📊 Generation status:', {
-        isComplete: generationState.isComplete,
-        currentStep: generationState.currentStep,
-        hasRealNodes: generationState.nodes.length,
-        hasMockNodes: generationState.mockNodes.length,
-        hasConnections: generationState.connections.length
-      })
-      
-      setIsProcessingConnections(true)
-      
-      // Process connections sequentially with progressive layout
-      const processConnections = async () => {
-        for (let i = 0; i < generationState.connections.length; i++) {
-          const connection = generationState.connections[i]
-          console.log(`➕ Adding connection ${i + 1}/${generationState.connections.length}:`, connection.source, '->', connection.target)
-          
-          const newEdge = convertToFlowEdge(connection, i)
-          setEdges(prevEdges => [...prevEdges, newEdge])
-          
-          // Wait for connection to appear
-          await new Promise(resolve => setTimeout(resolve, 300))
-          
-          // Apply progressive layout after each connection (except the first one)
-          if (i > 0 && reactFlowInstance) {
-            console.log(`🎯 Progressive layout after connection ${i + 1}`)
-            
-            const currentNodes = reactFlowInstance.getNodes()
-            const currentEdges = reactFlowInstance.getEdges()
-            
-            if (currentNodes.length > 0 && currentEdges.length > 0) {
-              const { nodes: layoutedNodes } = getLayoutedElements(currentNodes, currentEdges)
-              
-              // Update nodes with smooth transition (handled by global CSS)
-              setNodes(layoutedNodes)
-              
-              // Wait for layout animation to settle
-              await new Promise(resolve => setTimeout(resolve, 800))
-            }
-          } else if (i === 0) {
-            // For first connection, just a short pause
-            await new Promise(resolve => setTimeout(resolve, 500))
-          }
-        }
-        
-        // Final layout for good measure
-        console.log('✅ All connections added, applying final layout')
-        setIsProcessingConnections(false)
-        
-        if (reactFlowInstance) {
-          const currentNodes = reactFlowInstance.getNodes()
-          const currentEdges = reactFlowInstance.getEdges()
-          
-          if (currentNodes.length > 0 && currentEdges.length > 0) {
-            const { nodes: layoutedNodes } = getLayoutedElements(currentNodes, currentEdges)
-            
-            // Final layout with smooth transition (handled by global CSS)
-            setNodes(layoutedNodes)
-            
-            // Fit view after final layout with longer delay to account for transition
-            setTimeout(() => {
-              reactFlowInstance.fitView({ padding: 0.2, duration: 800 })
-            }, 700)
-          }
+    layoutAbortRef.current?.abort()
+    laidOutIdsRef.current = new Set()
+    laidOutKeyRef.current = ""
+    fitPendingRef.current = true
+  }, [generationState.generationId])
+
+  const runLayout = useCallback(async () => {
+    if (!reactFlowInstance) return
+    layoutAbortRef.current?.abort()
+    const controller = new AbortController()
+    layoutAbortRef.current = controller
+
+    const currentNodes: Node[] = reactFlowInstance.getNodes()
+    const currentEdges: Edge[] = reactFlowInstance.getEdges()
+    // Unmeasured nodes would be laid out at the fallback size; their measurement triggers another run
+    if (currentNodes.length === 0 || currentNodes.some((node) => node.width == null)) return
+    const pinned = pinnedPositionsRef.current
+    const key = `${layoutKey(currentNodes, currentEdges)}#${pinnedKey(pinned)}`
+
+    const { nodes: layoutedNodes } = await getLayoutedElements(currentNodes, currentEdges, layoutSettingsRef.current, pinned)
+    if (controller.signal.aborted) return
+    laidOutKeyRef.current = key
+
+    // Positions now, which may be partway through an aborted animation
+    const currentPositions: PositionMap = Object.fromEntries(
+      reactFlowInstance.getNodes().map((node: Node) => [node.id, node.position])
+    )
+    const movable = layoutedNodes.filter((node) => !pinned[node.id] && currentPositions[node.id])
+    const laidOutIds = laidOutIdsRef.current
+    const previous = pickPositions(currentPositions, movable.map((node) => node.id).filter((id) => laidOutIds.has(id)))
+    const layouted = Object.fromEntries(movable.map((node) => [node.id, node.position]))
+    // Pinned nodes already anchor the layout
+    const target = Object.keys(pinned).length > 0 ? layouted : anchorLayout(previous, layouted)
+
+    const newIds = Object.keys(target).filter((id) => !laidOutIds.has(id))
+    const animatedIds = [...movedNodeIds(previous, target), ...newIds]
+    laidOutIdsRef.current = new Set(
+      currentNodes.map((node) => node.id).filter((id) => laidOutIds.has(id) || target[id] || pinned[id])
+    )
+
+    if (animatedIds.length > 0) {
+      const finished = await animatePositions(
+        { ...pickPositions(target, newIds), ...previous },
+        pickPositions(target, animatedIds),
+        {
+          duration: LAYOUT_ANIMATION_MS,
+          signal: controller.signal,
+          onFrame: (positions) => setNodes((nodes) => nodes.map((node) => (
+            positions[node.id] ? { ...node, position: positions[node.id] } : node
+          ))),
         }
-      }
-      
-      processConnections()
+      )
+      if (!finished) return
     }
-  }, [generationState.connections.length, generationState.isComplete, isProcessingConnections, edges.length, setEdges])
 
-  // Removed: Auto-layout is now handled progressively within connection processing
+    if (fitPendingRef.current || !generationCompleteRef.current) {
+      if (generationCompleteRef.current) fitPendingRef.current = false
+      reactFlowInstance.fitView({ padding: 0.2, duration: 400 })
+    }
+  }, [reactFlowInstance, setNodes])
+
+  const graphLayoutKey = useStore(layoutKeySelector)
+  const currentLayoutKey = `${graphLayoutKey}#${pinnedKey(pinnedPositions)}`
+  useEffect(() => {
+    if (currentLayoutKey === laidOutKeyRef.current) return
+    // New events cancel a layout that is still computing or animating
+    layoutAbortRef.current?.abort()
+    const timer = setTimeout(runLayout, RELAYOUT_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [currentLayoutKey, runLayout])
+
+  // Switching engine or direction re-lays out the graph
+  const handleLayoutSettingsChange = useCallback((settings: LayoutSettings) => {
+    layoutSettingsRef.current = settings
+    fitPendingRef.current = true
+    setLayoutSettings(settings)
+    runLayout()
+  }, [runLayout])
+
+  // Unpin every node (one undoable edit) and let the layout place them all again
+  const canResetLayout = canEdit && !!onEdit && Object.keys(pinnedPositions).length > 0
+  const handleResetLayout = useCallback(() => {
+    if (!canResetLayout || !onEdit) return
+    fitPendingRef.current = true
+    onEdit({
+      type: 'set_node_positions',
+      positions: Object.fromEntries(Object.keys(pinnedPositions).map((id) => [id, null])),
+    })
+  }, [canResetLayout, onEdit, pinnedPositions])
+
+  // Abandon any running animation on unmount
+  useEffect(() => () => layoutAbortRef.current?.abort(), [])
+
+  // Edges mirror the workflow model (stream events and user edits alike)
+  useEffect(() => {
+    setEdges(generationState.connections.map(convertToFlowEdge))
+  }, [generationState.connections, setEdges])
 
-  // Handle connections (shouldn't happen during generation, but just in case)
+  // Edit handlers: React Flow updates its local copy, the edit goes to the workflow model
   const onConnect = useCallback((params: Connection) => {
-    setEdges((eds) => addEdge(params, eds))
-  }, [setEdges])
+    if (!canEdit || !onEdit || !params.source || !params.target) return
+    onEdit({
+      type: 'add_connection',
+      connection: {
+        source: params.source,
+        target: params.target,
+        id: createConnectionId(generationState.connections, params.source, params.target),
+      },
+    })
+  }, [canEdit, onEdit, generationState.connections])
+
+  // Where each dragged node was before the drag, so the move can be undone
+  const dragStartPositions = useRef(new Map<string, { x: number; y: number }>())
+
+  // React Flow passes every node of a dragged selection, not just the one under the pointer
+  const onNodeDragStart = useCallback((_event: React.MouseEvent, node: Node, draggedNodes: Node[]) => {
+    (draggedNodes?.length ? draggedNodes : [node]).forEach((dragged) => {
+      dragStartPositions.current.set(dragged.id, { ...dragged.position })
+    })
+  }, [])
+
+  const onNodeDragStop = useCallback((_event: React.MouseEvent, node: Node, draggedNodes: Node[]) => {
+    const moves = (draggedNodes?.length ? draggedNodes : [node]).flatMap((dragged): WorkflowEdit[] => {
+      const previousPosition = dragStartPositions.current.get(dragged.id)
+      dragStartPositions.current.delete(dragged.id)
+      if (previousPosition && previousPosition.x === dragged.position.x && previousPosition.y === dragged.position.y) return []
+      return [{ type: 'move_node', nodeId: dragged.id, position: dragged.position, previousPosition }]
+    })
+    if (!canEdit || !onEdit) return
+    const edit = combineWorkflowEdits(moves)
+    if (edit) onEdit(edit)
+  }, [canEdit, onEdit])
+
+  const handleNodeClick = useCallback((_event: React.MouseEvent, node: Node) => {
+    if (node.data?.isMock || node.data?.isArchitecturePlanner) return
+    onNodeClick?.(node.id)
+  }, [onNodeClick])
+
+  // One delete reaches us as onEdgesDelete (selected edges plus those of deleted nodes) and then
+  // onNodesDelete, in the same tick. Collect both and record them as one edit, pairing edges with
+  // the nodes of that delete: remove_node takes its connections along, and undo restores them
+  const pendingDeletion = useRef<{ nodes: Node[]; edges: Edge[] } | null>(null)
+
+  const recordDeletion = useCallback((deleted: { nodes?: Node[]; edges?: Edge[] }) => {
+    if (!canEdit || !onEdit) return
+    if (!pendingDeletion.current) {
+      const batch = { nodes: [] as Node[], edges: [] as Edge[] }
+      pendingDeletion.current = batch
+      queueMicrotask(() => {
+        pendingDeletion.current = null
+        const deletedNodeIds = new Set(batch.nodes.map((node) => node.id))
+        const edit = combineWorkflowEdits([
+          ...batch.edges
+            .filter((edge) => !deletedNodeIds.has(edge.source) && !deletedNodeIds.has(edge.target))
+            .map((edge): WorkflowEdit => ({ type: 'remove_connection', connectionId: edge.id })),
+          ...batch.nodes.map((node): WorkflowEdit => ({ type: 'remove_node', nodeId: node.id })),
+        ])
+        if (edit) onEdit(edit)
+      })
+    }
+    pendingDeletion.current.nodes.push(...(deleted.nodes ?? []))
+    pendingDeletion.current.edges.push(...(deleted.edges ?? []))
+  }, [canEdit, onEdit])
+
+  const onNodesDelete = useCallback((nodes: Node[]) => recordDeletion({ nodes }), [recordDeletion])
+  const onEdgesDelete = useCallback((edges: Edge[]) => recordDeletion({ edges }), [recordDeletion])
+
+  // Focus from outside the canvas (chat timeline): zoom to the nodes and ring them for a moment
+  const [focusedNodeIds, setFocusedNodeIds] = useState<Set<string>>(() => new Set())
+  useEffect(() => {
+    if (!focusRequest || !reactFlowInstance) return
+    const nodeIds = focusRequest.nodeIds.filter((id) => reactFlowInstance.getNode(id))
+    if (nodeIds.length === 0) return
+
+    setFocusedNodeIds(new Set(nodeIds))
+    reactFlowInstance.fitView({ nodes: nodeIds.map((id) => ({ id })), padding: 0.4, maxZoom: 1.25, duration: 400 })
+    const timer = setTimeout(() => setFocusedNodeIds(new Set()), FOCUS_HIGHLIGHT_MS)
+    return () => clearTimeout(timer)
+  }, [focusRequest, reactFlowInstance])
+
+  // Run overlay: node run status goes into node data, edges light up as data flows
+  const hasRun = !!runState && runState.status !== 'idle'
+  // Handles follow the layout direction; focused nodes and the node a generation failed on get a ring
+  const failedNodeId = generationState.hasError ? generationState.error?.nodeId : undefined
+  const displayNodes = useMemo(() => {
+    return nodes.map((node) => ({
+      ...node,
+      data: {
+        ...node.data,
+        layoutDirection: layoutSettings.direction,
+        runStatus: hasRun && runState ? runState.nodes[node.id]?.status : undefined,
+        isFocused: focusedNodeIds.has(node.id),
+        hasFailed: node.id === failedNodeId,
+      },
+    }))
+  }, [nodes, runState, hasRun, layoutSettings.direction, focusedNodeIds, failedNodeId])
+  const displayEdges = useMemo(() => {
+    if (!hasRun || !runState) return edges
+    return edges.map((edge) => styleEdgeForRun(edge, runState))
+  }, [edges, runState, hasRun])
 
   // Show shimmer when nodes are being added or connections are being built
   const showShimmer = generationState.currentStep === 'node_selector' || 
@@ -367,8 +576,14 @@ const GenerationCanvasInner: React.FC<GenerationCanvasProps> = ({
   return (
     <div className={`relative w-full h-full bg-gray-50 ${className}`}>
       {/* Status indicator */}
-      <div className="absolute top-4 left-4 z-20">
-        <StatusIndicator state={generationState} isProcessingConnections={isProcessingConnections} />
+      <div className="absolute top-4 left-4 z-20 flex flex-col items-start gap-2">
+        <StatusIndicator state={generationState} />
+        <GenerationDiagnostics diagnostics={generationState.diagnostics} />
+        {canEdit && (
+          <Badge variant="outline" className="bg-white text-xs font-normal text-muted-foreground">
+            Editing: drag nodes, connect handles, select and press Delete to remove
+          </Badge>
+        )}
       </div>
 
       {/* Shimmer overlay */}
@@ -376,11 +591,16 @@ const GenerationCanvasInner: React.FC<GenerationCanvasProps> = ({
 
       {/* React Flow */}
       <ReactFlow
-        nodes={nodes}
-        edges={edges}
+        nodes={displayNodes}
+        edges={displayEdges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
         onConnect={onConnect}
+        onNodeDragStart={onNodeDragStart}
+        onNodeClick={handleNodeClick}
+        onNodeDragStop={onNodeDragStop}
+        onNodesDelete={onNodesDelete}
+        onEdgesDelete={onEdgesDelete}
         onInit={setReactFlowInstance}
         nodeTypes={nodeTypes}
         defaultEdgeOptions={{
@@ -393,8 +613,9 @@ const GenerationCanvasInner: React.FC<GenerationCanvasProps> = ({
         defaultViewport={{ x: 0, y: 0, zoom: 0.8 }}
         minZoom={0.2}
         maxZoom={2}
-        nodesDraggable={false} // Read-only during generation
-        nodesConnectable={false}
+        nodesDraggable={canEdit} // Read-only during generation
+        nodesConnectable={canEdit}
+        deleteKeyCode={canEdit ? ["Backspace", "Delete"] : null}
         elementsSelectable={true}
         selectNodesOnDrag={false}
         fitView={false} // Prevent auto-fitting which causes zoom issues
@@ -438,6 +659,14 @@ const GenerationCanvasInner: React.FC<GenerationCanvasProps> = ({
           >
             <Maximize className="h-4 w-4" />
           </Button>
+          <LayoutSettingsMenu
+            engine={layoutSettings.engine}
+            direction={layoutSettings.direction}
+            onChange={handleLayoutSettingsChange}
+            canResetLayout={canResetLayout}
+            onResetLayout={handleResetLayout}
+          />
+          <CanvasImageExport workflowName={generationState.workflowName} />
         </Panel>
       </ReactFlow>
     </div>
@@ -0,0 +1,86 @@
+"use client"
+
+import React, { useState } from "react"
+import { AlertTriangle, ChevronDown, ChevronRight } from "lucide-react"
+import { motion, AnimatePresence } from "framer-motion"
+import type { GenerationDiagnostic } from "@/types/generation"
+
+interface GenerationDiagnosticsProps {
+  diagnostics: GenerationDiagnostic[]
+}
+
+// Single rejected event with its validation issues and raw payload
+const DiagnosticEntry: React.FC<{ diagnostic: GenerationDiagnostic }> = ({ diagnostic }) => {
+  const [showPayload, setShowPayload] = useState(false)
+
+  return (
+    <div className="border-t border-amber-200 pt-2 first:border-t-0 first:pt-0">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-mono text-xs font-medium">{diagnostic.label}</span>
+        <span className="text-[10px] text-amber-600">
+          {diagnostic.receivedAt.toLocaleTimeString()}
+        </span>
+      </div>
+      <ul className="mt-1 space-y-0.5 list-disc pl-4">
+        {diagnostic.issues.map((issue, index) => (
+          <li key={index} className="text-xs">{issue}</li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        className="mt-1 text-[10px] text-amber-700 underline"
+        onClick={() => setShowPayload(!showPayload)}
+      >
+        {showPayload ? "Hide payload" : "Show payload"}
+      </button>
+      {showPayload && (
+        <pre className="mt-1 max-h-40 overflow-auto rounded bg-white/70 p-2 text-[10px] leading-tight">
+          {JSON.stringify(diagnostic.event, null, 2)}
+        </pre>
+      )}
+    </div>
+  )
+}
+
+// Collapsible list of SSE events that failed runtime validation
+export function GenerationDiagnostics({ diagnostics }: GenerationDiagnosticsProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  if (diagnostics.length === 0) return null
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="w-80 rounded-lg border border-amber-200 bg-amber-50 text-amber-800 shadow-sm"
+    >
+      <button
+        type="button"
+        className="flex w-full items-center gap-2 px-3 py-2 text-left"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+        <span className="flex-1 text-sm font-medium">
+          {diagnostics.length} invalid event{diagnostics.length !== 1 ? "s" : ""} ignored
+        </span>
+        {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+      </button>
+
+      <AnimatePresence>
+        {isExpanded && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: "auto" }}
+            exit={{ opacity: 0, height: 0 }}
+            transition={{ duration: 0.2 }}
+            className="max-h-72 space-y-2 overflow-y-auto px-3 pb-3"
+          >
+            {diagnostics.map((diagnostic) => (
+              <DiagnosticEntry key={diagnostic.id} diagnostic={diagnostic} />
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  )
+}
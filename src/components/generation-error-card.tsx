@@ -0,0 +1,108 @@
+"use client"
+
+import React from "react"
+import { AlertTriangle, Crosshair, Loader2, PencilIcon, RotateCcw, RefreshCw } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import type { RetryScope } from "@/lib/api"
+import { STEP_LABELS } from "@/lib/step-timeline"
+import type { GenerationError } from "@/types/generation"
+
+interface GenerationErrorCardProps {
+  error: GenerationError
+  // Name of the failed node, when it is on the canvas
+  nodeName?: string
+  // Only step failures reported by the server can be retried
+  canRetry: boolean
+  // Something was generated before the failure
+  canKeepPartial: boolean
+  isRetrying: boolean
+  onRetry: (scope: RetryScope) => void
+  onKeepPartial: () => void
+  onShowNode: (nodeId: string) => void
+}
+
+function formatDetail(value: unknown): string {
+  return typeof value === "object" && value !== null ? JSON.stringify(value) : String(value)
+}
+
+// What the generation failed on, and the ways out of it
+export function GenerationErrorCard({
+  error,
+  nodeName,
+  canRetry,
+  canKeepPartial,
+  isRetrying,
+  onRetry,
+  onKeepPartial,
+  onShowNode,
+}: GenerationErrorCardProps) {
+  const details = Object.entries(error.details ?? {})
+
+  return (
+    <Alert variant="destructive" className="bg-red-50">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle className="flex flex-wrap items-center gap-2">
+        {error.step ? `${STEP_LABELS[error.step]} failed` : "Generation failed"}
+        {error.code !== undefined && (
+          <Badge variant="outline" className="border-red-300 font-mono text-[10px] text-red-700">
+            {error.code}
+          </Badge>
+        )}
+      </AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>{error.message}</p>
+
+        {error.nodeId && (
+          <div className="flex items-center gap-2 text-xs">
+            <span>Node: {nodeName ?? error.nodeId}</span>
+            {nodeName && (
+              <Button
+                variant="link"
+                size="sm"
+                className="h-auto p-0 text-xs text-red-700"
+                onClick={() => onShowNode(error.nodeId!)}
+              >
+                <Crosshair className="mr-1 h-3 w-3" />
+                Show on canvas
+              </Button>
+            )}
+          </div>
+        )}
+
+        {details.length > 0 && (
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 rounded bg-white/70 p-2 text-xs">
+            {details.map(([key, value]) => (
+              <React.Fragment key={key}>
+                <dt className="font-mono text-red-800">{key}</dt>
+                <dd className="break-all font-mono">{formatDetail(value)}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {canRetry && (
+            <>
+              <Button size="sm" className="h-7" onClick={() => onRetry("step")} disabled={isRetrying}>
+                {isRetrying ? <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" /> : <RotateCcw className="mr-1 h-3.5 w-3.5" />}
+                Retry this step
+              </Button>
+              <Button size="sm" variant="outline" className="h-7" onClick={() => onRetry("generation")} disabled={isRetrying}>
+                <RefreshCw className="mr-1 h-3.5 w-3.5" />
+                Retry generation
+              </Button>
+            </>
+          )}
+          {canKeepPartial && (
+            <Button size="sm" variant="outline" className="h-7" onClick={onKeepPartial} disabled={isRetrying}>
+              <PencilIcon className="mr-1 h-3.5 w-3.5" />
+              Continue editing
+            </Button>
+          )}
+        </div>
+      </AlertDescription>
+    </Alert>
+  )
+}
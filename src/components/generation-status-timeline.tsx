@@ -0,0 +1,46 @@
+"use client"
+
+import React from "react"
+import { ChevronRight } from "lucide-react"
+import type { GenerationStatusTransition } from "@/types/generation"
+
+interface GenerationStatusTimelineProps {
+  transitions: GenerationStatusTransition[]
+  finalStatus?: string
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  PENDING: "bg-gray-100 text-gray-700",
+  RUNNING: "bg-blue-50 text-blue-700",
+  REFINING: "bg-blue-50 text-blue-700",
+  COMPLETED: "bg-green-50 text-green-700",
+  ERROR: "bg-red-50 text-red-700",
+  FAILED: "bg-red-50 text-red-700",
+  CANCELLED: "bg-gray-100 text-gray-700",
+}
+
+// Compact chain of status chips, e.g. PENDING > RUNNING > COMPLETED
+export function GenerationStatusTimeline({ transitions, finalStatus }: GenerationStatusTimelineProps) {
+  if (transitions.length === 0) return null
+
+  return (
+    <div className="flex items-center gap-1 text-[11px]">
+      {transitions.map((transition, index) => {
+        const isFinal = index === transitions.length - 1 && transition.to === finalStatus
+        return (
+          <React.Fragment key={`${transition.to}_${index}`}>
+            {index > 0 && <ChevronRight className="h-3 w-3 text-muted-foreground" />}
+            <span
+              className={`rounded px-1.5 py-0.5 font-medium ${
+                STATUS_STYLES[transition.to] || "bg-gray-100 text-gray-700"
+              } ${isFinal ? "ring-1 ring-current" : ""}`}
+              title={`${transition.from ?? "start"} → ${transition.to} at ${transition.at.toLocaleTimeString()}`}
+            >
+              {transition.to}
+            </span>
+          </React.Fragment>
+        )
+      })}
+    </div>
+  )
+}
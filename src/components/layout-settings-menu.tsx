@@ -0,0 +1,79 @@
+"use client"
+
+import React from "react"
+import { Network, RotateCcw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { LAYOUT_ENGINES, type LayoutDirection, type LayoutEngineName } from "@/lib/layout-engines"
+
+interface LayoutSettingsMenuProps {
+  engine: LayoutEngineName
+  direction: LayoutDirection
+  onChange: (settings: { engine: LayoutEngineName; direction: LayoutDirection }) => void
+  // Unpin the nodes the user moved (only while editing and something is pinned)
+  canResetLayout?: boolean
+  onResetLayout?: () => void
+}
+
+const DIRECTION_LABELS: Record<LayoutDirection, string> = {
+  LR: "Left to right",
+  TB: "Top to bottom",
+}
+
+// Layout algorithm and direction picker for the canvas toolbar
+export function LayoutSettingsMenu({
+  engine,
+  direction,
+  onChange,
+  canResetLayout = false,
+  onResetLayout,
+}: LayoutSettingsMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="icon" className="h-8 w-8 bg-white" title="Layout">
+          <Network className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-48">
+        <DropdownMenuLabel className="text-xs">Layout</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={engine}
+          onValueChange={(value) => onChange({ engine: value as LayoutEngineName, direction })}
+        >
+          {Object.values(LAYOUT_ENGINES).map((layoutEngine) => (
+            <DropdownMenuRadioItem key={layoutEngine.name} value={layoutEngine.name}>
+              {layoutEngine.label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs">Direction</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={direction}
+          onValueChange={(value) => onChange({ engine, direction: value as LayoutDirection })}
+        >
+          {(Object.keys(DIRECTION_LABELS) as LayoutDirection[]).map((value) => (
+            <DropdownMenuRadioItem key={value} value={value}>
+              {DIRECTION_LABELS[value]}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem disabled={!canResetLayout} onSelect={onResetLayout}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Reset layout
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,239 @@
+"use client"
+
+import React, { useEffect, useMemo, useState } from "react"
+import { RepeatIcon, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { formatSchemaType } from "@/lib/node-schema"
+import {
+  paramEditorKind,
+  paramToDraft,
+  parseParamDraft,
+  type ParamDraft,
+  type ParamEditorKind,
+} from "@/lib/param-editing"
+import { getNodeType } from "@/lib/workflow-exporters"
+import type { InternalWorkflowNode, NodeIOSchema, WorkflowEdit } from "@/types/generation"
+
+interface NodeInspectorProps {
+  node: InternalWorkflowNode
+  // Editing needs edit mode on a finished generation; otherwise everything is read-only
+  editable: boolean
+  onEdit: (edit: WorkflowEdit) => void
+  onClose: () => void
+}
+
+interface ParamField {
+  name: string
+  kind: ParamEditorKind
+  schema?: NodeIOSchema
+}
+
+// Params from the input schema first (in schema order), then any extra params the node carries
+function getParamFields(node: InternalWorkflowNode): ParamField[] {
+  const inputs = node.inputs || {}
+  const params = node.params || {}
+  const names = [...Object.keys(inputs), ...Object.keys(params).filter((name) => !(name in inputs))]
+  return names.map((name) => ({ name, kind: paramEditorKind(name, params[name], inputs[name]), schema: inputs[name] }))
+}
+
+const ParamEditor: React.FC<{
+  field: ParamField
+  draft: ParamDraft
+  readOnly: boolean
+  invalid: boolean
+  onChange: (draft: ParamDraft) => void
+}> = ({ field, draft, readOnly, invalid, onChange }) => {
+  const invalidClass = invalid ? "border-destructive focus-visible:ring-destructive" : ""
+
+  switch (field.kind) {
+    case "boolean":
+      return <Switch checked={draft === true} onCheckedChange={onChange} disabled={readOnly} />
+
+    case "enum":
+      return (
+        <Select value={String(draft)} onValueChange={onChange} disabled={readOnly}>
+          <SelectTrigger className={`h-8 text-sm ${invalidClass}`}>
+            <SelectValue placeholder="Choose a value" />
+          </SelectTrigger>
+          <SelectContent>
+            {field.schema?.enum?.map((option) => (
+              <SelectItem key={String(option)} value={String(option)}>
+                {String(option)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )
+
+    case "prompt":
+    case "list":
+    case "json":
+      return (
+        <Textarea
+          value={String(draft)}
+          onChange={(e) => onChange(e.target.value)}
+          readOnly={readOnly}
+          rows={field.kind === "prompt" ? 8 : 4}
+          spellCheck={field.kind === "prompt"}
+          placeholder={field.kind === "list" ? "One item per line" : field.kind === "json" ? "JSON value" : undefined}
+          className={`text-sm ${field.kind === "json" ? "font-mono text-xs" : ""} ${invalidClass}`}
+        />
+      )
+
+    default:
+      return (
+        <Input
+          value={String(draft)}
+          onChange={(e) => onChange(e.target.value)}
+          readOnly={readOnly}
+          inputMode={field.kind === "number" ? "decimal" : undefined}
+          className={`h-8 text-sm ${invalidClass}`}
+        />
+      )
+  }
+}
+
+// Right-hand panel for the node clicked on the canvas: details plus a typed editor per param
+export function NodeInspector({ node, editable, onEdit, onClose }: NodeInspectorProps) {
+  const fields = useMemo(() => getParamFields(node), [node])
+  const [nameDraft, setNameDraft] = useState(node.name)
+  const [drafts, setDrafts] = useState<Record<string, ParamDraft>>({})
+
+  // Start over from the node whenever it changes underneath (another node, undo, regeneration)
+  useEffect(() => {
+    setNameDraft(node.name)
+  }, [node.nodeId, node.name])
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries(fields.map((field) => [field.name, paramToDraft(field.kind, node.params?.[field.name])])))
+  }, [fields, node.params])
+
+  const parsed = useMemo(() => Object.fromEntries(
+    fields.map((field) => [field.name, parseParamDraft(field.kind, drafts[field.name] ?? paramToDraft(field.kind, undefined), field.schema)])
+  ), [fields, drafts])
+
+  const hasErrors = Object.values(parsed).some((result) => result.success === false)
+  const isDirty = fields.some((field) => drafts[field.name] !== paramToDraft(field.kind, node.params?.[field.name]))
+
+  const handleApply = () => {
+    if (!editable || hasErrors || !isDirty) return
+    const params: Record<string, unknown> = { ...(node.params || {}) }
+    fields.forEach((field) => {
+      const result = parsed[field.name]
+      if (result.success === false) return
+      if (result.value === undefined) {
+        delete params[field.name]
+      } else {
+        params[field.name] = result.value
+      }
+    })
+    onEdit({ type: "update_node_params", nodeId: node.nodeId, params })
+  }
+
+  const handleDiscard = () => {
+    setDrafts(Object.fromEntries(fields.map((field) => [field.name, paramToDraft(field.kind, node.params?.[field.name])])))
+  }
+
+  const commitName = () => {
+    const name = nameDraft.trim()
+    if (!editable || !name || name === node.name) {
+      setNameDraft(node.name)
+      return
+    }
+    onEdit({ type: "rename_node", nodeId: node.nodeId, name })
+  }
+
+  return (
+    <aside className="flex h-full w-96 flex-shrink-0 flex-col border-l bg-white">
+      <div className="flex items-start justify-between gap-2 border-b p-3">
+        <div className="min-w-0 flex-1">
+          {editable ? (
+            <Input
+              value={nameDraft}
+              onChange={(e) => setNameDraft(e.target.value)}
+              onBlur={commitName}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") e.currentTarget.blur()
+                if (e.key === "Escape") setNameDraft(node.name)
+              }}
+              className="h-8 font-medium"
+              aria-label="Node name"
+            />
+          ) : (
+            <h2 className="truncate font-medium">{node.name}</h2>
+          )}
+          <div className="mt-1.5 flex flex-wrap items-center gap-1.5">
+            <Badge variant="secondary" className="font-mono text-[10px]">{getNodeType(node)}</Badge>
+            {node.category && <Badge variant="outline" className="text-[10px]">{node.category}</Badge>}
+          </div>
+        </div>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose} title="Close inspector">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 space-y-4 overflow-y-auto p-3">
+        {node.description && <p className="text-sm text-muted-foreground">{node.description}</p>}
+
+        {node.loop_text && (
+          <section className="rounded border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800">
+            <div className="mb-0.5 flex items-center gap-1 font-medium">
+              <RepeatIcon className="h-3 w-3" />
+              Runs in a loop
+            </div>
+            <code className="break-all">{node.loop_text}</code>
+          </section>
+        )}
+
+        <section className="space-y-3">
+          <h3 className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Parameters</h3>
+          {fields.length === 0 && <p className="text-xs text-muted-foreground">This node has no parameters.</p>}
+          {fields.map((field) => {
+            const result = parsed[field.name]
+            return (
+              <div key={field.name} className="space-y-1">
+                <div className="flex items-baseline justify-between gap-2">
+                  <label className="font-mono text-xs font-medium">{field.name}</label>
+                  <span className="text-[10px] text-muted-foreground">{formatSchemaType(field.schema)}</span>
+                </div>
+                {field.schema?.description && (
+                  <p className="text-xs text-muted-foreground">{field.schema.description}</p>
+                )}
+                <ParamEditor
+                  field={field}
+                  draft={drafts[field.name] ?? paramToDraft(field.kind, undefined)}
+                  readOnly={!editable}
+                  invalid={result?.success === false}
+                  onChange={(draft) => setDrafts((prev) => ({ ...prev, [field.name]: draft }))}
+                />
+                {result?.success === false && <p className="text-xs text-destructive">{result.error}</p>}
+              </div>
+            )
+          })}
+        </section>
+      </div>
+
+      {editable && fields.length > 0 && (
+        <div className="flex justify-end gap-2 border-t p-3">
+          <Button size="sm" variant="ghost" onClick={handleDiscard} disabled={!isDirty}>
+            Discard
+          </Button>
+          <Button size="sm" onClick={handleApply} disabled={!isDirty || hasErrors}>
+            Apply changes
+          </Button>
+        </div>
+      )}
+    </aside>
+  )
+}
@@ -0,0 +1,118 @@
+"use client"
+
+import React, { useState } from "react"
+import { CheckCircle, Loader2, X, XCircle, MinusCircle, Clock } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { RunLogEntry, WorkflowRunState } from "@/types/run"
+
+interface RunLogPanelProps {
+  runState: WorkflowRunState
+  nodeNames: Record<string, string>
+  onClose: () => void
+}
+
+// Icon per log line status
+const StatusIcon: React.FC<{ status: RunLogEntry["status"] }> = ({ status }) => {
+  switch (status) {
+    case "running":
+    case "starting":
+      return <Loader2 className="h-3.5 w-3.5 animate-spin text-blue-600" />
+    case "succeeded":
+      return <CheckCircle className="h-3.5 w-3.5 text-green-600" />
+    case "failed":
+      return <XCircle className="h-3.5 w-3.5 text-red-600" />
+    case "skipped":
+      return <MinusCircle className="h-3.5 w-3.5 text-gray-400" />
+    default:
+      return <Clock className="h-3.5 w-3.5 text-gray-400" />
+  }
+}
+
+// Pretty-printed payload, or a placeholder until the node produced one
+const Payload: React.FC<{ title: string; value?: Record<string, unknown> }> = ({ title, value }) => (
+  <div className="flex min-w-0 flex-1 flex-col">
+    <h4 className="mb-1 text-xs font-medium text-muted-foreground">{title}</h4>
+    {value ? (
+      <pre className="flex-1 overflow-auto rounded bg-gray-50 p-2 text-[11px] leading-tight">
+        {JSON.stringify(value, null, 2)}
+      </pre>
+    ) : (
+      <p className="text-xs text-muted-foreground">Not available yet</p>
+    )}
+  </div>
+)
+
+// Bottom panel listing run events, with the selected node's input/output
+export function RunLogPanel({ runState, nodeNames, onClose }: RunLogPanelProps) {
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null)
+  const selectedRun = selectedNodeId ? runState.nodes[selectedNodeId] : undefined
+
+  const title = {
+    idle: "Run",
+    starting: "Starting run...",
+    running: "Running workflow...",
+    succeeded: `Run succeeded${runState.durationMs !== undefined ? ` in ${runState.durationMs}ms` : ""}`,
+    failed: "Run failed",
+  }[runState.status]
+
+  return (
+    <div className="flex h-64 flex-col border-t bg-white shadow-[0_-4px_12px_rgba(0,0,0,0.04)]">
+      <div className="flex items-center justify-between border-b px-3 py-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <StatusIcon status={runState.status} />
+          {title}
+        </div>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose} title="Close run log">
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      <div className="flex min-h-0 flex-1">
+        {/* Log lines */}
+        <div className="w-1/2 overflow-y-auto border-r p-2">
+          {runState.error && (
+            <p className="mb-2 rounded bg-red-50 p-2 text-xs text-red-700">{runState.error}</p>
+          )}
+          {runState.log.map((entry) => (
+            <button
+              key={entry.id}
+              type="button"
+              disabled={!entry.nodeId}
+              onClick={() => entry.nodeId && setSelectedNodeId(entry.nodeId)}
+              className={`flex w-full items-center gap-2 rounded px-2 py-1 text-left text-xs ${
+                entry.nodeId ? "hover:bg-gray-50" : "cursor-default"
+              } ${entry.nodeId && entry.nodeId === selectedNodeId ? "bg-gray-100" : ""}`}
+            >
+              <StatusIcon status={entry.status} />
+              <span className="flex-1 truncate">{entry.message}</span>
+              <span className="text-[10px] text-muted-foreground">{entry.at.toLocaleTimeString()}</span>
+            </button>
+          ))}
+        </div>
+
+        {/* Selected node payloads */}
+        <div className="flex w-1/2 flex-col p-3">
+          {selectedNodeId ? (
+            <>
+              <div className="mb-2 flex items-center gap-2 text-xs">
+                <span className="font-medium">{nodeNames[selectedNodeId] || selectedNodeId}</span>
+                {selectedRun?.durationMs !== undefined && (
+                  <span className="text-muted-foreground">{selectedRun.durationMs}ms</span>
+                )}
+              </div>
+              {selectedRun?.error && (
+                <p className="mb-2 rounded bg-red-50 p-2 text-xs text-red-700">{selectedRun.error}</p>
+              )}
+              <div className="flex min-h-0 flex-1 gap-3">
+                <Payload title="Input" value={selectedRun?.input} />
+                <Payload title="Output" value={selectedRun?.output} />
+              </div>
+            </>
+          ) : (
+            <p className="text-xs text-muted-foreground">Select a node event to inspect its input and output.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
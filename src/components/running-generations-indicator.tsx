@@ -0,0 +1,69 @@
+"use client"
+
+import React from "react"
+import Link from "next/link"
+import { useSearchParams } from "next/navigation"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useRunningGenerations } from "@/hooks/use-running-generations"
+import { STEP_LABELS } from "@/lib/step-timeline"
+import type { GenerationState } from "@/types/generation"
+
+function describeStep(state: GenerationState): string {
+  const step = state.currentStep
+  return step && step in STEP_LABELS ? STEP_LABELS[step as keyof typeof STEP_LABELS] : "Starting"
+}
+
+// Floating pill listing generations still running in any tab, each linking back to its workflow
+export function RunningGenerationsIndicator() {
+  const running = useRunningGenerations()
+  const searchParams = useSearchParams()
+  const viewedGenerationId = searchParams?.get("generation-id")
+
+  if (running.length === 0) return null
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="outline" className="rounded-full bg-white shadow-md">
+            <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin text-blue-600" />
+            {running.length} generation{running.length === 1 ? "" : "s"} running
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" side="top" className="w-64">
+          <DropdownMenuLabel className="text-xs">Running generations</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {running.map(({ generationId, workflowId, state }) => {
+            const label = (
+              <div className="flex min-w-0 flex-col">
+                <span className="truncate text-sm">
+                  {state.workflowName || "Untitled workflow"}
+                  {generationId === viewedGenerationId && <span className="text-muted-foreground"> (open)</span>}
+                </span>
+                <span className="text-xs text-muted-foreground">{describeStep(state)}</span>
+              </div>
+            )
+            return workflowId ? (
+              <DropdownMenuItem key={generationId} asChild>
+                <Link href={`/workflows/${workflowId}?generation-id=${generationId}`}>{label}</Link>
+              </DropdownMenuItem>
+            ) : (
+              <DropdownMenuItem key={generationId} disabled>
+                {label}
+              </DropdownMenuItem>
+            )
+          })}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+"use client"
+
+import React, { useEffect, useState } from "react"
+import { FlaskConical, ChevronDown } from "lucide-react"
+import { api, type FixtureSummary } from "@/lib/api"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+
+// Developer-only: enabled with NEXT_PUBLIC_ENABLE_SCENARIO_PICKER=true
+export const isScenarioPickerEnabled = process.env.NEXT_PUBLIC_ENABLE_SCENARIO_PICKER === "true"
+
+// Radix radio groups need a string value, so the server default is ""
+const DEFAULT_SCENARIO = ""
+
+interface ScenarioPickerProps {
+  value: string | undefined
+  onChange: (fixture: string | undefined) => void
+  disabled?: boolean
+}
+
+// Lets QA choose which mock-server fixture the next generation streams
+export function ScenarioPicker({ value, onChange, disabled }: ScenarioPickerProps) {
+  const [fixtures, setFixtures] = useState<FixtureSummary[]>([])
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  useEffect(() => {
+    api.listFixtures()
+      .then(setFixtures)
+      .catch((err) => {
+        console.error("Failed to load fixtures:", err)
+        setLoadError("Could not load fixtures from the mock server")
+      })
+  }, [])
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild disabled={disabled}>
+        <button
+          type="button"
+          className="flex items-center gap-1.5 rounded-lg border border-dashed border-gray-300 px-2 py-1 text-xs text-gray-600 hover:bg-gray-50"
+          title="Mock server scenario"
+        >
+          <FlaskConical className="h-3.5 w-3.5" />
+          <span>Scenario: {value || "default"}</span>
+          <ChevronDown className="h-3 w-3" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-56">
+        <DropdownMenuLabel className="text-xs">Mock server fixture</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={value ?? DEFAULT_SCENARIO}
+          onValueChange={(next) => onChange(next === DEFAULT_SCENARIO ? undefined : next)}
+        >
+          <DropdownMenuRadioItem value={DEFAULT_SCENARIO} className="text-xs">
+            Server default
+          </DropdownMenuRadioItem>
+          {fixtures.map((fixture) => (
+            <DropdownMenuRadioItem
+              key={fixture.name}
+              value={fixture.name}
+              disabled={fixture.events === null}
+              className="text-xs"
+            >
+              <span className="flex-1">{fixture.name}</span>
+              <span className="text-muted-foreground">
+                {fixture.events === null ? "invalid" : `${fixture.events} events`}
+              </span>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        {loadError && (
+          <p className="px-2 py-1.5 text-xs text-destructive">{loadError}</p>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
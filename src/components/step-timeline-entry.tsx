@@ -0,0 +1,59 @@
+"use client"
+
+import React from "react"
+import { Crosshair } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  AITool,
+  AIToolContent,
+  AIToolHeader,
+  AIToolParameters,
+  AIToolResult,
+  type AIToolStatus,
+} from "@/components/ui/kibo-ui/ai/tool"
+import { formatStepDuration } from "@/lib/step-timeline"
+import type { GenerationStepEntry } from "@/types/generation"
+
+interface StepTimelineEntryProps {
+  entry: GenerationStepEntry
+  // Entry nodes that are still on the canvas
+  focusableNodeIds: string[]
+  onFocusNodes: (nodeIds: string[]) => void
+}
+
+const TOOL_STATUS: Record<GenerationStepEntry["status"], AIToolStatus> = {
+  running: "running",
+  done: "completed",
+  error: "error",
+}
+
+// One generation step in the chat: status and duration up front, the raw payload when expanded
+export function StepTimelineEntry({ entry, focusableNodeIds, onFocusNodes }: StepTimelineEntryProps) {
+  const duration = entry.finishedAt ? entry.finishedAt.getTime() - entry.startedAt.getTime() : undefined
+  const status = TOOL_STATUS[entry.status]
+
+  return (
+    <AITool status={status} className="mb-0 bg-white">
+      <AIToolHeader status={status} name={entry.title} className="py-2 text-left" />
+      <div className="flex flex-wrap items-center gap-x-2 gap-y-1 px-3 pb-2 text-xs text-muted-foreground">
+        {entry.summary && <span>{entry.summary}</span>}
+        {duration !== undefined && <span className="tabular-nums">{formatStepDuration(duration)}</span>}
+        {focusableNodeIds.length > 0 && (
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 text-xs"
+            onClick={() => onFocusNodes(focusableNodeIds)}
+          >
+            <Crosshair className="mr-1 h-3 w-3" />
+            Show on canvas
+          </Button>
+        )}
+      </div>
+      <AIToolContent className="gap-3 p-3">
+        {entry.data && <AIToolParameters parameters={entry.data as Record<string, unknown>} />}
+        <AIToolResult error={entry.error} />
+      </AIToolContent>
+    </AITool>
+  )
+}
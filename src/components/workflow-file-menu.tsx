@@ -0,0 +1,211 @@
+"use client"
+
+import React, { useRef, useState } from "react"
+import { DownloadIcon, FileJson, UploadIcon, AlertTriangle, Workflow, GitBranch, ClipboardCopy } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { downloadFile } from "@/lib/utils"
+import {
+  generationStateToWorkflowDocument,
+  parseWorkflowFile,
+  serializeWorkflowDocument,
+  workflowDocumentFileName,
+} from "@/lib/workflow-interchange"
+import { exportToMermaid, exportToN8n, type ExportResult, type ExportSummary } from "@/lib/workflow-exporters"
+import type { GenerationState } from "@/types/generation"
+import type { WorkflowDocument } from "@/types/workflow"
+
+interface WorkflowFileMenuProps {
+  generationState: GenerationState
+  onImport: (document: WorkflowDocument) => void
+  // Exporting needs nodes; importing would clobber a generation in progress
+  canExport: boolean
+  canImport: boolean
+}
+
+const FORMAT_LABELS: Record<ExportSummary["format"], string> = {
+  mermaid: "Mermaid",
+  n8n: "n8n",
+}
+
+interface ImportFailure {
+  fileName: string
+  errors: string[]
+}
+
+// Export (workflow JSON, Mermaid, n8n) and Import of the portable workflow JSON file
+export function WorkflowFileMenu({ generationState, onImport, canExport, canImport }: WorkflowFileMenuProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [importFailure, setImportFailure] = useState<ImportFailure | null>(null)
+  const [exportSummary, setExportSummary] = useState<ExportSummary | null>(null)
+
+  const handleExportJson = () => {
+    const document = generationStateToWorkflowDocument(generationState)
+    downloadFile(serializeWorkflowDocument(document), workflowDocumentFileName(document))
+  }
+
+  // Only interrupt with the summary when something didn't carry over
+  const reportExport = (summary: ExportSummary) => {
+    if (summary.unmappedNodes.length > 0 || summary.warnings.length > 0) {
+      setExportSummary(summary)
+    }
+  }
+
+  const downloadExport = (result: ExportResult) => {
+    downloadFile(result.content, result.fileName, result.mimeType)
+    reportExport(result.summary)
+  }
+
+  const handleCopyMermaid = async () => {
+    const result = exportToMermaid(generationState)
+    try {
+      await navigator.clipboard.writeText(result.content)
+      reportExport(result.summary)
+    } catch (err) {
+      console.error("Clipboard write failed, downloading instead:", err)
+      downloadExport(result)
+    }
+  }
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Reset so picking the same file again still fires onChange
+    e.target.value = ""
+    if (!file) return
+
+    const result = parseWorkflowFile(await file.text())
+    if (result.success === false) {
+      setImportFailure({ fileName: file.name, errors: result.errors })
+      return
+    }
+    onImport(result.document)
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="outline" className="flex items-center" disabled={!canExport}>
+            <DownloadIcon className="h-4 w-4 mr-1.5" />
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-52">
+          <DropdownMenuLabel className="text-xs">Export as</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={handleExportJson}>
+            <FileJson className="h-4 w-4 mr-2" />
+            Workflow JSON
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => downloadExport(exportToMermaid(generationState))}>
+            <GitBranch className="h-4 w-4 mr-2" />
+            Mermaid flowchart
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={handleCopyMermaid}>
+            <ClipboardCopy className="h-4 w-4 mr-2" />
+            Copy Mermaid
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => downloadExport(exportToN8n(generationState))}>
+            <Workflow className="h-4 w-4 mr-2" />
+            n8n workflow
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Button
+        size="sm"
+        variant="outline"
+        className="flex items-center"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={!canImport}
+        title="Replace this workflow with a .workflow.json file"
+      >
+        <UploadIcon className="h-4 w-4 mr-1.5" />
+        Import
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={handleFileSelected}
+      />
+
+      <Dialog open={!!importFailure} onOpenChange={(open) => !open && setImportFailure(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              Could not import workflow
+            </DialogTitle>
+            <DialogDescription>
+              {importFailure?.fileName} is not a valid workflow file. Nothing was changed.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="max-h-64 overflow-y-auto rounded bg-gray-50 p-3 text-xs font-mono space-y-1">
+            {importFailure?.errors.map((error, index) => (
+              <li key={index}>{error}</li>
+            ))}
+          </ul>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!exportSummary} onOpenChange={(open) => !open && setExportSummary(null)}>
+        <DialogContent>
+          {exportSummary && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{FORMAT_LABELS[exportSummary.format]} export summary</DialogTitle>
+                <DialogDescription>
+                  Exported {exportSummary.nodeCount} nodes and {exportSummary.connectionCount} connections.
+                </DialogDescription>
+              </DialogHeader>
+              {exportSummary.unmappedNodes.length > 0 && (
+                <div className="space-y-1">
+                  <h4 className="text-sm font-medium">
+                    Unmapped nodes ({exportSummary.unmappedNodes.length})
+                  </h4>
+                  <p className="text-xs text-muted-foreground">
+                    No {FORMAT_LABELS[exportSummary.format]} equivalent; exported as placeholders with the original params in their notes.
+                  </p>
+                  <ul className="max-h-40 overflow-y-auto rounded bg-gray-50 p-3 text-xs space-y-1">
+                    {exportSummary.unmappedNodes.map((node) => (
+                      <li key={node.nodeId}>
+                        <span className="font-medium">{node.name}</span>{" "}
+                        <span className="font-mono text-muted-foreground">{node.type}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {exportSummary.warnings.length > 0 && (
+                <div className="space-y-1">
+                  <h4 className="text-sm font-medium">Warnings</h4>
+                  <ul className="max-h-40 overflow-y-auto rounded bg-amber-50 p-3 text-xs text-amber-800 space-y-1">
+                    {exportSummary.warnings.map((warning, index) => (
+                      <li key={index}>{warning}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -7,6 +7,9 @@ import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { CheckCircle, Loader2, ChevronDown, ChevronRight, RepeatIcon } from "lucide-react"
 import { motion, AnimatePresence } from "framer-motion"
+import type { NodeIOSchema } from "@/types/generation"
+import type { NodeRunStatus } from "@/types/run"
+import { formatSchemaType, getNestedFields, hasNestedSchema } from "@/lib/node-schema"
 
 // Types for our node data
 interface WorkflowGenerationNodeData {
@@ -18,12 +21,26 @@ interface WorkflowGenerationNodeData {
   params?: Record<string, any>
   loop_text?: string | null
   category?: 'Input' | 'Processing' | 'AI' | 'Output'
-  outputs?: Array<{
-    name: string
-    type: string
-  }>
+  inputs?: Record<string, NodeIOSchema>
+  outputs?: Record<string, NodeIOSchema>
   isMock?: boolean
   isArchitecturePlanner?: boolean
+  runStatus?: NodeRunStatus
+  // Briefly highlighted after "Show on canvas" in the chat
+  isFocused?: boolean
+  // The node the generation failed on
+  hasFailed?: boolean
+  // Canvas layout direction: LR puts handles on the sides, TB on top and bottom
+  layoutDirection?: 'LR' | 'TB'
+}
+
+// Ring and label shown around the card during a simulated run
+const RUN_STATUS_STYLES: Record<NodeRunStatus, { ring: string; label: string; badge: string }> = {
+  queued: { ring: "ring-2 ring-gray-300 ring-offset-2", label: "Queued", badge: "bg-gray-100 text-gray-600" },
+  running: { ring: "ring-2 ring-blue-500 ring-offset-2 animate-pulse", label: "Running", badge: "bg-blue-100 text-blue-700" },
+  succeeded: { ring: "ring-2 ring-green-500 ring-offset-2", label: "Succeeded", badge: "bg-green-100 text-green-700" },
+  failed: { ring: "ring-2 ring-red-500 ring-offset-2", label: "Failed", badge: "bg-red-100 text-red-700" },
+  skipped: { ring: "opacity-50", label: "Skipped", badge: "bg-gray-100 text-gray-500" },
 }
 
 // Hook to get current zoom level from React Flow
@@ -92,6 +109,79 @@ const CollapsibleValue: React.FC<{
   )
 }
 
+// Visual treatment per data type (dot + type label)
+const TYPE_STYLES: Record<string, { dot: string; text: string }> = {
+  string: { dot: "bg-sky-500", text: "text-sky-700 bg-sky-50 border-sky-200" },
+  number: { dot: "bg-amber-500", text: "text-amber-700 bg-amber-50 border-amber-200" },
+  integer: { dot: "bg-amber-500", text: "text-amber-700 bg-amber-50 border-amber-200" },
+  boolean: { dot: "bg-purple-500", text: "text-purple-700 bg-purple-50 border-purple-200" },
+  array: { dot: "bg-emerald-500", text: "text-emerald-700 bg-emerald-50 border-emerald-200" },
+  object: { dot: "bg-orange-500", text: "text-orange-700 bg-orange-50 border-orange-200" },
+}
+
+const getTypeStyle = (schema?: NodeIOSchema) =>
+  TYPE_STYLES[schema?.type || ""] || { dot: "bg-gray-400", text: "text-gray-700 bg-gray-50 border-gray-200" }
+
+// Single typed port, with nested array/object fields expandable beneath it
+const SchemaPort: React.FC<{
+  name: string
+  schema: NodeIOSchema
+  direction: 'input' | 'output'
+  isConfigured?: boolean
+  depth?: number
+}> = ({ name, schema, direction, isConfigured, depth = 0 }) => {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const nested = hasNestedSchema(schema)
+  const style = getTypeStyle(schema)
+  const isOutput = direction === 'output'
+
+  return (
+    <div style={{ paddingLeft: depth * 10 }}>
+      <div
+        className={`flex items-center gap-1.5 py-0.5 ${isOutput ? 'flex-row-reverse text-right' : ''}`}
+        title={schema.description}
+      >
+        {depth === 0 ? (
+          <span className={`h-2 w-2 rounded-full flex-shrink-0 ${style.dot} ${isOutput ? '-mr-[15px]' : '-ml-[15px]'}`} />
+        ) : (
+          <span className={`h-1.5 w-1.5 rounded-full flex-shrink-0 ${style.dot}`} />
+        )}
+        <span className="text-[11px] font-medium text-gray-700 dark:text-gray-300 truncate">
+          {name}
+        </span>
+        {direction === 'input' && depth === 0 && isConfigured && (
+          <CheckCircle className="h-2.5 w-2.5 text-green-600 flex-shrink-0" />
+        )}
+        <span className={`text-[9px] px-1 rounded border font-mono flex-shrink-0 ${style.text}`}>
+          {formatSchemaType(schema)}
+        </span>
+        {nested && (
+          <button
+            type="button"
+            className="text-gray-500 hover:text-gray-800"
+            onClick={() => setIsExpanded(!isExpanded)}
+          >
+            {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+          </button>
+        )}
+      </div>
+      {nested && isExpanded && (
+        <div className={`border-gray-200 ${isOutput ? 'border-r pr-1' : 'border-l pl-1'}`}>
+          {Object.entries(getNestedFields(schema)).map(([childName, childSchema]) => (
+            <SchemaPort
+              key={childName}
+              name={childName}
+              schema={childSchema}
+              direction={direction}
+              depth={depth + 1}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
 // Main workflow generation node component
 export function WorkflowGenerationNode({ data, isConnectable }: NodeProps<WorkflowGenerationNodeData>) {
   const zoom = useZoomLevel()
@@ -157,6 +247,9 @@ export function WorkflowGenerationNode({ data, isConnectable }: NodeProps<Workfl
   }
 
   const dimensions = getNodeDimensions()
+  const vertical = data.layoutDirection === 'TB'
+  const inputEntries = useMemo(() => Object.entries(data.inputs || {}), [data.inputs])
+  const outputEntries = useMemo(() => Object.entries(data.outputs || {}), [data.outputs])
 
   return (
     <motion.div
@@ -166,6 +259,13 @@ export function WorkflowGenerationNode({ data, isConnectable }: NodeProps<Workfl
       animate={{ opacity: 1, scale: 1 }}
       transition={{ duration: 0.3 }}
     >
+      {/* Run status */}
+      {data.runStatus && (
+        <div className={`absolute -top-2 left-2 z-10 rounded-full px-1.5 py-0.5 text-[10px] font-medium shadow-sm ${RUN_STATUS_STYLES[data.runStatus].badge}`}>
+          {RUN_STATUS_STYLES[data.runStatus].label}
+        </div>
+      )}
+
       {/* Repeat indicator */}
       {data.loop_text && (
         <div className="absolute -top-2 -right-2 bg-blue-100 text-blue-700 text-[10px] px-1.5 py-0.5 rounded-full flex items-center shadow-md border border-blue-300 z-10">
@@ -177,11 +277,11 @@ export function WorkflowGenerationNode({ data, isConnectable }: NodeProps<Workfl
       {/* Input Handle */}
       <Handle
         type="target"
-        position={Position.Left}
+        position={vertical ? Position.Top : Position.Left}
         style={{
           width: '8px',
           height: '8px',
-          left: '-4px',
+          ...(vertical ? { top: '-4px' } : { left: '-4px' }),
           background: '#f8fafc',
           border: detailLevel === 'minimal' ? '1px solid #3b82f6' : '2px solid #3b82f6',
           borderRadius: '50%',
@@ -199,6 +299,9 @@ export function WorkflowGenerationNode({ data, isConnectable }: NodeProps<Workfl
           ${data.status === 'generating' ? 'border-dashed border-2 border-purple-300 opacity-75' : ''}
           ${data.isMock ? 'mock-node-shimmer' : ''}
           ${data.isArchitecturePlanner ? 'architecture-planner-node' : ''}
+          ${data.runStatus ? RUN_STATUS_STYLES[data.runStatus].ring : ''}
+          ${data.isFocused && !data.runStatus ? 'ring-2 ring-amber-400 ring-offset-2' : ''}
+          ${data.hasFailed && !data.isFocused && !data.runStatus ? 'ring-2 ring-red-500 ring-offset-2' : ''}
         `}
       >
         {/* Header */}
@@ -290,19 +393,32 @@ export function WorkflowGenerationNode({ data, isConnectable }: NodeProps<Workfl
             </div>
           )}
 
-          {/* Inputs/Outputs - shown only in detailed level */}
-          {detailLevel === 'detailed' && (data.outputs) && (
-            <div className="mt-2 pt-2 border-t border-gray-100 dark:border-gray-700">
-                <div>
-                  <h5 className="text-xs font-medium text-muted-foreground mb-1">Outputs</h5>
-                  <div className="flex flex-wrap gap-1">
-                    {data.outputs.map((output, index) => (
-                      <Badge key={index} variant="outline" className="text-[10px]">
-                        {output.name} ({output.type})
-                      </Badge>
-                    ))}
-                  </div>
-                </div>
+          {/* Typed ports - compact counts in standard level, full schemas in detailed level */}
+          {detailLevel === 'standard' && (inputEntries.length > 0 || outputEntries.length > 0) && (
+            <div className="mt-2 text-[10px] text-muted-foreground">
+              {inputEntries.length} input{inputEntries.length !== 1 ? 's' : ''} · {outputEntries.length} output{outputEntries.length !== 1 ? 's' : ''}
+            </div>
+          )}
+          {detailLevel === 'detailed' && (inputEntries.length > 0 || outputEntries.length > 0) && (
+            <div className="mt-3 pt-2 border-t border-gray-100 dark:border-gray-700 grid grid-cols-2 gap-2">
+              <div className="min-w-0">
+                <h5 className="text-[10px] uppercase tracking-wide font-medium text-muted-foreground mb-1">Inputs</h5>
+                {inputEntries.map(([name, schema]) => (
+                  <SchemaPort
+                    key={name}
+                    name={name}
+                    schema={schema}
+                    direction="input"
+                    isConfigured={data.params ? name in data.params : false}
+                  />
+                ))}
+              </div>
+              <div className="min-w-0">
+                <h5 className="text-[10px] uppercase tracking-wide font-medium text-muted-foreground mb-1 text-right">Outputs</h5>
+                {outputEntries.map(([name, schema]) => (
+                  <SchemaPort key={name} name={name} schema={schema} direction="output" />
+                ))}
+              </div>
             </div>
           )}
         </CardContent>
@@ -311,11 +427,11 @@ export function WorkflowGenerationNode({ data, isConnectable }: NodeProps<Workfl
       {/* Output Handle */}
       <Handle
         type="source"
-        position={Position.Right}
+        position={vertical ? Position.Bottom : Position.Right}
         style={{
           width: '8px',
           height: '8px',
-          right: '-4px',
+          ...(vertical ? { bottom: '-4px' } : { right: '-4px' }),
           background: '#f8fafc',
           border: detailLevel === 'minimal' ? '1px solid #3b82f6' : '2px solid #3b82f6',
           borderRadius: '50%',
@@ -1,34 +1,47 @@
 "use client"
 
-import { useCallback, useEffect, useState, useMemo, useRef } from 'react';
+import { useCallback, useEffect, useState, useRef, useSyncExternalStore } from 'react';
 import { useSSE } from './use-sse';
 import {
   GenerationState,
   SSEEvent,
-  SSEStepEvent,
-  InternalWorkflowNode,
-  InternalConnection,
-  ChatMessage,
-  InternalDatabaseInfo,
+  WorkflowEdit,
 } from '@/types/generation';
+import { isSSEStepEvent, isSSESystemEvent, transformMockNodes } from '@/lib/generation-transformers';
 import {
-  parseSSEMessage,
-  isSSEStepEvent,
-  isSSESystemEvent,
-  transformNodes,
-  transformConnections,
-  transformDatabaseInfo,
-  updateNodeConfiguration,
-  updateNodeStatus,
-  createChatMessage,
-  sanitizeEventData,
-  extractConnectionsFromNodes,
-  transformArchitecturePlannerNodes,
-  transformMockNodes,
-} from '@/lib/generation-transformers';
+  appendUserMessage,
+  createInitialGenerationState,
+  keepPartialWorkflow,
+  reduceGenerationEvent,
+  resumeAfterError,
+  systemClock,
+} from '@/lib/generation-reducer';
+import {
+  closeGenerationStream,
+  ensureGenerationStream,
+  getGenerationSnapshot,
+  isGenerationInProgress,
+  isTerminalEvent,
+  resetGeneration,
+  restartGenerationStream,
+  subscribeGeneration,
+  updateGenerationState,
+} from '@/lib/generation-store';
+import { api, RetryScope } from '@/lib/api';
+import { applyWorkflowEdit } from '@/lib/workflow-edits';
+import { savedWorkflowToGenerationState } from '@/lib/workflow-persistence';
+import { workflowDocumentToGenerationState } from '@/lib/workflow-interchange';
+import { loadStoredNodePositions, storeNodePositions } from '@/lib/position-storage';
+import { SavedWorkflow, WorkflowDocument } from '@/types/workflow';
+
+// The mock server heartbeats every 5s; warn after several consecutive misses
+const LIVENESS_TIMEOUT_MS = 20000;
+const LIVENESS_CHECK_INTERVAL_MS = 2000;
 
 interface UseGenerationStateOptions {
   generationId: string;
+  // Lets the running-generations indicator link back to the workflow
+  workflowId?: string;
   enabled?: boolean;
   baseUrl?: string;
 }
@@ -40,13 +53,26 @@ interface UseGenerationStateReturn {
   // Connection status
   isConnected: boolean;
   isConnecting: boolean;
+  isReconnecting: boolean;
+  reconnectAttempt: number;
   isCompleted: boolean;
   connectionError: string | null;
+  isServerSilent: boolean;
+  isRefining: boolean;
+  isRetrying: boolean;
+  isCancelling: boolean;
   
   // Actions
   reset: () => void;
   toggleChat: () => void;
   setMockNodes: (nodeNames: string[]) => void;
+  applyEdit: (edit: WorkflowEdit) => void;
+  loadWorkflow: (workflow: SavedWorkflow) => void;
+  importWorkflow: (document: WorkflowDocument) => void;
+  refine: (message: string) => Promise<void>;
+  retry: (scope: RetryScope) => Promise<void>;
+  keepPartial: () => void;
+  cancel: () => Promise<void>;
   
   // Derived state
   isProcessing: boolean;
@@ -60,224 +86,137 @@ const getBaseUrl = () => {
   return process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000';
 };
 
-// Initial state
-const createInitialState = (generationId?: string): GenerationState => ({
-  currentStep: null,
-  isComplete: false,
-  hasError: false,
-  chatMessages: [],
-  nodes: [],
-  connections: [],
-  mockNodes: [],
-  hasMockNodes: false,
-  showCanvas: false,
-  isCollapsed: false,
-  generationId,
-});
+type StateUpdater = (state: GenerationState) => GenerationState;
+
+const subscribeNothing = () => () => {};
 
 export function useGenerationState({
   generationId,
+  workflowId,
   enabled = true,
   baseUrl,
 }: UseGenerationStateOptions): UseGenerationStateReturn {
-  
-  const [state, setState] = useState<GenerationState>(() => 
-    createInitialState(generationId)
+  // A generation lives in the shared store, so it keeps streaming when this page unmounts and
+  // other tabs see the same state. Without one (a saved workflow) the state stays local
+  const isShared = enabled && !!generationId;
+  const [localState, setLocalState] = useState<GenerationState>(() => createInitialGenerationState(generationId));
+
+  const subscribe = useCallback(
+    (listener: () => void) => (isShared ? subscribeGeneration(generationId, listener) : subscribeNothing()),
+    [isShared, generationId]
   );
-  const [sseCompleted, setSseCompleted] = useState(false);
-  const [isConnecting, setIsConnecting] = useState(false);
+  const getSnapshot = useCallback(
+    () => (isShared ? getGenerationSnapshot(generationId) : null),
+    [isShared, generationId]
+  );
+  const snapshot = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
 
-  // Debug counters and processed event tracking
-  const eventCountRef = useRef({ received: 0, processed: 0 });
-  const processedEventIds = useRef<Set<string>>(new Set());
+  const state = snapshot?.state ?? localState;
+  const connection = snapshot?.connection;
 
-  // Build SSE URL
-  const sseUrl = useMemo(() => {
-    if (!enabled || !generationId) return null;
-    const base = baseUrl || getBaseUrl();
-    return `${base}/generations/${generationId}/stream`;
-  }, [generationId, baseUrl, enabled]);
-
-  // Handle SSE messages
-  const handleSSEMessage = useCallback((event: SSEEvent) => {
-    const eventId = `${event.step || event.type}_${Date.now()}`;
-    
-    if (processedEventIds.current.has(eventId)) {
-      return;
+  const setState = useCallback((updater: StateUpdater) => {
+    if (isShared) {
+      updateGenerationState(generationId, updater);
+    } else {
+      setLocalState(updater);
     }
-    
-    processedEventIds.current.add(eventId);
-    eventCountRef.current.received++;
-    
-    // Sanitize event data
-    const sanitizedEvent = sanitizeEventData(event);
-    
-    setState(prevState => {
-      const newState = { ...prevState };
-      
-      // Handle system events
-      if (isSSESystemEvent(sanitizedEvent)) {
-        if (sanitizedEvent.type === 'connected') {
-          newState.currentStep = 'connected';
-          // Don't add a chat message for connection
-        } else if (sanitizedEvent.type === 'status') {
-          if (sanitizedEvent.status === 'COMPLETED') {
-            newState.isComplete = true;
-            newState.currentStep = 'completed';
-            newState.chatMessages = [
-              ...newState.chatMessages,
-              {
-                id: `msg_${Date.now()}_completed`,
-                type: 'assistant',
-                content: 'Agent generation complete!',
-                timestamp: new Date(),
-                step: 'completed'
-              }
-            ];
-          } else if (sanitizedEvent.status === 'ERROR') {
-            newState.hasError = true;
-            newState.currentStep = 'error';
-            newState.chatMessages = [
-              ...newState.chatMessages,
-              {
-                id: `msg_${Date.now()}_error`,
-                type: 'error',
-                content: 'An error occurred during generation',
-                timestamp: new Date(),
-                step: 'error'
-              }
-            ];
-          }
-        }
-        return newState;
-      }
-      
-      // Handle step events
-      if (isSSEStepEvent(sanitizedEvent)) {
-        const { step, status, data } = sanitizedEvent;
-        
-        newState.currentStep = step;
-        
-        // Handle architecture_planner started - add the summary as a user message
-        if (step === 'architecture_planner' && status === 'started' && data?.summary) {
-          newState.chatMessages = [
-            ...newState.chatMessages,
-            {
-              id: `msg_${Date.now()}_prompt`,
-              type: 'system',
-              content: data.summary,
-              timestamp: new Date(),
-              step: 'architecture_planner'
-            }
-          ];
-        }
-        
-        // Handle specific steps
-        if (step === 'architecture_planner' && status === 'done' && data?.summary) {
-          const mockNodeNames = Array.isArray(data.summary) ? data.summary : [];
-          const mockNodes = transformArchitecturePlannerNodes({ summary: mockNodeNames });
-          newState.mockNodes = mockNodes;
-          newState.hasMockNodes = mockNodes.length > 0;
-          newState.showCanvas = true;
-        }
-        
-        if (step === 'node_selector' && status === 'done' && data?.nodes) {
-          const transformedNodes = transformNodes(data);
-          newState.nodes = transformedNodes;
-          newState.hasMockNodes = false;
-          newState.mockNodes = [];
-        }
-        
-        if (step === 'connection_builder' && status === 'done') {
-          // Transform and set connections
-          console.log('Processing connection_builder data:', data);
-          const transformedConnections = transformConnections(data);
-          console.log('Transformed connections:', transformedConnections);
-          newState.connections = transformedConnections;
-        }
-        
-        if (step === 'node_configurator') {
-          if (status === 'started' && data?.nodeId) {
-            // Set node status to configuring for pulsing animation
-            newState.nodes = updateNodeStatus(newState.nodes, data.nodeId, 'configuring');
-          } else if (status === 'done') {
-            // Update specific node configuration
-            const previousNodeCount = newState.nodes.length;
-            const updatedNodes = updateNodeConfiguration(newState.nodes, data);
-            
-            // Check if we extracted nodes from malformed data (backend bug)
-            if (updatedNodes.length > previousNodeCount) {
-              console.log('Detected malformed node data extraction, also extracting connections...');
-              newState.nodes = updatedNodes;
-              // Extract connections from the node parameters since connection_builder returned empty
-              newState.connections = extractConnectionsFromNodes(updatedNodes);
-              newState.showCanvas = true; // Show canvas now that we have nodes
-            } else {
-              newState.nodes = updatedNodes;
-            }
-          }
-        }
-        
-        if (step === 'database_setup' && status === 'done' && data?.databases) {
-          const databases = transformDatabaseInfo(data.databases);
-          newState.databases = databases;
-        }
-        
-        if (status === 'error') {
-          newState.hasError = true;
-          newState.chatMessages = [
-            ...newState.chatMessages,
-            {
-              id: `msg_${Date.now()}_step_error`,
-              type: 'error',
-              content: data?.message || `Error in ${step}`,
-              timestamp: new Date(),
-              step: step
-            }
-          ];
-        }
-      }
-      
-      eventCountRef.current.processed++;
-      return newState;
+  }, [isShared, generationId]);
+
+  // Start streaming, unless this or another tab already does
+  useEffect(() => {
+    if (!isShared) return;
+    const base = baseUrl || getBaseUrl();
+    ensureGenerationStream(generationId, { streamUrl: `${base}/generations/${generationId}/stream`, workflowId });
+  }, [isShared, generationId, workflowId, baseUrl]);
+
+  // Refinement events are deduped here, generation events by the store
+  const processedEventIds = useRef<Set<string>>(new Set());
+
+  // Refinements: a chat message becomes a second stream whose step events patch the current
+  // workflow (merge nodes, remove nodes, reconfigure) instead of building a new one
+  const [refinement, setRefinement] = useState<{ generationId: string; refinementId: string } | null>(null);
+  const [isRefining, setIsRefining] = useState(false);
+  const isRefiningRef = useRef(false);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const refineUrl = refinement ? api.getRefinementStreamUrl(refinement.generationId, refinement.refinementId) : null;
+
+  // Back to COMPLETED (if the stream didn't get there) with an explanation in the chat
+  const failRefinement = useCallback((message: string) => {
+    isRefiningRef.current = false;
+    setIsRefining(false);
+    setRefinement(null);
+    setState(prev => {
+      const reported = reduceGenerationEvent(prev, { type: 'assistant_message', content: message }, systemClock);
+      if (reported.status !== 'REFINING') return reported;
+      return reduceGenerationEvent(
+        reported,
+        { type: 'status_change', old_status: 'REFINING', new_status: 'COMPLETED' },
+        systemClock
+      );
     });
-  }, []);
-
-  // Setup SSE connection
-  const { isConnected, error } = useSSE(sseUrl, {
-    onOpen: () => {
-      setIsConnecting(false);
-    },
-    onMessage: handleSSEMessage,
-    onError: (err) => {
-      setState(prev => ({
-        ...prev,
-        hasError: true,
-        chatMessages: [
-          ...prev.chatMessages,
-          createChatMessage('error', `Connection error: ${err.message}`, 'error')
-        ]
-      }));
-      setSseCompleted(true);
-      setIsConnecting(false);
-    },
-    onClose: () => {
-      setSseCompleted(true);
-      setIsConnecting(false);
+  }, [setState]);
+
+  const handleRefineMessage = useCallback((event: SSEEvent, sseEventId?: string) => {
+    if ((isSSESystemEvent(event) && event.type === 'heartbeat') || !refinement) return;
+
+    // Refinement event ids restart at 0, so keep them apart from the generation's
+    const fallbackId = `${isSSEStepEvent(event) ? event.step : event.type}_${Date.now()}`;
+    const eventId = `refine:${refinement.refinementId}:${sseEventId ?? fallbackId}`;
+    if (processedEventIds.current.has(eventId)) return;
+    processedEventIds.current.add(eventId);
+
+    setState(prevState => reduceGenerationEvent(prevState, event, systemClock));
+
+    if (isTerminalEvent(event)) {
+      isRefiningRef.current = false;
+      setIsRefining(false);
+      setRefinement(null);
     }
+  }, [refinement, setState]);
+
+  useSSE(refineUrl, {
+    onMessage: handleRefineMessage,
+    onError: (err) => failRefinement(`The refinement stream failed: ${err.message}`),
   });
 
+  const refine = useCallback(async (message: string) => {
+    const text = message.trim();
+    const targetId = generationId || stateRef.current.generationId;
+    if (!text || !targetId || isRefiningRef.current) return;
+
+    isRefiningRef.current = true;
+    setIsRefining(true);
+    setState(prev => appendUserMessage(prev, text, systemClock));
+
+    try {
+      // Refine what is on the canvas, including unsaved edits
+      const { nodes, connections } = stateRef.current;
+      const response = await api.refineGeneration(targetId, { message: text, nodes, connections });
+      setRefinement({ generationId: targetId, refinementId: response.refinement_id });
+    } catch (err) {
+      console.error('Failed to start refinement:', err);
+      failRefinement(`Couldn't update the workflow: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
+  }, [generationId, failRefinement, setState]);
+
   // Actions
   const reset = useCallback(() => {
-    setState(createInitialState(generationId));
-    setSseCompleted(false);
+    if (isShared) {
+      resetGeneration(generationId);
+    } else {
+      setLocalState(createInitialGenerationState(generationId));
+    }
+    setRefinement(null);
+    isRefiningRef.current = false;
+    setIsRefining(false);
     processedEventIds.current.clear();
-    eventCountRef.current = { received: 0, processed: 0 };
-  }, [generationId]);
+  }, [isShared, generationId]);
 
   const toggleChat = useCallback(() => {
     setState(prev => ({ ...prev, isCollapsed: !prev.isCollapsed }));
-  }, []);
+  }, [setState]);
 
   const setMockNodes = useCallback((nodeNames: string[]) => {
     setState(prev => {
@@ -289,24 +228,171 @@ export function useGenerationState({
         showCanvas: mockNodes.length > 0,
       };
     });
-  }, []);
+  }, [setState]);
+
+  // User edits from the canvas, written into the same state the stream builds
+  const applyEdit = useCallback((edit: WorkflowEdit) => {
+    setState(prev => applyWorkflowEdit(prev, edit));
+  }, [setState]);
+
+  // Replace the state with a previously saved workflow (no stream involved)
+  const loadWorkflow = useCallback((workflow: SavedWorkflow) => {
+    setState(() => savedWorkflowToGenerationState(workflow));
+  }, [setState]);
+
+  // Replace the current workflow with a validated imported file, staying on this generation
+  const importWorkflow = useCallback((document: WorkflowDocument) => {
+    setState(prev => workflowDocumentToGenerationState(document, prev.generationId));
+  }, [setState]);
+
+  // Pins of an unsaved generation are kept in localStorage: restored once the stream has
+  // rebuilt the workflow, written back on every change after that
+  const positionsRestoredRef = useRef(false);
+  useEffect(() => {
+    positionsRestoredRef.current = false;
+  }, [generationId]);
+
+  // Declared before the restore so it doesn't run with the not-yet-restored nodes
+  useEffect(() => {
+    if (!enabled || !positionsRestoredRef.current) return;
+    storeNodePositions(generationId, state.nodes);
+  }, [enabled, generationId, state.nodes]);
+
+  useEffect(() => {
+    if (!enabled || !generationId || !state.isComplete || positionsRestoredRef.current) return;
+    positionsRestoredRef.current = true;
+    const positions = loadStoredNodePositions(generationId);
+    if (positions) {
+      setState(prev => applyWorkflowEdit(prev, { type: 'set_node_positions', positions }));
+    }
+  }, [enabled, generationId, state.isComplete, setState]);
+
+  // Recovery from a failed step: the server swaps the failure for its recovery events, and the
+  // stream is reopened right after the last good event (step) or from the start (generation)
+  const [isRetrying, setIsRetrying] = useState(false);
+  const isRetryingRef = useRef(false);
+
+  const retry = useCallback(async (scope: RetryScope) => {
+    if (!isShared || !stateRef.current.hasError || isRetryingRef.current) return;
+
+    isRetryingRef.current = true;
+    setIsRetrying(true);
+    try {
+      const response = await api.retryGeneration(generationId, scope);
+      const resumeAfter = scope === 'step' && response.resume_after !== null ? String(response.resume_after) : null;
+
+      if (resumeAfter === null) {
+        positionsRestoredRef.current = false;
+        setState(prev => appendUserMessage({
+          ...createInitialGenerationState(generationId),
+          workflowName: prev.workflowName,
+          mockNodes: prev.mockNodes,
+          hasMockNodes: prev.hasMockNodes,
+          showCanvas: prev.showCanvas,
+          isCollapsed: prev.isCollapsed,
+        }, 'Retry the whole generation', systemClock));
+      } else {
+        setState(prev => appendUserMessage(resumeAfterError(prev, systemClock), 'Retry this step', systemClock));
+      }
+      restartGenerationStream(generationId, resumeAfter);
+    } catch (err) {
+      console.error('Failed to retry generation:', err);
+      setState(prev => reduceGenerationEvent(
+        prev,
+        { type: 'assistant_message', content: `Couldn't retry: ${err instanceof Error ? err.message : 'unknown error'}` },
+        systemClock
+      ));
+    } finally {
+      isRetryingRef.current = false;
+      setIsRetrying(false);
+    }
+  }, [isShared, generationId, setState]);
+
+  // Stop at the failure and keep what was generated for editing
+  const keepPartial = useCallback(() => {
+    setState(prev => keepPartialWorkflow(prev, systemClock));
+  }, [setState]);
+
+  // Stop: the server ends the stream, and the cancellation is applied right away so steps still
+  // on their way are dropped
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  const cancel = useCallback(async () => {
+    if (!isShared || isCancelling) return;
+
+    setIsCancelling(true);
+    try {
+      await api.cancelGeneration(generationId);
+      closeGenerationStream(generationId);
+      setState(prev => reduceGenerationEvent(
+        prev,
+        { type: 'status_change', old_status: prev.status ?? 'RUNNING', new_status: 'CANCELLED', generation_id: generationId },
+        systemClock
+      ));
+    } catch (err) {
+      console.error('Failed to cancel generation:', err);
+      setState(prev => reduceGenerationEvent(
+        prev,
+        { type: 'assistant_message', content: `Couldn't stop the generation: ${err instanceof Error ? err.message : 'unknown error'}` },
+        systemClock
+      ));
+    } finally {
+      setIsCancelling(false);
+    }
+  }, [isShared, generationId, isCancelling, setState]);
 
   // Derived state
-  const isProcessing = state.currentStep !== null && !state.isComplete && !state.hasError;
+  const isProcessing = isGenerationInProgress(state);
+  const isStreamClosed = !isShared || !!connection?.isClosed;
+
+  // Liveness watchdog: flag the stream when neither events nor heartbeats arrive in time
+  const [isServerSilent, setIsServerSilent] = useState(false);
+  useEffect(() => {
+    if (!isProcessing || isStreamClosed) {
+      setIsServerSilent(false);
+      return;
+    }
+
+    const check = () => {
+      const lastSeen = Math.max(state.lastEventAt ?? 0, state.lastHeartbeatAt ?? 0);
+      setIsServerSilent(lastSeen > 0 && Date.now() - lastSeen > LIVENESS_TIMEOUT_MS);
+    };
+
+    check();
+    const interval = setInterval(check, LIVENESS_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isProcessing, isStreamClosed, state.lastEventAt, state.lastHeartbeatAt]);
   const canShowCanvas = state.showCanvas || state.nodes.length > 0 || state.hasMockNodes;
   const hasNodes = state.nodes.length > 0;
   const hasConnections = state.connections.length > 0;
   const hasMockNodes = state.hasMockNodes;
 
+  // Another tab streaming the generation counts as connected
+  const isConnected = !!connection && (connection.isConnected || (connection.isRemote && isProcessing));
+  const reconnectAttempt = connection?.reconnectAttempt ?? 0;
+
   return {
     state,
     isConnected,
-    isConnecting,
-    isCompleted: state.isComplete || sseCompleted,
-    connectionError: error?.message || null,
+    isConnecting: isShared && !isConnected && !isStreamClosed && reconnectAttempt === 0,
+    isReconnecting: reconnectAttempt > 0,
+    reconnectAttempt,
+    isCompleted: state.isComplete || (isShared && isStreamClosed),
+    connectionError: connection?.error ?? null,
+    isServerSilent,
+    isRefining,
+    isRetrying,
+    isCancelling,
     reset,
     toggleChat,
     setMockNodes,
+    applyEdit,
+    loadWorkflow,
+    importWorkflow,
+    refine,
+    retry,
+    keepPartial,
+    cancel,
     isProcessing,
     canShowCanvas,
     hasNodes,
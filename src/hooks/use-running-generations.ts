@@ -0,0 +1,16 @@
+"use client"
+
+import { useSyncExternalStore } from 'react';
+import {
+  GenerationSnapshot,
+  getRunningGenerations,
+  getServerRunningGenerations,
+  subscribeGenerations,
+} from '@/lib/generation-store';
+
+/**
+ * Generations still in progress in any tab, from the shared generation store
+ */
+export function useRunningGenerations(): GenerationSnapshot[] {
+  return useSyncExternalStore(subscribeGenerations, getRunningGenerations, getServerRunningGenerations);
+}
@@ -1,61 +1,73 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { openSSEConnection, SSEConnection, SSEConnectionOptions } from "@/lib/sse-connection";
 
-interface UseSSEOptions {
-  onMessage?: (data: any) => void;
-  onError?: (error: Error) => void;
-  onOpen?: () => void;
-  onClose?: () => void;
-}
+type UseSSEOptions = SSEConnectionOptions;
 
 export function useSSE(url: string | null, options: UseSSEOptions = {}) {
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<Error | null>(null);
-  const eventSourceRef = useRef<EventSource | null>(null);
-
-  useEffect(() => {
-    if (!url) return;
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const connectionRef = useRef<SSEConnection | null>(null);
 
-    const eventSource = new EventSource(url);
-    eventSourceRef.current = eventSource;
+  // Keep latest callbacks without re-opening the connection on every render
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
 
-    eventSource.onopen = () => {
-      setIsConnected(true);
-      setError(null);
-      options.onOpen?.();
-    };
+  const close = useCallback(() => {
+    connectionRef.current?.close();
+    connectionRef.current = null;
+    setIsConnected(false);
+    setReconnectAttempt(0);
+  }, []);
 
-    eventSource.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        options.onMessage?.(data);
-      } catch (err) {
-        console.error("Failed to parse SSE message:", err);
-      }
-    };
+  useEffect(() => {
+    if (!url) return;
 
-    eventSource.onerror = (err) => {
-      setIsConnected(false);
-      const error = new Error("SSE connection error");
-      setError(error);
-      options.onError?.(error);
-      eventSource.close();
-      options.onClose?.();
-    };
+    const { initialLastEventId, maxRetries, initialRetryDelay, maxRetryDelay } = optionsRef.current;
+    const connection = openSSEConnection(url, {
+      initialLastEventId,
+      maxRetries,
+      initialRetryDelay,
+      maxRetryDelay,
+      onOpen: () => {
+        setIsConnected(true);
+        setError(null);
+        setReconnectAttempt(0);
+        optionsRef.current.onOpen?.();
+      },
+      onMessage: (data, eventId) => optionsRef.current.onMessage?.(data, eventId),
+      onReconnecting: (attempt, delay) => {
+        setIsConnected(false);
+        setReconnectAttempt(attempt);
+        optionsRef.current.onReconnecting?.(attempt, delay);
+      },
+      onError: (err) => {
+        setError(err);
+        optionsRef.current.onError?.(err);
+      },
+      onClose: () => {
+        setIsConnected(false);
+        setReconnectAttempt(0);
+        optionsRef.current.onClose?.();
+      },
+    });
+    connectionRef.current = connection;
 
     return () => {
-      eventSource.close();
+      connection.close();
+      if (connectionRef.current === connection) connectionRef.current = null;
       setIsConnected(false);
+      setReconnectAttempt(0);
     };
   }, [url]);
 
   return {
     isConnected,
     error,
-    close: () => {
-      eventSourceRef.current?.close();
-      setIsConnected(false);
-    },
+    isReconnecting: reconnectAttempt > 0,
+    reconnectAttempt,
+    close,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,146 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { GenerationState, WorkflowEdit } from '@/types/generation';
+import {
+  applyWorkflowEdit,
+  canApplyWorkflowEdit,
+  invertWorkflowEdit,
+} from '@/lib/workflow-edits';
+
+// An applied edit together with the edit that reverts it
+interface HistoryEntry {
+  edit: WorkflowEdit;
+  inverse: WorkflowEdit;
+}
+
+const MAX_HISTORY = 100;
+
+interface UseWorkflowHistoryOptions {
+  state: GenerationState;
+  applyEdit: (edit: WorkflowEdit) => void;
+  // History is dropped whenever this changes (e.g. a new generation id)
+  resetKey?: string;
+  // Bind Ctrl/Cmd+Z and Shift+Ctrl/Cmd+Z on the window
+  enableShortcuts?: boolean;
+}
+
+interface UseWorkflowHistoryReturn {
+  execute: (edit: WorkflowEdit) => void;
+  undo: () => void;
+  redo: () => void;
+  clear: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+// Typing in a field keeps the browser's own undo
+function isTextInput(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable ||
+    target.tagName === 'INPUT' ||
+    target.tagName === 'TEXTAREA' ||
+    target.tagName === 'SELECT';
+}
+
+/**
+ * Command-based undo/redo for workflow edits
+ * Each executed edit stores its inverse, computed from the state it was applied to
+ */
+export function useWorkflowHistory({
+  state,
+  applyEdit,
+  resetKey,
+  enableShortcuts = true,
+}: UseWorkflowHistoryOptions): UseWorkflowHistoryReturn {
+  // Stacks live in refs so undo/redo never run side effects inside a state updater;
+  // `version` only triggers the re-render that refreshes canUndo/canRedo
+  const undoStack = useRef<HistoryEntry[]>([]);
+  const redoStack = useRef<HistoryEntry[]>([]);
+  const [, setVersion] = useState(0);
+  const bumpVersion = useCallback(() => setVersion(version => version + 1), []);
+
+  // Edits can arrive in bursts within one render, so track the state they will
+  // apply to instead of waiting for React to re-render
+  const stateRef = useRef(state);
+  useEffect(() => {
+    stateRef.current = state;
+  }, [state]);
+
+  const run = useCallback((edit: WorkflowEdit) => {
+    stateRef.current = applyWorkflowEdit(stateRef.current, edit);
+    applyEdit(edit);
+  }, [applyEdit]);
+
+  // A `batch` edit (one user action touching several nodes) is a single undo step
+  const execute = useCallback((edit: WorkflowEdit) => {
+    if (!canApplyWorkflowEdit(stateRef.current, edit)) return;
+
+    const inverse = invertWorkflowEdit(stateRef.current, edit);
+    run(edit);
+    if (!inverse) return;
+
+    undoStack.current = [...undoStack.current, { edit, inverse }].slice(-MAX_HISTORY);
+    redoStack.current = [];
+    bumpVersion();
+  }, [run, bumpVersion]);
+
+  const undo = useCallback(() => {
+    const entry = undoStack.current[undoStack.current.length - 1];
+    if (!entry) return;
+
+    run(entry.inverse);
+    undoStack.current = undoStack.current.slice(0, -1);
+    redoStack.current = [...redoStack.current, entry];
+    bumpVersion();
+  }, [run, bumpVersion]);
+
+  const redo = useCallback(() => {
+    const entry = redoStack.current[redoStack.current.length - 1];
+    if (!entry) return;
+
+    run(entry.edit);
+    redoStack.current = redoStack.current.slice(0, -1);
+    undoStack.current = [...undoStack.current, entry];
+    bumpVersion();
+  }, [run, bumpVersion]);
+
+  const clear = useCallback(() => {
+    undoStack.current = [];
+    redoStack.current = [];
+    bumpVersion();
+  }, [bumpVersion]);
+
+  // A new generation replaces the workflow, so old commands no longer apply
+  useEffect(() => {
+    clear();
+  }, [resetKey, clear]);
+
+  useEffect(() => {
+    if (!enableShortcuts) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.key.toLowerCase() !== 'z') return;
+      if (isTextInput(event.target)) return;
+
+      event.preventDefault();
+      if (event.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enableShortcuts, undo, redo]);
+
+  return {
+    execute,
+    undo,
+    redo,
+    clear,
+    canUndo: undoStack.current.length > 0,
+    canRedo: redoStack.current.length > 0,
+  };
+}
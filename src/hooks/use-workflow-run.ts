@@ -0,0 +1,92 @@
+"use client"
+
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { useSSE } from './use-sse';
+import { api } from '@/lib/api';
+import { createInitialRunState, reduceRunEvent } from '@/lib/run-reducer';
+import { systemClock } from '@/lib/generation-reducer';
+import { InternalConnection, InternalWorkflowNode } from '@/types/generation';
+import { RunEvent, WorkflowRunState } from '@/types/run';
+
+interface UseWorkflowRunOptions {
+  workflowId?: string;
+  nodes: InternalWorkflowNode[];
+  connections: InternalConnection[];
+}
+
+interface UseWorkflowRunReturn {
+  runState: WorkflowRunState;
+  isRunning: boolean;
+  startRun: () => Promise<void>;
+  resetRun: () => void;
+}
+
+/**
+ * Start a simulated run of the current graph and follow its SSE stream
+ */
+export function useWorkflowRun({
+  workflowId,
+  nodes,
+  connections,
+}: UseWorkflowRunOptions): UseWorkflowRunReturn {
+  const [runState, setRunState] = useState<WorkflowRunState>(createInitialRunState);
+  const [runId, setRunId] = useState<string | null>(null);
+  const closeStreamRef = useRef<() => void>(() => {});
+
+  const nodeNames = useMemo(
+    () => Object.fromEntries(nodes.map((node) => [node.nodeId, node.name])),
+    [nodes]
+  );
+  const nodeNamesRef = useRef(nodeNames);
+  nodeNamesRef.current = nodeNames;
+
+  const streamUrl = runId ? api.getRunStreamUrl(runId) : null;
+
+  const { close } = useSSE(streamUrl, {
+    onMessage: (event: RunEvent) => {
+      if (event.type === 'heartbeat') return;
+      setRunState(prev => reduceRunEvent(prev, event, nodeNamesRef.current, systemClock));
+      if (event.type === 'run_completed') {
+        closeStreamRef.current();
+      }
+    },
+    onError: (err) => {
+      setRunState(prev => ({ ...prev, status: 'failed', error: `Run stream error: ${err.message}` }));
+    },
+  });
+
+  closeStreamRef.current = close;
+
+  const startRun = useCallback(async () => {
+    if (!workflowId) return;
+
+    closeStreamRef.current();
+    setRunId(null);
+    setRunState({ ...createInitialRunState(), status: 'starting' });
+
+    try {
+      // Run what is on the canvas, including unsaved edits
+      const response = await api.startRun(workflowId, { nodes, connections });
+      setRunId(response.run_id);
+    } catch (err) {
+      setRunState({
+        ...createInitialRunState(),
+        status: 'failed',
+        error: err instanceof Error ? err.message : 'Failed to start run',
+      });
+    }
+  }, [workflowId, nodes, connections]);
+
+  const resetRun = useCallback(() => {
+    closeStreamRef.current();
+    setRunId(null);
+    setRunState(createInitialRunState());
+  }, []);
+
+  return {
+    runState,
+    isRunning: runState.status === 'starting' || runState.status === 'running',
+    startRun,
+    resetRun,
+  };
+}
@@ -1,5 +1,13 @@
 // Simplified API client 
 
+import type {
+  ListWorkflowsOptions,
+  SaveWorkflowRequest,
+  SavedWorkflow,
+  WorkflowSummary,
+} from "@/types/workflow";
+import type { InternalConnection, InternalWorkflowNode } from "@/types/generation";
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:4000";
 
 export interface GenerateWorkflowResponse {
@@ -7,6 +15,51 @@ export interface GenerateWorkflowResponse {
   generation_id: string;
 }
 
+export interface GenerateWorkflowOptions {
+  // Mock server fixture to stream; the server default is used when omitted
+  fixture?: string;
+}
+
+export interface FixtureSummary {
+  name: string;
+  events: number | null;
+}
+
+export interface StartRunRequest {
+  // Graph to run; the saved workflow is used when omitted
+  nodes?: InternalWorkflowNode[];
+  connections?: InternalConnection[];
+}
+
+export interface StartRunResponse {
+  run_id: string;
+}
+
+export interface RefineGenerationRequest {
+  message: string;
+  // Graph to change; the generation's saved workflow is used when omitted
+  nodes?: InternalWorkflowNode[];
+  connections?: InternalConnection[];
+}
+
+export interface RefineGenerationResponse {
+  refinement_id: string;
+}
+
+// 'step' resumes at the failed step, 'generation' starts over
+export type RetryScope = 'step' | 'generation';
+
+export interface RetryGenerationResponse {
+  generation_id: string;
+  // Stream event id to resume after; null to stream from the start
+  resume_after: number | null;
+}
+
+export interface CancelGenerationResponse {
+  generation_id: string;
+  status: 'cancelled';
+}
+
 export interface InitialDetailsResponse {
   name: string;
   description?: string;
@@ -20,28 +73,15 @@ class ApiClient {
     this.baseUrl = API_BASE_URL;
   }
 
-  async generateWorkflow(prompt: string): Promise<GenerateWorkflowResponse> {
-    // Change this to test different fixtures
-    // Options: 'happy', 'branching', 'error'
-    const TEST_FIXTURE: 'happy' | 'branching' | 'error' = 'branching';
-    
-    const queryParams = new URLSearchParams();
-    if (TEST_FIXTURE === 'error') {
-      queryParams.append('error', '1');
-    } else if (TEST_FIXTURE === 'branching') {
-      queryParams.append('branching', '1');
-    }
-
-    const url = queryParams.toString() 
-      ? `${this.baseUrl}/workflow-generation/generate-workflow?${queryParams}`
-      : `${this.baseUrl}/workflow-generation/generate-workflow`;
+  async generateWorkflow(prompt: string, options: GenerateWorkflowOptions = {}): Promise<GenerateWorkflowResponse> {
+    const url = `${this.baseUrl}/workflow-generation/generate-workflow`;
     
     const response = await fetch(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ prompt }),
+      body: JSON.stringify({ prompt, fixture: options.fixture }),
     });
 
     if (!response.ok) {
@@ -65,6 +105,185 @@ class ApiClient {
     return response.json();
   }
 
+  async listFixtures(): Promise<FixtureSummary[]> {
+    const response = await fetch(`${this.baseUrl}/fixtures`, {
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to list fixtures: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.fixtures;
+  }
+
+  async getWorkflow(workflowId: string): Promise<SavedWorkflow> {
+    const response = await fetch(`${this.baseUrl}/workflows/${workflowId}`, {
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (response.status === 404) {
+      throw new Error('Workflow not found');
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to load workflow: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  async saveWorkflow(workflowId: string, workflow: SaveWorkflowRequest): Promise<SavedWorkflow> {
+    const response = await fetch(`${this.baseUrl}/workflows/${workflowId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(workflow),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to save workflow: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  async listWorkflows(options: ListWorkflowsOptions = {}): Promise<WorkflowSummary[]> {
+    const params = new URLSearchParams();
+    if (options.search) params.set('q', options.search);
+    if (options.status) params.set('status', options.status);
+    if (options.order) params.set('order', options.order);
+
+    const query = params.toString();
+    const response = await fetch(`${this.baseUrl}/workflows${query ? `?${query}` : ''}`, {
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to list workflows: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.workflows;
+  }
+
+  async renameWorkflow(workflowId: string, name: string): Promise<SavedWorkflow> {
+    const response = await fetch(`${this.baseUrl}/workflows/${workflowId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ name }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to rename workflow: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  async duplicateWorkflow(workflowId: string): Promise<SavedWorkflow> {
+    const response = await fetch(`${this.baseUrl}/workflows/${workflowId}/duplicate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to duplicate workflow: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  async deleteWorkflow(workflowId: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/workflows/${workflowId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete workflow: ${response.statusText}`);
+    }
+  }
+
+  async startRun(workflowId: string, request: StartRunRequest = {}): Promise<StartRunResponse> {
+    const response = await fetch(`${this.baseUrl}/workflows/${workflowId}/runs`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to start run: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  getRunStreamUrl(runId: string): string {
+    return `${this.baseUrl}/runs/${runId}/stream`;
+  }
+
+  async refineGeneration(generationId: string, request: RefineGenerationRequest): Promise<RefineGenerationResponse> {
+    const response = await fetch(`${this.baseUrl}/generations/${generationId}/refine`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to refine workflow: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  getRefinementStreamUrl(generationId: string, refinementId: string): string {
+    return `${this.baseUrl}/generations/${generationId}/refinements/${refinementId}/stream`;
+  }
+
+  async retryGeneration(generationId: string, scope: RetryScope): Promise<RetryGenerationResponse> {
+    const response = await fetch(`${this.baseUrl}/generations/${generationId}/retry`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ scope }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to retry generation: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  async cancelGeneration(generationId: string): Promise<CancelGenerationResponse> {
+    const response = await fetch(`${this.baseUrl}/generations/${generationId}/cancel`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to cancel generation: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
   getStreamUrl(generationId: string): string {
     return `${this.baseUrl}/generations/${generationId}/stream`;
   }
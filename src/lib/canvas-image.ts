@@ -0,0 +1,89 @@
+import { toPng, toSvg } from 'html-to-image';
+import { getNodesBounds, Node, Viewport } from 'reactflow';
+
+export type CanvasImageFormat = 'png' | 'svg';
+
+// Whole graph, or exactly what is on screen right now
+export type CanvasImageScope = 'full' | 'viewport';
+
+export interface CanvasImageOptions {
+  format: CanvasImageFormat;
+  scope: CanvasImageScope;
+  transparent: boolean;
+}
+
+interface CanvasImageSource {
+  // The `.react-flow__viewport` element: nodes and edges only, no controls, minimap or panels
+  viewportElement: HTMLElement;
+  nodes: Node[];
+  viewport: Viewport;
+  containerWidth: number;
+  containerHeight: number;
+}
+
+// Matches the canvas background (bg-gray-50) when not transparent
+const IMAGE_BACKGROUND = '#f9fafb';
+
+// Space around the graph in a full export, in screen pixels
+const FULL_GRAPH_PADDING = 40;
+
+// Browsers refuse canvases much beyond this; large graphs are rendered at a lower pixel ratio
+const MAX_IMAGE_DIMENSION = 8192;
+
+/**
+ * Size and transform for the capture
+ * The current zoom is kept in both scopes so nodes render at the detail level on screen
+ */
+function captureFrame(source: CanvasImageSource, scope: CanvasImageScope) {
+  const { viewport } = source;
+
+  if (scope === 'viewport' || source.nodes.length === 0) {
+    return {
+      width: source.containerWidth,
+      height: source.containerHeight,
+      transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.zoom})`,
+    };
+  }
+
+  const bounds = getNodesBounds(source.nodes);
+  const width = Math.ceil(bounds.width * viewport.zoom + FULL_GRAPH_PADDING * 2);
+  const height = Math.ceil(bounds.height * viewport.zoom + FULL_GRAPH_PADDING * 2);
+  const x = FULL_GRAPH_PADDING - bounds.x * viewport.zoom;
+  const y = FULL_GRAPH_PADDING - bounds.y * viewport.zoom;
+
+  return { width, height, transform: `translate(${x}px, ${y}px) scale(${viewport.zoom})` };
+}
+
+/**
+ * Render the canvas to a PNG or SVG data URL
+ */
+export async function renderCanvasImage(source: CanvasImageSource, options: CanvasImageOptions): Promise<string> {
+  const { width, height, transform } = captureFrame(source, options.scope);
+
+  const imageOptions = {
+    width,
+    height,
+    backgroundColor: options.transparent ? undefined : IMAGE_BACKGROUND,
+    style: {
+      width: `${width}px`,
+      height: `${height}px`,
+      transform,
+    },
+  };
+
+  if (options.format === 'svg') {
+    return toSvg(source.viewportElement, imageOptions);
+  }
+
+  const devicePixelRatio = typeof window === 'undefined' ? 1 : window.devicePixelRatio || 1;
+  const pixelRatio = Math.min(devicePixelRatio, MAX_IMAGE_DIMENSION / Math.max(width, height));
+  return toPng(source.viewportElement, { ...imageOptions, pixelRatio });
+}
+
+/**
+ * Download file name, e.g. "sales-pipeline-full.png"
+ */
+export function canvasImageFileName(workflowName: string | undefined, options: CanvasImageOptions): string {
+  const slug = (workflowName ?? '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workflow';
+  return `${slug}-${options.scope}.${options.format}`;
+}
@@ -0,0 +1,140 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { GenerationClock, replayGenerationEvents } from '@/lib/generation-reducer';
+import { SSEEvent } from '@/types/generation';
+
+const FIXTURES_DIR = path.resolve(__dirname, '../../mock-server/fixtures');
+
+function loadFixture(name: string): SSEEvent[] {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, `${name}.json`), 'utf8'));
+}
+
+// Ticks one millisecond per call so ids stay unique and replays are repeatable
+function createFixedClock(start = Date.UTC(2024, 0, 15, 9)): GenerationClock {
+  let now = start;
+  return { now: () => now++ };
+}
+
+function replayFixture(name: string) {
+  return replayGenerationEvents(loadFixture(name), createFixedClock());
+}
+
+function connectionPairs(name: string) {
+  return replayFixture(name).connections.map(({ source, target }) => [source, target]);
+}
+
+describe('reduceGenerationEvent', () => {
+  describe('happy.json', () => {
+    const state = replayFixture('happy');
+
+    it('completes without errors or diagnostics', () => {
+      expect(state.isComplete).toBe(true);
+      expect(state.hasError).toBe(false);
+      expect(state.currentStep).toBe('completed');
+      expect(state.status).toBe('COMPLETED');
+      expect(state.finalStatus).toBe('COMPLETED');
+      expect(state.diagnostics).toEqual([]);
+    });
+
+    it('ends with every selected node configured', () => {
+      expect(state.nodes.map((node) => node.nodeId)).toEqual([
+        'DataSourceNode_51448',
+        'DocumentFetchNode_37452',
+        'AIProcessingNode_90099',
+        'DocumentCreateNode_89437',
+        'EmailNode_90099',
+        'MessageNode_29578',
+      ]);
+      expect(state.nodes.every((node) => node.status === 'configured')).toBe(true);
+      expect(state.nodes[0]).toMatchObject({
+        name: 'Get Sales Data',
+        description: 'Pull daily sales data from S3',
+        params: { s3_filepath: '{{$sales_data_filepath}}' },
+      });
+      expect(state.mockNodes).toEqual([]);
+    });
+
+    it('keeps the connections in the order they were built', () => {
+      expect(connectionPairs('happy')).toEqual([
+        ['DataSourceNode_51448', 'DocumentFetchNode_37452'],
+        ['DocumentFetchNode_37452', 'AIProcessingNode_90099'],
+        ['AIProcessingNode_90099', 'DocumentCreateNode_89437'],
+        ['DocumentCreateNode_89437', 'EmailNode_90099'],
+        ['EmailNode_90099', 'MessageNode_29578'],
+      ]);
+    });
+
+    it('records the status timeline once', () => {
+      expect(state.statusHistory.map(({ from, to }) => [from, to])).toEqual([
+        [null, 'RUNNING'],
+        ['RUNNING', 'COMPLETED'],
+      ]);
+    });
+
+    it('is deterministic for the same clock', () => {
+      expect(replayFixture('happy')).toEqual(state);
+    });
+  });
+
+  describe('branching.json', () => {
+    const state = replayFixture('branching');
+
+    it('completes with all seven nodes configured', () => {
+      expect(state.isComplete).toBe(true);
+      expect(state.hasError).toBe(false);
+      expect(state.diagnostics).toEqual([]);
+      expect(state.nodes).toHaveLength(7);
+      expect(state.nodes.every((node) => node.status === 'configured')).toBe(true);
+    });
+
+    it('fans three sources into one node', () => {
+      expect(connectionPairs('branching')).toEqual([
+        ['WebSearchNode_1', 'LLMCallNode_1'],
+        ['InstagramScraperNode_1', 'LLMCallNode_1'],
+        ['TikTokScraperNode_1', 'LLMCallNode_1'],
+        ['LLMCallNode_1', 'GoogleSheetsUploadNode_1'],
+        ['GoogleSheetsUploadNode_1', 'LLMCallNode_2'],
+        ['LLMCallNode_2', 'SendEmailNode_1'],
+      ]);
+      expect(new Set(state.connections.map((connection) => connection.id)).size).toBe(6);
+    });
+  });
+
+  describe('error.json', () => {
+    const state = replayFixture('error');
+
+    it('fails on the node_configurator error', () => {
+      expect(state.isComplete).toBe(false);
+      expect(state.hasError).toBe(true);
+      expect(state.status).toBe('ERROR');
+      expect(state.errorMessage).toBe('LLM quota exceeded. Unable to generate node configuration parameters.');
+      expect(state.error).toMatchObject({
+        code: 'QUOTA_EXCEEDED',
+        step: 'node_configurator',
+        nodeId: 'LinkedInEnrichmentNode_67890',
+      });
+    });
+
+    it('keeps the nodes and connections streamed before the failure', () => {
+      expect(state.nodes.map((node) => [node.nodeId, node.status])).toEqual([
+        ['WebhookReceiverNode_12345', 'configured'],
+        ['LinkedInEnrichmentNode_67890', 'configuring'],
+        ['LeadScoringNode_54321', 'idle'],
+        ['CRMCreateLeadNode_98765', 'idle'],
+        ['SendSlackMessageNode_11223', 'idle'],
+      ]);
+      expect(state.connections).toHaveLength(4);
+    });
+
+    it('quarantines the malformed databases payload as a diagnostic', () => {
+      expect(state.diagnostics).toHaveLength(1);
+      expect(state.diagnostics[0]).toMatchObject({
+        label: 'database_setup/done',
+        event: { step: 'database_setup', status: 'done', data: { databases: ['leads', 'sales_reps'] } },
+      });
+      expect(state.diagnostics[0].issues.length).toBeGreaterThan(0);
+      expect(state.databases).toBeUndefined();
+    });
+  });
+});
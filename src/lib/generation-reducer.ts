@@ -0,0 +1,550 @@
+import {
+  GenerationState,
+  SSEEvent,
+  SSEStepEvent,
+  SSESystemEvent,
+  ChatMessage,
+  GenerationPhase,
+  GenerationStatus,
+  ArchitecturePlannerData,
+  DatabaseSetupData,
+  NodeSelectorData,
+  ConnectionBuilderData,
+  NodeConfiguratorData,
+  NodeRemoverData,
+  InternalConnection,
+  InternalWorkflowNode,
+  SSEErrorData,
+} from '@/types/generation';
+import {
+  isSSEStepEvent,
+  isSSESystemEvent,
+  transformArchitecturePlannerNodes,
+  transformNodes,
+  transformConnections,
+  transformDatabases,
+  updateNodeConfiguration,
+  updateNodeStatus,
+  extractConnectionsFromNodes,
+} from '@/lib/generation-transformers';
+import { validateSSEEvent } from '@/lib/generation-validators';
+import { createConnectionId } from '@/lib/workflow-edits';
+import { applyStepToTimeline, closeOpenSteps } from '@/lib/step-timeline';
+
+/**
+ * Source of time for the reducer. Injected so event replays are deterministic
+ */
+export interface GenerationClock {
+  now: () => number;
+}
+
+export const systemClock: GenerationClock = {
+  now: () => Date.now(),
+};
+
+/**
+ * Initial generation state
+ */
+export function createInitialGenerationState(generationId?: string): GenerationState {
+  return {
+    currentStep: null,
+    isComplete: false,
+    hasError: false,
+    isCancelled: false,
+    chatMessages: [],
+    nodes: [],
+    connections: [],
+    mockNodes: [],
+    hasMockNodes: false,
+    showCanvas: false,
+    isCollapsed: false,
+    generationId,
+    diagnostics: [],
+    statusHistory: [],
+    stepTimeline: [],
+  };
+}
+
+/**
+ * Apply a single SSE event to the generation state
+ * Pure: never mutates `state`, and all time-dependent values come from `clock`
+ * Events failing runtime validation are quarantined in `diagnostics` instead
+ */
+export function reduceGenerationEvent(
+  state: GenerationState,
+  rawEvent: SSEEvent,
+  clock: GenerationClock = systemClock
+): GenerationState {
+  const validation = validateSSEEvent(rawEvent);
+  if (validation.success === false) {
+    const now = clock.now();
+    return {
+      ...state,
+      diagnostics: [
+        ...state.diagnostics,
+        {
+          id: `diag_${now}_${state.diagnostics.length}`,
+          receivedAt: new Date(now),
+          label: validation.label,
+          issues: validation.issues,
+          event: rawEvent,
+        },
+      ],
+    };
+  }
+
+  const event = validation.event;
+  const liveState: GenerationState = { ...state, lastEventAt: clock.now() };
+
+  if (isSSEStepEvent(event)) {
+    // Steps still in flight when the generation was cancelled are dropped
+    if (state.isCancelled) return liveState;
+    return reduceStepEvent(liveState, event, clock);
+  }
+
+  if (isSSESystemEvent(event)) {
+    return reduceSystemEvent(liveState, event, clock);
+  }
+
+  return state;
+}
+
+/**
+ * Replay a sequence of events from a given state
+ */
+export function replayGenerationEvents(
+  events: SSEEvent[],
+  clock: GenerationClock = systemClock,
+  initialState: GenerationState = createInitialGenerationState()
+): GenerationState {
+  return events.reduce((state, event) => reduceGenerationEvent(state, event, clock), initialState);
+}
+
+function appendChatMessage(
+  state: GenerationState,
+  clock: GenerationClock,
+  suffix: string,
+  message: Omit<ChatMessage, 'id' | 'timestamp'>
+): ChatMessage[] {
+  const now = clock.now();
+  return [
+    ...state.chatMessages,
+    {
+      ...message,
+      id: `msg_${now}_${state.chatMessages.length}_${suffix}`,
+      timestamp: new Date(now),
+    },
+  ];
+}
+
+/**
+ * Add a message the user typed in the chat (e.g. a refinement request)
+ */
+export function appendUserMessage(
+  state: GenerationState,
+  content: string,
+  clock: GenerationClock = systemClock
+): GenerationState {
+  return {
+    ...state,
+    chatMessages: appendChatMessage(state, clock, 'user', { type: 'system', content }),
+  };
+}
+
+function reduceSystemEvent(
+  state: GenerationState,
+  event: SSESystemEvent,
+  clock: GenerationClock
+): GenerationState {
+  switch (event.type) {
+    case 'connected':
+      // Don't add a chat message for connection
+      return {
+        ...state,
+        currentStep: 'connected',
+        generationId: state.generationId || event.generation_id,
+      };
+
+    case 'status':
+      return applyStatus(state, clock, state.status ?? null, event.status);
+
+    case 'status_change':
+      return applyStatus(state, clock, event.old_status, event.new_status);
+
+    case 'complete': {
+      const finalState = recordTransition(
+        { ...state, finalStatus: event.final_status },
+        clock,
+        state.status ?? null,
+        event.final_status
+      );
+      if (isFailureStatus(event.final_status)) {
+        return markFailed(finalState, clock, `Generation finished with status ${event.final_status}`);
+      }
+      if (event.final_status === 'CANCELLED') {
+        return markCancelled(finalState, clock);
+      }
+      return markCompleted(finalState, clock);
+    }
+
+    case 'heartbeat':
+      return { ...state, lastHeartbeatAt: clock.now() };
+
+    case 'error':
+      return markFailed(state, clock, event.message || 'An error occurred during generation');
+
+    case 'assistant_message':
+      return {
+        ...state,
+        chatMessages: appendChatMessage(state, clock, 'assistant', {
+          type: 'assistant',
+          content: event.content,
+        }),
+      };
+
+    default:
+      return state;
+  }
+}
+
+function isFailureStatus(status: GenerationStatus): boolean {
+  return status === 'ERROR' || status === 'FAILED';
+}
+
+/**
+ * Append a transition to the status timeline (no-op when the status is unchanged)
+ */
+function recordTransition(
+  state: GenerationState,
+  clock: GenerationClock,
+  from: GenerationStatus | null,
+  to: GenerationStatus
+): GenerationState {
+  if (state.status === to) return state;
+  return {
+    ...state,
+    status: to,
+    statusHistory: [...state.statusHistory, { from, to, at: new Date(clock.now()) }],
+  };
+}
+
+/**
+ * Move to a new status, finishing the generation when it is terminal
+ */
+function applyStatus(
+  state: GenerationState,
+  clock: GenerationClock,
+  from: GenerationStatus | null,
+  to: GenerationStatus
+): GenerationState {
+  const transitioned = recordTransition(state, clock, from, to);
+  if (to === 'COMPLETED') {
+    return markCompleted(transitioned, clock);
+  }
+  if (isFailureStatus(to)) {
+    return markFailed(transitioned, clock, 'An error occurred during generation');
+  }
+  if (to === 'CANCELLED') {
+    return markCancelled(transitioned, clock);
+  }
+  return transitioned;
+}
+
+function markCompleted(state: GenerationState, clock: GenerationClock): GenerationState {
+  // `status` and `complete` can both announce completion; only report it once.
+  // A refinement ends on the same status, and its steps must not stay current
+  if (state.isComplete) {
+    return state.currentStep === 'completed' ? state : { ...state, currentStep: 'completed' };
+  }
+  return {
+    ...recordTransition(state, clock, state.status ?? null, 'COMPLETED'),
+    isComplete: true,
+    currentStep: 'completed',
+    chatMessages: appendChatMessage(state, clock, 'completed', {
+      type: 'assistant',
+      content: 'Agent generation complete!',
+      step: 'completed',
+    }),
+  };
+}
+
+const UNFINISHED_STEP_ERROR = 'Did not finish before the generation failed';
+
+function markFailed(state: GenerationState, clock: GenerationClock, message: string): GenerationState {
+  if (state.hasError && state.currentStep === 'error') return state;
+  const failedState = state.status && isFailureStatus(state.status)
+    ? state
+    : recordTransition(state, clock, state.status ?? null, 'ERROR');
+  return {
+    ...failedState,
+    hasError: true,
+    errorMessage: message,
+    // A step error already recorded the details
+    error: state.error ?? { message },
+    currentStep: 'error',
+    stepTimeline: closeOpenSteps(state.stepTimeline, clock.now(), UNFINISHED_STEP_ERROR),
+    chatMessages: appendChatMessage(state, clock, 'error', {
+      type: 'error',
+      content: message,
+      step: 'error',
+    }),
+  };
+}
+
+const CANCELLED_STEP_ERROR = 'Cancelled';
+
+// A node whose configuration was cut short stays as it was before the step
+function resetConfiguringNodes(nodes: InternalWorkflowNode[]): InternalWorkflowNode[] {
+  return nodes.map((node) => (node.status === 'configuring' ? { ...node, status: 'idle' as const } : node));
+}
+
+function markCancelled(state: GenerationState, clock: GenerationClock): GenerationState {
+  if (state.isCancelled) return state;
+  return {
+    ...recordTransition(state, clock, state.status ?? null, 'CANCELLED'),
+    isCancelled: true,
+    currentStep: 'cancelled',
+    stepTimeline: closeOpenSteps(state.stepTimeline, clock.now(), CANCELLED_STEP_ERROR),
+    nodes: resetConfiguringNodes(state.nodes),
+    chatMessages: appendChatMessage(state, clock, 'cancelled', {
+      type: 'assistant',
+      content: 'Generation stopped. The workflow generated so far is kept.',
+      step: 'cancelled',
+    }),
+  };
+}
+
+/**
+ * Clear a failure before its retried step is streamed again, back to RUNNING
+ */
+export function resumeAfterError(
+  state: GenerationState,
+  clock: GenerationClock = systemClock
+): GenerationState {
+  if (!state.hasError) return state;
+  return {
+    ...recordTransition(state, clock, state.status ?? null, 'RUNNING'),
+    hasError: false,
+    errorMessage: undefined,
+    error: undefined,
+    currentStep: state.error?.step ?? state.currentStep,
+  };
+}
+
+/**
+ * Give up on a failed generation but keep its nodes: the workflow becomes editable as if it had
+ * completed, while the status history still ends on the error
+ */
+export function keepPartialWorkflow(
+  state: GenerationState,
+  clock: GenerationClock = systemClock
+): GenerationState {
+  if (!state.hasError) return state;
+  return {
+    ...state,
+    hasError: false,
+    errorMessage: undefined,
+    error: undefined,
+    isComplete: true,
+    currentStep: 'completed',
+    nodes: resetConfiguringNodes(state.nodes),
+    chatMessages: appendChatMessage(state, clock, 'partial', {
+      type: 'assistant',
+      content: 'Kept the partial workflow. Nodes that were not configured are left for you to finish.',
+    }),
+  };
+}
+
+/**
+ * Record the event on the step timeline (a new entry also gets a chat message), then apply its data
+ */
+function reduceStepEvent(
+  state: GenerationState,
+  event: SSEStepEvent,
+  clock: GenerationClock
+): GenerationState {
+  const { timeline, added } = applyStepToTimeline(state.stepTimeline, event, clock.now());
+  const reduced = reduceStepData({ ...state, stepTimeline: timeline }, event, clock);
+  if (!added) return reduced;
+
+  return {
+    ...reduced,
+    chatMessages: appendChatMessage(reduced, clock, 'step', {
+      type: 'step',
+      content: added.title,
+      step: event.step,
+      stepEntryId: added.id,
+    }),
+  };
+}
+
+function reduceStepData(
+  state: GenerationState,
+  event: SSEStepEvent,
+  clock: GenerationClock
+): GenerationState {
+  const { step, status } = event;
+  const newState: GenerationState = { ...state, currentStep: step as GenerationPhase };
+
+  if (status === 'error') {
+    const data = event.data as SSEErrorData;
+    const message = data?.message || `Error in ${step}`;
+    return {
+      ...recordTransition(newState, clock, newState.status ?? null, 'ERROR'),
+      hasError: true,
+      errorMessage: message,
+      error: { message, code: data?.code, step, nodeId: data?.nodeId, details: data?.details },
+      stepTimeline: closeOpenSteps(newState.stepTimeline, clock.now(), UNFINISHED_STEP_ERROR),
+      chatMessages: appendChatMessage(state, clock, 'step_error', {
+        type: 'error',
+        content: message,
+        step,
+      }),
+    };
+  }
+
+  switch (step) {
+    case 'architecture_planner': {
+      const data = event.data as ArchitecturePlannerData;
+      if (!data?.summary) return newState;
+
+      // The started event carries the user's prompt
+      if (status === 'started' && typeof data.summary === 'string') {
+        return {
+          ...newState,
+          chatMessages: appendChatMessage(state, clock, 'prompt', {
+            type: 'system',
+            content: data.summary,
+            step: 'architecture_planner',
+          }),
+        };
+      }
+
+      // The done event carries the planned node names
+      if (status === 'done') {
+        const mockNodeNames = Array.isArray(data.summary) ? data.summary : [];
+        const mockNodes = transformArchitecturePlannerNodes({ summary: mockNodeNames }, clock.now());
+        return {
+          ...newState,
+          mockNodes,
+          hasMockNodes: mockNodes.length > 0,
+          showCanvas: true,
+        };
+      }
+      return newState;
+    }
+
+    case 'database_setup': {
+      const data = event.data as DatabaseSetupData;
+      if (status !== 'done' || !data?.databases) return newState;
+
+      const databases = transformDatabases(data);
+      return {
+        ...newState,
+        databases,
+        databaseInfo: databases[0],
+      };
+    }
+
+    case 'node_selector': {
+      const data = event.data as NodeSelectorData;
+      if (status !== 'done' || !data?.nodes) return newState;
+
+      if (data.mode === 'merge') {
+        return { ...newState, nodes: mergeNodes(newState.nodes, transformNodes(data)), showCanvas: true };
+      }
+
+      return {
+        ...newState,
+        nodes: transformNodes(data),
+        hasMockNodes: false,
+        mockNodes: [],
+      };
+    }
+
+    case 'connection_builder': {
+      const data = event.data as ConnectionBuilderData;
+      if (status !== 'done' || !data?.connections) return newState;
+
+      if (data.mode === 'merge') {
+        return { ...newState, connections: mergeConnections(newState.connections, data.connections) };
+      }
+
+      return {
+        ...newState,
+        connections: transformConnections(data),
+      };
+    }
+
+    case 'node_configurator': {
+      const data = event.data as NodeConfiguratorData;
+
+      if (status === 'started' && data?.nodeId) {
+        // Set node status to configuring for pulsing animation
+        return {
+          ...newState,
+          nodes: updateNodeStatus(newState.nodes, data.nodeId, 'configuring'),
+        };
+      }
+
+      if (status === 'done' && data) {
+        const updatedNodes = updateNodeConfiguration(newState.nodes, data);
+
+        // Node data recovered from a malformed payload (backend bug): connection_builder
+        // returned nothing, so derive connections from the node parameters instead
+        if (updatedNodes.length > newState.nodes.length) {
+          return {
+            ...newState,
+            nodes: updatedNodes,
+            connections: extractConnectionsFromNodes(updatedNodes),
+            showCanvas: true,
+          };
+        }
+
+        return { ...newState, nodes: updatedNodes };
+      }
+      return newState;
+    }
+
+    case 'node_remover': {
+      const data = event.data as NodeRemoverData;
+      if (status !== 'done' || !data?.nodeIds) return newState;
+
+      const removed = new Set(data.nodeIds);
+      return {
+        ...newState,
+        nodes: newState.nodes.filter((node) => !removed.has(node.nodeId)),
+        connections: newState.connections.filter(
+          (connection) => !removed.has(connection.source) && !removed.has(connection.target)
+        ),
+      };
+    }
+
+    case 'workflow_saver':
+      return newState;
+
+    default:
+      return newState;
+  }
+}
+
+/**
+ * Append refinement nodes, skipping ids the workflow already has
+ */
+function mergeNodes(nodes: InternalWorkflowNode[], added: InternalWorkflowNode[]): InternalWorkflowNode[] {
+  const known = new Set(nodes.map((node) => node.nodeId));
+  return [...nodes, ...added.filter((node) => !known.has(node.nodeId))];
+}
+
+/**
+ * Append refinement connections, skipping ones that already exist
+ */
+function mergeConnections(
+  connections: InternalConnection[],
+  added: ConnectionBuilderData['connections']
+): InternalConnection[] {
+  return added.reduce((merged, { source, target }) => {
+    if (merged.some((connection) => connection.source === source && connection.target === target)) return merged;
+    return [...merged, { source, target, id: createConnectionId(merged, source, target) }];
+  }, connections);
+}
@@ -0,0 +1,492 @@
+import { GenerationState, SSEEvent } from '@/types/generation';
+import { createInitialGenerationState, reduceGenerationEvent, systemClock } from '@/lib/generation-reducer';
+import { isSSEStepEvent, isSSESystemEvent } from '@/lib/generation-transformers';
+import { openSSEConnection, SSEConnection } from '@/lib/sse-connection';
+
+/**
+ * Generations by id, shared by every component and kept in sync across tabs.
+ * One tab owns a generation's stream: it applies the events and broadcasts the resulting state,
+ * other tabs mirror it. The stream outlives the page that started it and runs until the
+ * generation ends; when the owning tab goes away another tab that knows the generation resumes it.
+ */
+
+export interface GenerationConnection {
+  isConnected: boolean;
+  reconnectAttempt: number;
+  error: string | null;
+  // No more events will arrive (finished, failed, refused or cancelled)
+  isClosed: boolean;
+  // Another tab streams this generation; the state here mirrors it
+  isRemote: boolean;
+}
+
+export interface GenerationSnapshot {
+  generationId: string;
+  workflowId?: string;
+  state: GenerationState;
+  connection: GenerationConnection;
+}
+
+export interface GenerationStreamOptions {
+  streamUrl: string;
+  workflowId?: string;
+}
+
+interface GenerationEntry {
+  snapshot: GenerationSnapshot;
+  streamUrl?: string;
+  stream: SSEConnection | null;
+  lastEventId: string | null;
+  // Server event ids already applied, so replays after a reconnect are ignored
+  processedEventIds: Set<string>;
+  // Bumped by every restart; part of the URL so the server sees a fresh stream
+  restarts: number;
+  // Waiting to see whether another tab streams this generation
+  claimTimer: ReturnType<typeof setTimeout> | null;
+  // Pending removal from the store (see scheduleEviction)
+  evictionTimer: ReturnType<typeof setTimeout> | null;
+}
+
+type SyncMessage =
+  | { type: 'sync_request'; tabId: string }
+  | { type: 'who_streams'; tabId: string; generationId: string }
+  | { type: 'claimed'; tabId: string; generationId: string }
+  | { type: 'released'; tabId: string; generationId: string; lastEventId: string | null }
+  | {
+    type: 'state';
+    tabId: string;
+    generationId: string;
+    workflowId?: string;
+    streamUrl?: string;
+    state: GenerationState;
+    lastEventId: string | null;
+    streaming: boolean;
+  };
+
+const CHANNEL_NAME = 'generation-store';
+// How long a tab waits for an owner to answer before streaming itself
+const CLAIM_TIMEOUT_MS = 300;
+// Spread takeovers so tabs don't all reconnect at once when the owner closes
+const TAKEOVER_JITTER_MS = 500;
+// Grace period before dropping an unwatched generation, so a remount doesn't lose it
+const EVICTION_DELAY_MS = 5000;
+
+const IDLE_CONNECTION: GenerationConnection = {
+  isConnected: false,
+  reconnectAttempt: 0,
+  error: null,
+  isClosed: false,
+  isRemote: false,
+};
+
+const tabId = Math.random().toString(36).slice(2);
+const entries = new Map<string, GenerationEntry>();
+const listeners = new Map<string, Set<() => void>>();
+const globalListeners = new Set<() => void>();
+let runningCache: GenerationSnapshot[] | null = null;
+
+// Statuses that end a stream
+const TERMINAL_STATUSES = ['COMPLETED', 'ERROR', 'CANCELLED'];
+
+/**
+ * Events after which the server has nothing more to send
+ */
+export function isTerminalEvent(event: SSEEvent): boolean {
+  if (isSSEStepEvent(event)) {
+    return event.status === 'error';
+  }
+  return event.type === 'complete' ||
+    (event.type === 'status' && TERMINAL_STATUSES.includes(event.status)) ||
+    (event.type === 'status_change' && TERMINAL_STATUSES.includes(event.new_status));
+}
+
+function isGenerationFinished(state: GenerationState): boolean {
+  return state.isComplete || state.hasError || state.isCancelled;
+}
+
+/**
+ * Still being generated: started, and not finished, failed or cancelled
+ */
+export function isGenerationInProgress(state: GenerationState): boolean {
+  return state.currentStep !== null && !isGenerationFinished(state);
+}
+
+function getEntry(generationId: string): GenerationEntry {
+  let entry = entries.get(generationId);
+  if (!entry) {
+    entry = {
+      snapshot: {
+        generationId,
+        state: createInitialGenerationState(generationId),
+        connection: IDLE_CONNECTION,
+      },
+      stream: null,
+      lastEventId: null,
+      processedEventIds: new Set(),
+      restarts: 0,
+      claimTimer: null,
+      evictionTimer: null,
+    };
+    entries.set(generationId, entry);
+  }
+  return entry;
+}
+
+function notify(generationId: string) {
+  runningCache = null;
+  listeners.get(generationId)?.forEach((listener) => listener());
+  globalListeners.forEach((listener) => listener());
+}
+
+function setSnapshot(entry: GenerationEntry, patch: Partial<GenerationSnapshot>) {
+  entry.snapshot = { ...entry.snapshot, ...patch };
+  notify(entry.snapshot.generationId);
+  scheduleEviction(entry);
+}
+
+// Shown by a component here, or still streaming or running in some tab
+function isEntryInUse(entry: GenerationEntry): boolean {
+  return (listeners.get(entry.snapshot.generationId)?.size ?? 0) > 0 ||
+    !!entry.stream ||
+    !!entry.claimTimer ||
+    isGenerationInProgress(entry.snapshot.state);
+}
+
+/**
+ * Drop a generation once nothing here shows it and it has nothing left to stream, so the store
+ * doesn't grow with every finished generation. Reopening it streams it again from the server
+ */
+function scheduleEviction(entry: GenerationEntry) {
+  if (entry.evictionTimer || isEntryInUse(entry)) return;
+  entry.evictionTimer = setTimeout(() => {
+    entry.evictionTimer = null;
+    const { generationId } = entry.snapshot;
+    if (entries.get(generationId) === entry && !isEntryInUse(entry)) entries.delete(generationId);
+  }, EVICTION_DELAY_MS);
+}
+
+function setConnection(entry: GenerationEntry, patch: Partial<GenerationConnection>) {
+  setSnapshot(entry, { connection: { ...entry.snapshot.connection, ...patch } });
+}
+
+// --------------------------------------------------
+// Tab sync
+// --------------------------------------------------
+
+let channel: BroadcastChannel | null | undefined;
+
+function getChannel(): BroadcastChannel | null {
+  if (channel !== undefined) return channel;
+  if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') {
+    channel = null;
+    return channel;
+  }
+
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<SyncMessage>) => handleSyncMessage(event.data);
+  window.addEventListener('pagehide', releaseStreams);
+  // Learn about generations other tabs are streaming, for the running indicator
+  post({ type: 'sync_request', tabId });
+  return channel;
+}
+
+function post(message: SyncMessage) {
+  getChannel()?.postMessage(message);
+}
+
+function broadcastState(entry: GenerationEntry) {
+  const { generationId, workflowId, state } = entry.snapshot;
+  post({
+    type: 'state',
+    tabId,
+    generationId,
+    workflowId,
+    streamUrl: entry.streamUrl,
+    state,
+    lastEventId: entry.lastEventId,
+    streaming: !!entry.stream,
+  });
+}
+
+function cancelClaim(entry: GenerationEntry) {
+  if (entry.claimTimer) clearTimeout(entry.claimTimer);
+  entry.claimTimer = null;
+}
+
+function handleSyncMessage(message: SyncMessage) {
+  if (message.tabId === tabId) return;
+
+  switch (message.type) {
+    case 'sync_request':
+      entries.forEach((entry) => {
+        if (entry.stream) broadcastState(entry);
+      });
+      return;
+
+    case 'who_streams': {
+      // A finished generation is shared too, so the asking tab doesn't replay it
+      const entry = entries.get(message.generationId);
+      if (entry && (entry.stream || isGenerationFinished(entry.snapshot.state))) broadcastState(entry);
+      return;
+    }
+
+    case 'claimed': {
+      const entry = entries.get(message.generationId);
+      if (!entry) return;
+      cancelClaim(entry);
+      // Two tabs claimed at once: the lower tab id keeps the stream
+      if (entry.stream && message.tabId > tabId) return;
+      entry.stream?.close();
+      entry.stream = null;
+      setConnection(entry, { isRemote: true, isClosed: false, isConnected: false, reconnectAttempt: 0 });
+      return;
+    }
+
+    case 'released': {
+      const entry = entries.get(message.generationId);
+      if (!entry || entry.stream || !entry.streamUrl || !entry.snapshot.connection.isRemote) return;
+      if (!isGenerationInProgress(entry.snapshot.state)) return;
+      entry.lastEventId = message.lastEventId ?? entry.lastEventId;
+      cancelClaim(entry);
+      entry.claimTimer = setTimeout(() => {
+        entry.claimTimer = null;
+        // The mirrored state was built from events this tab never saw, so without an id to resume
+        // after, the replay has to start from an empty state or every event would be applied twice
+        if (!entry.lastEventId) startOver(entry);
+        openStream(entry, entry.lastEventId);
+      }, Math.random() * TAKEOVER_JITTER_MS);
+      return;
+    }
+
+    case 'state': {
+      const entry = getEntry(message.generationId);
+      entry.streamUrl = entry.streamUrl ?? message.streamUrl;
+      entry.lastEventId = message.lastEventId ?? entry.lastEventId;
+      const patch: Partial<GenerationSnapshot> = {
+        state: message.state,
+        workflowId: entry.snapshot.workflowId ?? message.workflowId,
+      };
+      if (message.streaming && !entry.stream) {
+        cancelClaim(entry);
+        patch.connection = {
+          ...entry.snapshot.connection,
+          isRemote: true,
+          isClosed: false,
+          isConnected: false,
+          reconnectAttempt: 0,
+        };
+      } else if (!entry.stream && entry.claimTimer && isGenerationFinished(message.state)) {
+        cancelClaim(entry);
+        patch.connection = { ...entry.snapshot.connection, isClosed: true };
+      }
+      setSnapshot(entry, patch);
+      return;
+    }
+  }
+}
+
+// The owner is going away: hand each live stream over to whichever tab picks it up
+function releaseStreams() {
+  entries.forEach((entry) => {
+    if (!entry.stream) return;
+    post({ type: 'released', tabId, generationId: entry.snapshot.generationId, lastEventId: entry.lastEventId });
+    entry.stream.close();
+    entry.stream = null;
+  });
+}
+
+// --------------------------------------------------
+// Streaming
+// --------------------------------------------------
+
+function applyStreamEvent(entry: GenerationEntry, event: SSEEvent, eventId?: string) {
+  // Heartbeats carry no id of their own (EventSource repeats the previous one), so never dedupe them
+  if (!isSSESystemEvent(event) || event.type !== 'heartbeat') {
+    // Prefer the server-assigned id so replays after a reconnect are ignored
+    const key = eventId ?? `${isSSEStepEvent(event) ? event.step : event.type}_${Date.now()}`;
+    if (entry.processedEventIds.has(key)) return;
+    entry.processedEventIds.add(key);
+    if (eventId) entry.lastEventId = eventId;
+  }
+
+  // Terminal events: stop the stream so it isn't treated as a dropped connection
+  if (isTerminalEvent(event)) {
+    entry.stream?.close();
+    entry.stream = null;
+    entry.snapshot = {
+      ...entry.snapshot,
+      connection: { ...entry.snapshot.connection, isConnected: false, reconnectAttempt: 0, isClosed: true },
+    };
+  }
+
+  // Validation happens in the reducer; invalid events end up in state.diagnostics
+  updateGenerationState(entry.snapshot.generationId, (state) => reduceGenerationEvent(state, event, systemClock));
+}
+
+function openStream(entry: GenerationEntry, resumeAfter: string | null) {
+  if (!entry.streamUrl) return;
+  const { generationId } = entry.snapshot;
+
+  entry.stream?.close();
+  cancelClaim(entry);
+  const url = entry.restarts > 0 ? `${entry.streamUrl}?retry=${entry.restarts}` : entry.streamUrl;
+
+  const connection = openSSEConnection(url, {
+    initialLastEventId: resumeAfter,
+    onOpen: () => setConnection(entry, { isConnected: true, error: null, reconnectAttempt: 0 }),
+    onMessage: (event: SSEEvent, eventId) => {
+      if (entry.stream === connection) applyStreamEvent(entry, event, eventId);
+    },
+    onReconnecting: (attempt, delay) => {
+      console.warn(`SSE connection lost, reconnecting (attempt ${attempt}) in ${delay}ms`);
+      setConnection(entry, { isConnected: false, reconnectAttempt: attempt });
+    },
+    onError: (err) => {
+      setConnection(entry, { error: err.message });
+      updateGenerationState(generationId, (state) => reduceGenerationEvent(
+        state,
+        { type: 'error', message: `Connection error: ${err.message}` },
+        systemClock
+      ));
+    },
+    onClose: () => {
+      if (entry.stream === connection) entry.stream = null;
+      setConnection(entry, { isConnected: false, reconnectAttempt: 0, isClosed: true });
+    },
+  });
+
+  entry.stream = connection;
+  setConnection(entry, { isRemote: false, isClosed: false, error: null });
+  post({ type: 'claimed', tabId, generationId });
+}
+
+/**
+ * Make sure the generation is streaming somewhere: in another tab if one already does,
+ * otherwise here. Does nothing once the generation's stream has ended
+ */
+export function ensureGenerationStream(generationId: string, { streamUrl, workflowId }: GenerationStreamOptions) {
+  const entry = getEntry(generationId);
+  entry.streamUrl = entry.streamUrl ?? streamUrl;
+  if (workflowId && !entry.snapshot.workflowId) setSnapshot(entry, { workflowId });
+
+  const { connection } = entry.snapshot;
+  if (entry.stream || entry.claimTimer || connection.isRemote || connection.isClosed) return;
+
+  if (!getChannel()) {
+    openStream(entry, null);
+    return;
+  }
+
+  // An owner answers with its state, which cancels the claim
+  entry.claimTimer = setTimeout(() => {
+    entry.claimTimer = null;
+    openStream(entry, null);
+  }, CLAIM_TIMEOUT_MS);
+  post({ type: 'who_streams', tabId, generationId });
+}
+
+/**
+ * Reopen the stream here (after a retry): from the start, or right after `resumeAfter`
+ * Starting over expects the caller to have reset the state
+ */
+export function restartGenerationStream(generationId: string, resumeAfter: string | null) {
+  const entry = getEntry(generationId);
+  // The retried events reuse the ids from the failed event on; ids up to `resumeAfter` stay
+  // applied so they can't be counted twice
+  if (resumeAfter === null) {
+    entry.processedEventIds.clear();
+  } else {
+    entry.processedEventIds.forEach((id) => {
+      if (Number(id) > Number(resumeAfter)) entry.processedEventIds.delete(id);
+    });
+  }
+  entry.lastEventId = resumeAfter;
+  entry.restarts += 1;
+  openStream(entry, resumeAfter);
+}
+
+/**
+ * Stop following the stream for good (e.g. the generation was cancelled)
+ */
+export function closeGenerationStream(generationId: string) {
+  const entry = getEntry(generationId);
+  cancelClaim(entry);
+  entry.stream?.close();
+  entry.stream = null;
+  setConnection(entry, { isConnected: false, reconnectAttempt: 0, isClosed: true });
+}
+
+// --------------------------------------------------
+// State
+// --------------------------------------------------
+
+/**
+ * Change a generation's state here and in every other tab
+ */
+export function updateGenerationState(generationId: string, updater: (state: GenerationState) => GenerationState) {
+  const entry = getEntry(generationId);
+  const state = updater(entry.snapshot.state);
+  if (state === entry.snapshot.state) {
+    notify(generationId);
+    return;
+  }
+  setSnapshot(entry, { state });
+  broadcastState(entry);
+}
+
+function startOver(entry: GenerationEntry) {
+  const { generationId } = entry.snapshot;
+  entry.processedEventIds.clear();
+  updateGenerationState(generationId, () => createInitialGenerationState(generationId));
+}
+
+/**
+ * Back to an empty state; the events seen so far can be applied again
+ */
+export function resetGeneration(generationId: string) {
+  startOver(getEntry(generationId));
+}
+
+export function getGenerationSnapshot(generationId: string): GenerationSnapshot {
+  return getEntry(generationId).snapshot;
+}
+
+export function subscribeGeneration(generationId: string, listener: () => void): () => void {
+  getChannel();
+  const set = listeners.get(generationId) ?? new Set();
+  set.add(listener);
+  listeners.set(generationId, set);
+  return () => {
+    set.delete(listener);
+    if (set.size > 0) return;
+    if (listeners.get(generationId) === set) listeners.delete(generationId);
+    const entry = entries.get(generationId);
+    if (entry) scheduleEviction(entry);
+  };
+}
+
+/**
+ * Generations still in progress, in this tab or another one
+ */
+export function getRunningGenerations(): GenerationSnapshot[] {
+  if (!runningCache) {
+    runningCache = Array.from(entries.values())
+      .map((entry) => entry.snapshot)
+      .filter((snapshot) => isGenerationInProgress(snapshot.state));
+  }
+  return runningCache;
+}
+
+const NO_GENERATIONS: GenerationSnapshot[] = [];
+
+export function getServerRunningGenerations(): GenerationSnapshot[] {
+  return NO_GENERATIONS;
+}
+
+export function subscribeGenerations(listener: () => void): () => void {
+  getChannel();
+  globalListeners.add(listener);
+  return () => {
+    globalListeners.delete(listener);
+  };
+}
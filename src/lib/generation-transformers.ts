@@ -9,8 +9,6 @@ import {
   InternalWorkflowNode,
   InternalConnection,
   InternalDatabaseInfo,
-  ChatMessage,
-  SSEStepType,
   ArchitecturePlannerData,
   GenerationState,
 } from '@/types/generation';
@@ -58,14 +56,21 @@ export function parseSSEMessage(rawData: string): SSEEvent | null {
   }
 }
 
-export function transformArchitecturePlannerNodes(data: ArchitecturePlannerData): InternalWorkflowNode[] {
+/**
+ * Transform the architecture planner's node names into placeholder nodes
+ * `now` is injectable so ids are deterministic when replaying events
+ */
+export function transformArchitecturePlannerNodes(
+  data: ArchitecturePlannerData,
+  now: number = Date.now()
+): InternalWorkflowNode[] {
   // Only handle array format (new format), ignore string format
   if (typeof data.summary === 'string') {
     return [];
   }
   
   return data.summary.map((nodeName, index) => {
-    const nodeId = `node_${nodeName.toLowerCase().replace(/[^a-z0-9]/g, '_')}_${Date.now()}_${index}`;
+    const nodeId = `node_${nodeName.toLowerCase().replace(/[^a-z0-9]/g, '_')}_${now}_${index}`;
     return {
       nodeId,
       name: nodeName,
@@ -74,9 +79,6 @@ export function transformArchitecturePlannerNodes(data: ArchitecturePlannerData)
       // Infer category and icon from name
       category: inferNodeCategory(nodeName, nodeName),
       icon: inferNodeIcon(nodeName, nodeName),
-      // Generate mock inputs/outputs for now (will be replaced by real data later)
-      inputs: generateMockInputs(nodeName),
-      outputs: generateMockOutputs(nodeName),
       // Mark as architecture planner node
       isArchitecturePlanner: true,
     };
@@ -86,9 +88,12 @@ export function transformArchitecturePlannerNodes(data: ArchitecturePlannerData)
 /**
  * Transform mock node names to internal nodes for immediate user feedback
  */
-export function transformMockNodes(nodeNames: string[]): InternalWorkflowNode[] {
+export function transformMockNodes(
+  nodeNames: string[],
+  now: number = Date.now()
+): InternalWorkflowNode[] {
   return nodeNames.map((nodeName, index) => {
-    const nodeId = `mock_${nodeName.toLowerCase().replace(/[^a-z0-9]/g, '_')}_${Date.now()}_${index}`;
+    const nodeId = `mock_${nodeName.toLowerCase().replace(/[^a-z0-9]/g, '_')}_${now}_${index}`;
     return {
       nodeId,
       name: nodeName,
@@ -97,9 +102,6 @@ export function transformMockNodes(nodeNames: string[]): InternalWorkflowNode[]
       // Infer category and icon from name
       category: inferNodeCategory(nodeName, nodeName),
       icon: inferNodeIcon(nodeName, nodeName),
-      // Generate mock inputs/outputs for now (will be replaced by real data later)
-      inputs: generateMockInputs(nodeName),
-      outputs: generateMockOutputs(nodeName),
       // Mark as mock node
       isMock: true,
     };
@@ -108,17 +110,16 @@ export function transformMockNodes(nodeNames: string[]): InternalWorkflowNode[]
 
 /**
  * Transform NodeSelectorData to internal nodes
- * Handles the nodeId vs id inconsistency
+ * Handles the nodeId vs id inconsistency. Silent: events are validated (and
+ * malformed ones reported as diagnostics) before they get here
  */
 export function transformNodes(data: NodeSelectorData): InternalWorkflowNode[] {
   if (!data || !data.nodes || !Array.isArray(data.nodes)) {
-    console.warn('Invalid or missing nodes data:', data);
     return [];
   }
   
   return data.nodes.map((node) => {
     if (!node || !node.nodeId) {
-      console.warn('Node missing or missing nodeId field:', node);
       return null;
     }
 
@@ -130,9 +131,9 @@ export function transformNodes(data: NodeSelectorData): InternalWorkflowNode[] {
       // Infer category and icon from name/description
       category: inferNodeCategory(node.name, node.description),
       icon: inferNodeIcon(node.name, node.description),
-      // Generate mock inputs/outputs for now (will be replaced by real data later)
-      inputs: generateMockInputs(node.name),
-      outputs: generateMockOutputs(node.name),
+      // Keep the port schemas exactly as the backend declared them
+      inputs: node.inputs || {},
+      outputs: node.outputs || {},
     };
   }).filter(Boolean) as InternalWorkflowNode[];
 }
@@ -148,22 +149,32 @@ export function transformConnections(data: ConnectionBuilderData): InternalConne
   }));
 }
 
+/**
+ * Transform DatabaseSetupData to the full list of internal database infos
+ */
+export function transformDatabases(data: DatabaseSetupData): InternalDatabaseInfo[] {
+  if (!data.databases) {
+    return [];
+  }
+
+  return data.databases.map((db) => ({
+    name: db.name,
+    link: db.link,
+  }));
+}
+
 /**
  * Transform DatabaseSetupData to internal database info
  */
 export function transformDatabaseInfo(data: DatabaseSetupData): InternalDatabaseInfo | null {
-  if (!data.databases || data.databases.length === 0) {
-    console.warn('No databases in setup data:', data);
+  const databases = transformDatabases(data);
+  if (databases.length === 0) {
     return null;
   }
 
   // Take the first database for now
   // TODO: Update UI to handle multiple databases
-  const firstDb = data.databases[0];
-  return {
-    name: firstDb.name,
-    link: firstDb.link,
-  };
+  return databases[0];
 }
 
 /**
@@ -177,8 +188,6 @@ export function updateNodeConfiguration(
   // Handle the backend bug: if nodeId is "unknown" and name/description contain stringified arrays,
   // this actually contains the real node data that should have come from node_selector
   if (data.nodeId === 'unknown' && typeof data.name === 'string' && data.name.startsWith('[')) {
-    console.warn('Backend bug detected: node data in wrong format, extracting real nodes...');
-    
     try {
       // Try to parse the stringified array from the name field
       const nodeStrings = JSON.parse(data.name);
@@ -192,11 +201,10 @@ export function updateNodeConfiguration(
       }
       
       if (extractedNodes.length > 0) {
-        console.log('Extracted nodes from malformed data:', extractedNodes);
         return extractedNodes; // Return the extracted nodes, replacing the empty array
       }
-    } catch (error) {
-      console.error('Failed to parse malformed node data:', error);
+    } catch {
+      // Not the stringified array after all: fall through to a normal update
     }
   }
 
@@ -210,11 +218,6 @@ export function updateNodeConfiguration(
         params: data.params || {},
         loop_text: data.loop_text,
         status: 'configured' as const,
-        // Convert params to inputs for display
-        inputs: {
-          ...node.inputs,
-          ...data.params,
-        },
       };
     }
     return node;
@@ -237,62 +240,6 @@ export function updateNodeStatus(
   });
 }
 
-/**
- * Create chat message from step event
- */
-export function createChatMessage(
-  event: SSEStepEvent,
-  content?: string
-): ChatMessage | null {
-  // Only show messages for certain steps and statuses
-  const showSteps: SSEStepType[] = ['database_setup'];
-  
-  if (!showSteps.includes(event.step)) {
-    return null;
-  }
-
-  // Handle error events
-  if (event.status === 'error') {
-    const errorData = event.data as any;
-    return {
-      id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      type: 'error' as const,
-      content: errorData.message || `Error in ${event.step}`,
-      timestamp: new Date(),
-      step: event.step,
-    };
-  }
-
-  // Only show completed steps
-  if (event.status !== 'done') {
-    return null;
-  }
-
-  let messageContent = content;
-  
-  // Generate content based on step and data
-  if (!messageContent) {
-    switch (event.step) {
-      case 'database_setup':
-        const dbData = event.data as DatabaseSetupData;
-        const dbCount = dbData.databases?.length || 0;
-        if (dbCount === 0) return null;
-        messageContent = `${dbCount} database${dbCount !== 1 ? 's' : ''} set up successfully`;
-        break;
-      default:
-        messageContent = `${event.step} completed`;
-    }
-  }
-
-  return {
-    id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    type: 'step' as const,
-    content: messageContent,
-    timestamp: new Date(),
-    step: event.step,
-  };
-}
-
 /**
  * Infer node category from name and description
  */
@@ -328,57 +275,6 @@ function inferNodeIcon(name: string, description: string): string {
   return 'settings';
 }
 
-/**
- * Generate mock inputs for testing (temporary)
- */
-function generateMockInputs(name: string): Record<string, any> {
-  const text = name.toLowerCase();
-  
-  if (text.includes('user') || text.includes('input')) {
-    return {
-      firstName: '{{user.firstName}}',
-      lastName: '{{user.lastName}}',
-      email: '{{user.email}}',
-    };
-  }
-  
-  if (text.includes('ai') || text.includes('reasoning')) {
-    return {
-      prompt: 'Analyze the data: {{input.data}}',
-      model: 'gpt-4',
-      temperature: 0.7,
-    };
-  }
-  
-  return {};
-}
-
-/**
- * Generate mock outputs for testing (temporary)
- */
-function generateMockOutputs(name: string): Array<{ name: string; type: string }> {
-  const text = name.toLowerCase();
-  
-  if (text.includes('user') || text.includes('input')) {
-    return [
-      { name: 'userData', type: 'Object' },
-      { name: 'isValid', type: 'Boolean' }
-    ];
-  }
-  
-  if (text.includes('ai') || text.includes('reasoning')) {
-    return [
-      { name: 'analysis', type: 'String' },
-      { name: 'confidence', type: 'Number' }
-    ];
-  }
-  
-  return [
-    { name: 'result', type: 'Object' },
-    { name: 'success', type: 'Boolean' }
-  ];
-}
-
 /**
  * Parse a malformed node string from backend (handles the backend bug)
  * Input example: "id='HttpRequestNode_62416' name='HttpRequestNode' type='HttpRequestNode' params=[...] loop_over=None"
@@ -391,7 +287,6 @@ function parseNodeString(nodeStr: string): InternalWorkflowNode | null {
     const typeMatch = nodeStr.match(/type=['"]([^'"]+)['"]/);
     
     if (!idMatch || !nameMatch || !typeMatch) {
-      console.warn('Could not parse node string:', nodeStr);
       return null;
     }
     
@@ -447,11 +342,8 @@ function parseNodeString(nodeStr: string): InternalWorkflowNode | null {
       loop_text,
       category: inferNodeCategory(name, type),
       icon: inferNodeIcon(name, type),
-      inputs: params, // Use params as inputs
-      outputs: generateMockOutputs(name),
     };
-  } catch (error) {
-    console.error('Error parsing node string:', error, nodeStr);
+  } catch {
     return null;
   }
 }
@@ -498,62 +390,6 @@ export function extractConnectionsFromNodes(nodes: InternalWorkflowNode[]): Inte
   return connections;
 }
 
-/**
- * Validate and sanitize data to prevent crashes from malformed backend data
- */
-export function sanitizeEventData(event: SSEEvent): SSEEvent {
-  if (!isSSEStepEvent(event)) {
-    return event; // System events pass through as-is
-  }
-
-  // Ensure data object exists
-  if (!event.data || typeof event.data !== 'object') {
-    console.warn('Invalid or missing data in SSE event:', event);
-    return {
-      ...event,
-      data: {} as any,
-    };
-  }
-
-  // Handle specific data validation
-  switch (event.step) {
-    case 'node_selector':
-      const nodeData = event.data as any;
-      if (!Array.isArray(nodeData.nodes)) {
-        console.warn('Invalid nodes data:', nodeData);
-        return {
-          ...event,
-          data: { nodes: [] } as NodeSelectorData,
-        };
-      }
-      break;
-
-    case 'connection_builder':
-      const connData = event.data as any;
-      if (!Array.isArray(connData.connections)) {
-        console.warn('Invalid connections data:', connData);
-        return {
-          ...event,
-          data: { connections: [] } as ConnectionBuilderData,
-        };
-      }
-      break;
-
-    case 'database_setup':
-      const dbData = event.data as any;
-      if (!Array.isArray(dbData.databases)) {
-        console.warn('Invalid databases data:', dbData);
-        return {
-          ...event,
-          data: { databases: [] } as DatabaseSetupData,
-        };
-      }
-      break;
-  }
-
-  return event;
-}
-
 /**
  * Convert internal workflow nodes to React Flow nodes
  */
@@ -576,8 +412,8 @@ export function internalNodesToReactFlowNodes(nodes: InternalWorkflowNode[]): Re
  * Convert internal connections to React Flow edges
  */
 export function internalConnectionsToReactFlowEdges(connections: InternalConnection[]): ReactFlowEdge[] {
-    return connections.map(conn => ({
-        id: conn.id,
+    return connections.map((conn, index) => ({
+        id: conn.id ?? `edge_${conn.source}_${conn.target}_${index}`,
         source: conn.source,
         target: conn.target,
         type: 'default', // Or your custom edge type
@@ -0,0 +1,79 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { describeSSEEvent, validateSSEEvent } from '@/lib/generation-validators';
+
+const FIXTURES_DIR = path.resolve(__dirname, '../../mock-server/fixtures');
+
+function loadFixture(name: string): unknown[] {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, `${name}.json`), 'utf8'));
+}
+
+function issuesOf(raw: unknown): string[] {
+  const result = validateSSEEvent(raw);
+  expect(result.success).toBe(false);
+  return result.success === false ? result.issues : [];
+}
+
+describe('validateSSEEvent', () => {
+  it.each(['happy', 'branching'])('accepts every event in %s.json', (name) => {
+    const rejected = loadFixture(name).filter((event) => !validateSSEEvent(event).success);
+    expect(rejected).toEqual([]);
+  });
+
+  it('rejects only the malformed databases payload in error.json', () => {
+    const rejected = loadFixture('error').filter((event) => !validateSSEEvent(event).success);
+    expect(rejected.map(describeSSEEvent)).toEqual(['database_setup/done']);
+  });
+
+  it('keeps unknown fields and defaults missing step data to an empty object', () => {
+    const result = validateSSEEvent({ step: 'workflow_saver', status: 'started', trace_id: 't1' });
+    expect(result).toEqual({
+      success: true,
+      event: { step: 'workflow_saver', status: 'started', trace_id: 't1', data: {} },
+    });
+  });
+
+  it('checks step data against the schema for its step and status', () => {
+    expect(issuesOf({ step: 'connection_builder', status: 'done', data: { connections: [{ source: 'A' }] } }))
+      .toEqual(['data.connections.0.target: Required']);
+    expect(issuesOf({ step: 'node_configurator', status: 'error', data: { code: 500 } }))
+      .toEqual(['data.message: Required']);
+  });
+
+  it('rejects unknown steps, statuses and generation statuses', () => {
+    expect(issuesOf({ step: 'node_painter', status: 'done' })).toHaveLength(1);
+    expect(issuesOf({ step: 'node_selector', status: 'finished' })).toHaveLength(1);
+    expect(issuesOf({ type: 'status', status: 'DONE' })).toHaveLength(1);
+  });
+
+  it('validates nested port schemas in node_selector', () => {
+    const node = { nodeId: 'N_1', name: 'N', description: 'd' };
+    expect(validateSSEEvent({
+      step: 'node_selector',
+      status: 'done',
+      data: { nodes: [{ ...node, outputs: { rows: { type: 'array', items: { type: 'object', properties: { id: { type: 'string' } } } } } }] },
+    }).success).toBe(true);
+    expect(issuesOf({
+      step: 'node_selector',
+      status: 'done',
+      data: { nodes: [{ ...node, outputs: { rows: { type: 'array', items: { description: 'no type' } } } }] },
+    })).toEqual(['data.nodes.0.outputs.rows.items.type: Required']);
+  });
+
+  it('rejects system events of an unknown type and payloads that are not events', () => {
+    expect(issuesOf({ type: 'ping' })).toEqual(['Unknown system event type "ping"']);
+    expect(issuesOf({ message: 'hello' })).toEqual(['Event has neither a "step" nor a "type" field']);
+    expect(issuesOf([1, 2])).toEqual(['Event is not an object']);
+    expect(issuesOf(null)).toEqual(['Event is not an object']);
+  });
+});
+
+describe('describeSSEEvent', () => {
+  it('labels events by step and status, or by type', () => {
+    expect(describeSSEEvent({ step: 'database_setup', status: 'done' })).toBe('database_setup/done');
+    expect(describeSSEEvent({ step: 'database_setup' })).toBe('database_setup');
+    expect(describeSSEEvent({ type: 'status_change' })).toBe('status_change');
+    expect(describeSSEEvent('oops')).toBe('unknown');
+  });
+});
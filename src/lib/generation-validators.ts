@@ -0,0 +1,247 @@
+import { z } from 'zod';
+import {
+  GENERATION_STATUSES,
+  NodeIOSchema,
+  SSE_STEP_TYPES,
+  SSEEvent,
+  SSEStatusType,
+  SSEStepType,
+} from '@/types/generation';
+
+/**
+ * Runtime schemas for every SSE event variant declared in `types/generation.ts`.
+ * The types are compile-time only; these guard the reducer against payloads
+ * the backend (or a hand-edited fixture) gets wrong.
+ */
+
+// Started events for most steps carry an empty object
+const emptyData = z.object({}).passthrough();
+
+const architecturePlannerStartedSchema = z.object({
+  summary: z.string(),
+});
+
+const architecturePlannerDoneSchema = z.object({
+  summary: z.array(z.string()),
+});
+
+const databaseSetupDoneSchema = z.object({
+  databases: z.array(
+    z.object({
+      name: z.string(),
+      link: z.string(),
+    })
+  ),
+});
+
+// Recursive: arrays carry `items`, objects carry `properties`
+export const nodeIOSchema: z.ZodType<NodeIOSchema> = z.lazy(() =>
+  z.object({
+    type: z.string(),
+    description: z.string().optional(),
+    enum: z.array(z.union([z.string(), z.number(), z.boolean()])).optional(),
+    items: nodeIOSchema.optional(),
+    properties: z.record(nodeIOSchema).optional(),
+  }).passthrough()
+);
+
+const patchModeSchema = z.enum(['replace', 'merge']).optional();
+
+const nodeSelectorDoneSchema = z.object({
+  mode: patchModeSchema,
+  nodes: z.array(
+    z.object({
+      nodeId: z.string().min(1),
+      name: z.string(),
+      description: z.string(),
+      inputs: z.record(nodeIOSchema).optional(),
+      outputs: z.record(nodeIOSchema).optional(),
+    }).passthrough()
+  ),
+});
+
+const connectionBuilderDoneSchema = z.object({
+  mode: patchModeSchema,
+  connections: z.array(
+    z.object({
+      source: z.string().min(1),
+      target: z.string().min(1),
+    })
+  ),
+});
+
+const nodeConfiguratorSchema = z.object({
+  nodeId: z.string().min(1),
+  name: z.string(),
+  description: z.string(),
+  params: z.record(z.any()),
+  loop_text: z.string().nullable().optional(),
+});
+
+const nodeRemoverSchema = z.object({
+  nodeIds: z.array(z.string().min(1)),
+});
+
+const stepErrorSchema = z.object({
+  message: z.string(),
+  code: z.union([z.string(), z.number()]).optional(),
+  nodeId: z.string().optional(),
+  details: z.record(z.any()).optional(),
+});
+
+const stepDataSchemas: Record<SSEStepType, Record<Exclude<SSEStatusType, 'error'>, z.ZodTypeAny>> = {
+  architecture_planner: {
+    started: architecturePlannerStartedSchema,
+    done: architecturePlannerDoneSchema,
+  },
+  database_setup: {
+    started: emptyData,
+    done: databaseSetupDoneSchema,
+  },
+  node_selector: {
+    started: emptyData,
+    done: nodeSelectorDoneSchema,
+  },
+  connection_builder: {
+    started: emptyData,
+    done: connectionBuilderDoneSchema,
+  },
+  node_configurator: {
+    started: nodeConfiguratorSchema,
+    done: nodeConfiguratorSchema,
+  },
+  workflow_saver: {
+    started: emptyData,
+    done: emptyData,
+  },
+  node_remover: {
+    started: nodeRemoverSchema,
+    done: nodeRemoverSchema,
+  },
+};
+
+const stepEventSchema = z.object({
+  step: z.enum(SSE_STEP_TYPES),
+  status: z.enum(['started', 'done', 'error']),
+  data: z.record(z.any()).default({}),
+});
+
+export const generationStatusSchema = z.enum(GENERATION_STATUSES);
+
+// generation_id is optional: fixtures omit it on some events
+const systemEventSchemas: Record<string, z.AnyZodObject> = {
+  connected: z.object({
+    type: z.literal('connected'),
+    generation_id: z.string().optional(),
+    timestamp: z.string().optional(),
+  }),
+  status: z.object({
+    type: z.literal('status'),
+    status: generationStatusSchema,
+    generation_id: z.string().optional(),
+    timestamp: z.string().optional(),
+  }),
+  status_change: z.object({
+    type: z.literal('status_change'),
+    old_status: generationStatusSchema,
+    new_status: generationStatusSchema,
+    generation_id: z.string().optional(),
+    timestamp: z.string().optional(),
+  }),
+  complete: z.object({
+    type: z.literal('complete'),
+    final_status: generationStatusSchema,
+    generation_id: z.string().optional(),
+    timestamp: z.string().optional(),
+  }),
+  heartbeat: z.object({
+    type: z.literal('heartbeat'),
+    timestamp: z.string().optional(),
+    generation_id: z.string().optional(),
+  }),
+  error: z.object({
+    type: z.literal('error'),
+    message: z.string(),
+  }),
+  assistant_message: z.object({
+    type: z.literal('assistant_message'),
+    content: z.string(),
+    generation_id: z.string().optional(),
+  }),
+};
+
+/**
+ * Schema for the `data` of a step event with the given step and status
+ */
+export function getStepDataSchema(step: SSEStepType, status: SSEStatusType): z.ZodTypeAny {
+  return status === 'error' ? stepErrorSchema : stepDataSchemas[step][status];
+}
+
+export type SSEEventValidation =
+  | { success: true; event: SSEEvent }
+  | { success: false; label: string; issues: string[] };
+
+function formatIssues(error: z.ZodError, prefix?: string): string[] {
+  return error.issues.map((issue) => {
+    const path = [prefix, ...issue.path].filter((part) => part !== undefined && part !== '').join('.');
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+}
+
+/**
+ * Describe an event for diagnostics, even when it is malformed
+ */
+export function describeSSEEvent(raw: unknown): string {
+  if (!raw || typeof raw !== 'object') return 'unknown';
+  const event = raw as Record<string, unknown>;
+  if (typeof event.step === 'string') {
+    return typeof event.status === 'string' ? `${event.step}/${event.status}` : event.step;
+  }
+  if (typeof event.type === 'string') return event.type;
+  return 'unknown';
+}
+
+/**
+ * Validate a raw SSE payload against the schema of its variant
+ * Unknown fields are kept so backend additions don't get rejected
+ */
+export function validateSSEEvent(raw: unknown): SSEEventValidation {
+  const label = describeSSEEvent(raw);
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { success: false, label, issues: ['Event is not an object'] };
+  }
+
+  const event = raw as Record<string, unknown>;
+
+  if ('step' in event) {
+    const envelope = stepEventSchema.safeParse(event);
+    if (!envelope.success) {
+      return { success: false, label, issues: formatIssues(envelope.error) };
+    }
+
+    const { step, status } = envelope.data;
+    const data = getStepDataSchema(step, status).safeParse(envelope.data.data);
+    if (!data.success) {
+      return { success: false, label, issues: formatIssues(data.error, 'data') };
+    }
+
+    return { success: true, event: { ...event, data: envelope.data.data } as SSEEvent };
+  }
+
+  if (typeof event.type === 'string') {
+    const schema = systemEventSchemas[event.type];
+    if (!schema) {
+      return { success: false, label, issues: [`Unknown system event type "${event.type}"`] };
+    }
+
+    const result = schema.passthrough().safeParse(event);
+    if (!result.success) {
+      return { success: false, label, issues: formatIssues(result.error) };
+    }
+
+    return { success: true, event: event as unknown as SSEEvent };
+  }
+
+  return { success: false, label, issues: ['Event has neither a "step" nor a "type" field'] };
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_LAYOUT_OPTIONS,
+  LAYOUT_ENGINES,
+  LayoutDirection,
+  LayoutEdge,
+  LayoutEngineName,
+  LayoutNode,
+  layoutGraph,
+} from '@/lib/layout-engines';
+import { NodePosition } from '@/types/generation';
+
+const ENGINES = Object.keys(LAYOUT_ENGINES) as LayoutEngineName[];
+const DIRECTIONS: LayoutDirection[] = ['LR', 'TB'];
+
+function layoutNode(id: string, extra: Partial<LayoutNode> = {}): LayoutNode {
+  return { id, width: 280, height: 120, ...extra };
+}
+
+// Three sources fanning into one node that feeds a chain, like the branching fixture
+const NODES = ['search', 'instagram', 'tiktok', 'llm', 'sheets', 'email'].map((id) => layoutNode(id));
+const EDGES: LayoutEdge[] = [
+  { source: 'search', target: 'llm' },
+  { source: 'instagram', target: 'llm' },
+  { source: 'tiktok', target: 'llm' },
+  { source: 'llm', target: 'sheets' },
+  { source: 'sheets', target: 'email' },
+];
+
+function overlapping(nodes: LayoutNode[], positions: Record<string, NodePosition>): string[][] {
+  const pairs: string[][] = [];
+  nodes.forEach((a, i) => nodes.slice(i + 1).forEach((b) => {
+    const pa = positions[a.id];
+    const pb = positions[b.id];
+    if (pa.x < pb.x + b.width && pb.x < pa.x + a.width && pa.y < pb.y + b.height && pb.y < pa.y + a.height) {
+      pairs.push([a.id, b.id]);
+    }
+  }));
+  return pairs;
+}
+
+describe.each(ENGINES)('%s engine', (engine) => {
+  describe.each(DIRECTIONS)('direction %s', (direction) => {
+    const options = { ...DEFAULT_LAYOUT_OPTIONS, direction };
+    // Rank axis: sources come first along it
+    const rank = (position: NodePosition) => (direction === 'LR' ? position.x : position.y);
+
+    it('places every node, sources before their targets, without overlaps', async () => {
+      const positions = await layoutGraph(engine, NODES, EDGES, options);
+      expect(Object.keys(positions).sort()).toEqual(NODES.map((node) => node.id).sort());
+      EDGES.forEach(({ source, target }) => {
+        expect(rank(positions[source])).toBeLessThan(rank(positions[target]));
+      });
+      expect(overlapping(NODES, positions)).toEqual([]);
+    });
+
+    it('keeps a pinned node where the user put it and arranges the rest around it', async () => {
+      const fixed = { x: 40, y: 60 };
+      const nodes = NODES.map((node) => (node.id === 'instagram' ? { ...node, fixed } : node));
+      const positions = await layoutGraph(engine, nodes, EDGES, options);
+      expect(positions.instagram).toEqual(fixed);
+      expect(overlapping(nodes, positions)).toEqual([]);
+    });
+
+    it('lays out cycles and ignores edges to unknown nodes', async () => {
+      const nodes = [layoutNode('a'), layoutNode('b'), layoutNode('c')];
+      const positions = await layoutGraph(engine, nodes, [
+        { source: 'a', target: 'b' },
+        { source: 'b', target: 'c' },
+        { source: 'c', target: 'b' },
+        { source: 'c', target: 'missing' },
+      ], options);
+      expect(Object.keys(positions).sort()).toEqual(['a', 'b', 'c']);
+      expect(overlapping(nodes, positions)).toEqual([]);
+    });
+  });
+});
+
+describe('layoutGraph', () => {
+  it('uses each node\'s measured size for spacing', async () => {
+    const nodes = [layoutNode('a', { width: 600 }), layoutNode('b')];
+    const positions = await layoutGraph('dagre', nodes, [{ source: 'a', target: 'b' }]);
+    expect(positions.b.x - positions.a.x).toBeGreaterThanOrEqual(600 + DEFAULT_LAYOUT_OPTIONS.rankSpacing);
+  });
+
+  it('returns nothing for an empty graph', async () => {
+    await Promise.all(ENGINES.map(async (engine) => {
+      expect(await layoutGraph(engine, [], [])).toEqual({});
+    }));
+  });
+});
@@ -0,0 +1,276 @@
+import dagre from 'dagre';
+import { flextree } from 'd3-flextree';
+import type { ELK } from 'elkjs/lib/elk-api';
+import { NodePosition } from '@/types/generation';
+
+/**
+ * Auto-layout behind one interface so the canvas can switch algorithms.
+ * Engines get measured node sizes and return top-left positions, as React Flow expects
+ */
+
+export type LayoutEngineName = 'dagre' | 'flextree' | 'elk';
+
+// LR: sources on the left, TB: sources on top
+export type LayoutDirection = 'LR' | 'TB';
+
+export interface LayoutNode {
+  id: string;
+  width: number;
+  height: number;
+  // Pinned by the user: stays here, the rest of the graph is arranged around it
+  fixed?: NodePosition;
+}
+
+export interface LayoutEdge {
+  source: string;
+  target: string;
+}
+
+export interface LayoutOptions {
+  direction: LayoutDirection;
+  // Gap between neighbours in the same rank
+  nodeSpacing: number;
+  // Gap between ranks
+  rankSpacing: number;
+}
+
+export interface LayoutEngine {
+  name: LayoutEngineName;
+  label: string;
+  layout(nodes: LayoutNode[], edges: LayoutEdge[], options: LayoutOptions): Promise<Record<string, NodePosition>>;
+}
+
+export const DEFAULT_LAYOUT_OPTIONS: LayoutOptions = {
+  direction: 'LR',
+  nodeSpacing: 100,
+  rankSpacing: 150,
+};
+
+// Until React Flow has measured a node (matches the widest WorkflowGenerationNode)
+export const FALLBACK_NODE_SIZE = { width: 280, height: 120 };
+
+// ---------------------------------------------------------------------------
+// dagre: layered DAG layout, the original canvas behaviour
+// ---------------------------------------------------------------------------
+
+const dagreEngine: LayoutEngine = {
+  name: 'dagre',
+  label: 'Dagre',
+  async layout(nodes, edges, options) {
+    const g = new dagre.graphlib.Graph();
+    g.setDefaultEdgeLabel(() => ({}));
+    g.setGraph({ rankdir: options.direction, nodesep: options.nodeSpacing, ranksep: options.rankSpacing });
+
+    nodes.forEach((node) => g.setNode(node.id, { width: node.width, height: node.height }));
+    edges.forEach((edge) => g.setEdge(edge.source, edge.target));
+
+    dagre.layout(g);
+
+    // dagre reports centres
+    return Object.fromEntries(nodes.map((node) => {
+      const { x, y } = g.node(node.id);
+      return [node.id, { x: x - node.width / 2, y: y - node.height / 2 }];
+    }));
+  },
+};
+
+// ---------------------------------------------------------------------------
+// d3-flextree: tidy tree with variable node sizes
+// ---------------------------------------------------------------------------
+
+interface TreeDatum {
+  id: string;
+  width: number;
+  height: number;
+  children: TreeDatum[];
+}
+
+/**
+ * Spanning tree of the graph: each node hangs under the first parent that reaches it
+ * breadth-first, and a zero-size virtual root holds every entry point. Fan-in and loop-back
+ * edges are still drawn by React Flow, they just don't shape the tree
+ */
+function toSpanningTree(nodes: LayoutNode[], edges: LayoutEdge[]): TreeDatum {
+  const data = new Map(nodes.map((node) => [node.id, { ...node, children: [] as TreeDatum[] }]));
+  const outgoing = new Map(nodes.map((node) => [node.id, [] as string[]]));
+  const hasIncoming = new Set<string>();
+  edges.forEach(({ source, target }) => {
+    if (!data.has(source) || !data.has(target) || source === target) return;
+    outgoing.get(source)!.push(target);
+    hasIncoming.add(target);
+  });
+
+  const root: TreeDatum = { id: '__layout_root__', width: 0, height: 0, children: [] };
+  const visited = new Set<string>();
+
+  const attachFrom = (startId: string) => {
+    visited.add(startId);
+    root.children.push(data.get(startId)!);
+    const queue = [startId];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      outgoing.get(id)!.forEach((childId) => {
+        if (visited.has(childId)) return;
+        visited.add(childId);
+        data.get(id)!.children.push(data.get(childId)!);
+        queue.push(childId);
+      });
+    }
+  };
+
+  nodes.filter((node) => !hasIncoming.has(node.id)).forEach((node) => attachFrom(node.id));
+  // Nodes only reachable through a cycle
+  nodes.filter((node) => !visited.has(node.id)).forEach((node) => attachFrom(node.id));
+
+  return root;
+}
+
+const flextreeEngine: LayoutEngine = {
+  name: 'flextree',
+  label: 'Flextree',
+  async layout(nodes, edges, options) {
+    const horizontal = options.direction === 'LR';
+    // flextree lays out breadth along x and depth along y; LR swaps the axes
+    const layout = flextree<TreeDatum>({
+      nodeSize: ({ data }) => {
+        if (data.id === '__layout_root__') return [0, 0];
+        return horizontal
+          ? [data.height + options.nodeSpacing, data.width + options.rankSpacing]
+          : [data.width + options.nodeSpacing, data.height + options.rankSpacing];
+      },
+    });
+
+    const tree = layout.hierarchy(toSpanningTree(nodes, edges), (datum) => datum.children);
+    layout(tree);
+
+    const positions: Record<string, NodePosition> = {};
+    tree.each((node) => {
+      const { id, width, height } = node.data;
+      if (id === '__layout_root__') return;
+      positions[id] = horizontal
+        ? { x: node.y, y: node.x - height / 2 }
+        : { x: node.x - width / 2, y: node.y };
+    });
+    return positions;
+  },
+};
+
+// ---------------------------------------------------------------------------
+// ELK: layered layout with edge-crossing minimisation; loaded on first use (large bundle)
+// ---------------------------------------------------------------------------
+
+let elkInstance: Promise<ELK> | null = null;
+
+function getElk() {
+  elkInstance ??= import('elkjs/lib/elk.bundled.js').then(({ default: ELK }) => new ELK());
+  return elkInstance;
+}
+
+const elkEngine: LayoutEngine = {
+  name: 'elk',
+  label: 'ELK',
+  async layout(nodes, edges, options) {
+    const elk = await getElk();
+    const nodeIds = new Set(nodes.map((node) => node.id));
+
+    const result = await elk.layout({
+      id: 'root',
+      layoutOptions: {
+        'elk.algorithm': 'layered',
+        'elk.direction': options.direction === 'LR' ? 'RIGHT' : 'DOWN',
+        'elk.spacing.nodeNode': String(options.nodeSpacing),
+        'elk.layered.spacing.nodeNodeBetweenLayers': String(options.rankSpacing),
+      },
+      children: nodes.map((node) => ({ id: node.id, width: node.width, height: node.height })),
+      edges: edges
+        .filter((edge) => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+        .map((edge, index) => ({ id: `e${index}`, sources: [edge.source], targets: [edge.target] })),
+    });
+
+    return Object.fromEntries(
+      (result.children ?? []).map((child) => [child.id, { x: child.x ?? 0, y: child.y ?? 0 }])
+    );
+  },
+};
+
+export const LAYOUT_ENGINES: Record<LayoutEngineName, LayoutEngine> = {
+  dagre: dagreEngine,
+  flextree: flextreeEngine,
+  elk: elkEngine,
+};
+
+// ---------------------------------------------------------------------------
+// Pinned nodes
+// ---------------------------------------------------------------------------
+
+interface PlacedRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function overlaps(a: PlacedRect, b: PlacedRect, gap: number): boolean {
+  return a.x < b.x + b.width + gap && b.x < a.x + a.width + gap &&
+    a.y < b.y + b.height + gap && b.y < a.y + a.height + gap;
+}
+
+/**
+ * Fit an engine's layout around pinned nodes: the layout is shifted so pinned nodes are
+ * on average where the engine put them, pinned nodes go to their fixed spot, and free nodes
+ * that would overlap something are pushed along the rank (down for LR, right for TB)
+ */
+function constrainToPinned(
+  nodes: LayoutNode[],
+  positions: Record<string, NodePosition>,
+  options: LayoutOptions
+): Record<string, NodePosition> {
+  const pinned = nodes.filter((node) => node.fixed && positions[node.id]);
+  if (pinned.length === 0) return positions;
+
+  const dx = pinned.reduce((sum, node) => sum + node.fixed!.x - positions[node.id].x, 0) / pinned.length;
+  const dy = pinned.reduce((sum, node) => sum + node.fixed!.y - positions[node.id].y, 0) / pinned.length;
+
+  const result: Record<string, NodePosition> = {};
+  const placed: PlacedRect[] = pinned.map((node) => {
+    result[node.id] = { ...node.fixed! };
+    return { ...node.fixed!, width: node.width, height: node.height };
+  });
+
+  const horizontal = options.direction === 'LR';
+  const gap = options.nodeSpacing / 2;
+  const free = nodes
+    .filter((node) => !node.fixed && positions[node.id])
+    .map((node) => ({ node, rect: { x: positions[node.id].x + dx, y: positions[node.id].y + dy, width: node.width, height: node.height } }))
+    .sort((a, b) => (horizontal ? a.rect.y - b.rect.y : a.rect.x - b.rect.x));
+
+  free.forEach(({ node, rect }) => {
+    // Pushes only go one way, so each blocker is cleared for good and the loop ends
+    let blocker = placed.find((other) => overlaps(rect, other, gap));
+    while (blocker) {
+      if (horizontal) {
+        rect.y = blocker.y + blocker.height + gap;
+      } else {
+        rect.x = blocker.x + blocker.width + gap;
+      }
+      blocker = placed.find((other) => overlaps(rect, other, gap));
+    }
+    placed.push(rect);
+    result[node.id] = { x: rect.x, y: rect.y };
+  });
+
+  return result;
+}
+
+/**
+ * Lay out a graph with the named engine, keeping pinned (`fixed`) nodes in place
+ */
+export async function layoutGraph(
+  engineName: LayoutEngineName,
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  options: LayoutOptions = DEFAULT_LAYOUT_OPTIONS
+): Promise<Record<string, NodePosition>> {
+  const positions = await LAYOUT_ENGINES[engineName].layout(nodes, edges, options);
+  return constrainToPinned(nodes, positions, options);
+}
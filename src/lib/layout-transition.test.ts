@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { anchorLayout, animatePositions, movedNodeIds, PositionMap } from '@/lib/layout-transition';
+
+describe('anchorLayout', () => {
+  it('shifts the new layout so shared nodes stay where they were on average', () => {
+    const previous = { a: { x: 0, y: 100 }, b: { x: 300, y: 100 } };
+    // A branch added above pushed everything down by 150
+    const next = { top: { x: 300, y: 0 }, a: { x: 0, y: 250 }, b: { x: 300, y: 250 } };
+    expect(anchorLayout(previous, next)).toEqual({
+      top: { x: 300, y: -150 },
+      a: { x: 0, y: 100 },
+      b: { x: 300, y: 100 },
+    });
+  });
+
+  it('keeps the layout as it is when no node is shared', () => {
+    const next = { a: { x: 10, y: 20 } };
+    expect(anchorLayout({ b: { x: 0, y: 0 } }, next)).toBe(next);
+  });
+});
+
+describe('movedNodeIds', () => {
+  it('lists nodes that moved beyond rounding noise, leaving out new ones', () => {
+    const from = { a: { x: 0, y: 0 }, b: { x: 100, y: 0 }, c: { x: 200, y: 0 } };
+    const to = { a: { x: 0.4, y: 0 }, b: { x: 100, y: 40 }, c: { x: 200, y: 0 }, d: { x: 300, y: 0 } };
+    expect(movedNodeIds(from, to)).toEqual(['b']);
+  });
+});
+
+describe('animatePositions', () => {
+  let frames: Array<(time: number) => void>;
+
+  // Runs the queued frame at `time`, like the browser would on the next repaint
+  const runFrame = (time: number) => frames.shift()!(time);
+
+  beforeEach(() => {
+    frames = [];
+    vi.stubGlobal('requestAnimationFrame', (callback: (time: number) => void) => frames.push(callback));
+    vi.stubGlobal('cancelAnimationFrame', () => {
+      frames = [];
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const from: PositionMap = { a: { x: 0, y: 0 } };
+  const to: PositionMap = { a: { x: 100, y: 200 }, added: { x: 50, y: 50 } };
+
+  it('eases from the start to the end and resolves true', async () => {
+    const onFrame = vi.fn();
+    const done = animatePositions(from, to, { duration: 100, signal: new AbortController().signal, onFrame });
+
+    runFrame(1000);
+    runFrame(1050);
+    runFrame(1100);
+
+    await expect(done).resolves.toBe(true);
+    expect(onFrame.mock.calls.map(([positions]) => positions.a)).toEqual([
+      { x: 0, y: 0 },
+      { x: 50, y: 100 },
+      { x: 100, y: 200 },
+    ]);
+    // A node with no start position appears at its end position
+    expect(onFrame.mock.calls[0][0].added).toEqual({ x: 50, y: 50 });
+    expect(frames).toHaveLength(0);
+  });
+
+  it('stops where the last frame left the nodes when aborted', async () => {
+    const controller = new AbortController();
+    const onFrame = vi.fn();
+    const done = animatePositions(from, to, { duration: 100, signal: controller.signal, onFrame });
+
+    runFrame(0);
+    runFrame(50);
+    controller.abort();
+
+    await expect(done).resolves.toBe(false);
+    expect(onFrame).toHaveBeenCalledTimes(2);
+    expect(frames).toHaveLength(0);
+  });
+
+  it('does not start when already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const onFrame = vi.fn();
+
+    await expect(animatePositions(from, to, { duration: 100, signal: controller.signal, onFrame })).resolves.toBe(false);
+    expect(onFrame).not.toHaveBeenCalled();
+  });
+
+  it('jumps straight to the end with no duration', async () => {
+    const onFrame = vi.fn();
+    const done = animatePositions(from, to, { duration: 0, signal: new AbortController().signal, onFrame });
+    runFrame(0);
+
+    await expect(done).resolves.toBe(true);
+    expect(onFrame).toHaveBeenCalledWith(to);
+  });
+});
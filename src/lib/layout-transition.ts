@@ -0,0 +1,89 @@
+import { NodePosition } from '@/types/generation';
+
+/**
+ * Incremental layout: a fresh layout is anchored to the previous one so the graph stays put,
+ * and only nodes that actually move are animated
+ */
+
+export type PositionMap = Record<string, NodePosition>;
+
+// Smaller moves are rounding noise, not worth a frame
+const MOVE_THRESHOLD = 0.5;
+
+/**
+ * Shift `next` by the average offset of the nodes both layouts place, so e.g. a branch added
+ * above doesn't slide every existing node down the screen
+ */
+export function anchorLayout(previous: PositionMap, next: PositionMap): PositionMap {
+  const shared = Object.keys(next).filter((id) => previous[id]);
+  if (shared.length === 0) return next;
+
+  const dx = shared.reduce((sum, id) => sum + previous[id].x - next[id].x, 0) / shared.length;
+  const dy = shared.reduce((sum, id) => sum + previous[id].y - next[id].y, 0) / shared.length;
+
+  return Object.fromEntries(
+    Object.entries(next).map(([id, position]) => [id, { x: position.x + dx, y: position.y + dy }])
+  );
+}
+
+/**
+ * Ids in `to` whose position differs from `from` (nodes missing from `from` are left out)
+ */
+export function movedNodeIds(from: PositionMap, to: PositionMap): string[] {
+  return Object.keys(to).filter((id) => {
+    const start = from[id];
+    if (!start) return false;
+    return Math.abs(start.x - to[id].x) > MOVE_THRESHOLD || Math.abs(start.y - to[id].y) > MOVE_THRESHOLD;
+  });
+}
+
+const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+
+interface AnimatePositionsOptions {
+  duration: number;
+  signal: AbortSignal;
+  onFrame: (positions: PositionMap) => void;
+}
+
+/**
+ * Tween nodes from `from` to `to` on animation frames; resolves false when aborted.
+ * An aborted tween leaves nodes where its last frame put them, so the next one starts from there
+ */
+export function animatePositions(from: PositionMap, to: PositionMap, options: AnimatePositionsOptions): Promise<boolean> {
+  const { duration, signal, onFrame } = options;
+
+  return new Promise((resolve) => {
+    if (signal.aborted) {
+      resolve(false);
+      return;
+    }
+
+    let frame = 0;
+    let startTime: number | null = null;
+
+    const onAbort = () => {
+      cancelAnimationFrame(frame);
+      resolve(false);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    const step = (time: number) => {
+      startTime ??= time;
+      const progress = duration > 0 ? Math.min((time - startTime) / duration, 1) : 1;
+      const eased = easeInOutCubic(progress);
+
+      onFrame(Object.fromEntries(Object.entries(to).map(([id, end]) => {
+        const start = from[id] ?? end;
+        return [id, { x: start.x + (end.x - start.x) * eased, y: start.y + (end.y - start.y) * eased }];
+      })));
+
+      if (progress < 1) {
+        frame = requestAnimationFrame(step);
+      } else {
+        signal.removeEventListener('abort', onAbort);
+        resolve(true);
+      }
+    };
+    frame = requestAnimationFrame(step);
+  });
+}
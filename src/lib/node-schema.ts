@@ -0,0 +1,100 @@
+import { NodeIOSchema } from '@/types/generation';
+
+/**
+ * Short human-readable type for a port schema, e.g. "array<string>" or "object"
+ */
+export function formatSchemaType(schema: NodeIOSchema | undefined): string {
+  if (!schema || !schema.type) return 'any';
+
+  if (schema.type === 'array') {
+    return `array<${formatSchemaType(schema.items)}>`;
+  }
+
+  if (schema.enum && schema.enum.length > 0) {
+    return `${schema.type} enum`;
+  }
+
+  return schema.type;
+}
+
+/**
+ * Whether a schema has nested structure worth expanding in the UI
+ */
+export function hasNestedSchema(schema: NodeIOSchema | undefined): boolean {
+  if (!schema) return false;
+  if (schema.type === 'object') {
+    return !!schema.properties && Object.keys(schema.properties).length > 0;
+  }
+  if (schema.type === 'array') {
+    return hasNestedSchema(schema.items);
+  }
+  return false;
+}
+
+/**
+ * Child fields of a nested schema (object properties, or the properties of array items)
+ */
+export function getNestedFields(schema: NodeIOSchema | undefined): Record<string, NodeIOSchema> {
+  if (!schema) return {};
+  if (schema.type === 'object') return schema.properties || {};
+  if (schema.type === 'array') return getNestedFields(schema.items);
+  return {};
+}
+
+// A whole-value reference like "{{$DataSourceNode_1.file_contents}}", resolved when the workflow runs
+const TEMPLATE_REFERENCE = /^\{\{\$[^{}]+\}\}$/;
+
+/**
+ * Whether a param value is a template reference to another node's output or a variable
+ */
+export function isTemplateReference(value: unknown): boolean {
+  return typeof value === 'string' && TEMPLATE_REFERENCE.test(value.trim());
+}
+
+/**
+ * Why a param value doesn't match its input schema, or null when it does
+ * Template references stand in for any type, and params without a schema aren't checked
+ */
+export function validateParamValue(value: unknown, schema: NodeIOSchema | undefined, path = ''): string | null {
+  if (!schema || !schema.type || value === undefined || isTemplateReference(value)) return null;
+  const at = path ? ` at ${path}` : '';
+
+  if (schema.enum && schema.enum.length > 0 && !schema.enum.includes(value as string | number | boolean)) {
+    return `Expected one of ${schema.enum.join(', ')}${at}`;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return typeof value === 'string' ? null : `Expected a string${at}`;
+
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : `Expected a number${at}`;
+
+    case 'integer':
+      return Number.isInteger(value) ? null : `Expected a whole number${at}`;
+
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `Expected true or false${at}`;
+
+    case 'array': {
+      if (!Array.isArray(value)) return `Expected a list${at}`;
+      for (let index = 0; index < value.length; index++) {
+        const error = validateParamValue(value[index], schema.items, `${path}[${index}]`);
+        if (error) return error;
+      }
+      return null;
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return `Expected an object${at}`;
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        const error = validateParamValue((value as Record<string, unknown>)[key], propertySchema, path ? `${path}.${key}` : key);
+        if (error) return error;
+      }
+      return null;
+    }
+
+    default:
+      return null;
+  }
+}
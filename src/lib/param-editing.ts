@@ -0,0 +1,152 @@
+import { NodeIOSchema } from '@/types/generation';
+import { isTemplateReference, validateParamValue } from '@/lib/node-schema';
+
+/**
+ * Node param editing for the inspector: which editor a param gets, converting values to the
+ * editor's draft and back, and validating the result against the node's input schema
+ */
+
+export type ParamEditorKind = 'text' | 'prompt' | 'number' | 'boolean' | 'enum' | 'list' | 'json';
+
+// Drafts are what the editor holds: text for everything but the boolean switch
+export type ParamDraft = string | boolean;
+
+export type ParsedParam =
+  | { success: true; value: unknown }
+  | { success: false; error: string };
+
+// Params holding prose for an LLM or a message get the multiline editor
+const MULTILINE_PARAM_NAME = /prompt|body|message|template|instructions|content/i;
+const MULTILINE_MIN_LENGTH = 80;
+
+const PRIMITIVE_TYPES = new Set(['string', 'number', 'integer', 'boolean']);
+
+function valueType(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Editor for a param, from its schema (or its current value when the node has no schema for it)
+ */
+export function paramEditorKind(name: string, value: unknown, schema?: NodeIOSchema): ParamEditorKind {
+  const isLongText = typeof value === 'string' && (value.length > MULTILINE_MIN_LENGTH || value.includes('\n'));
+  // A reference can't be shown in a number field or a select
+  if (isTemplateReference(value)) return 'text';
+
+  if (schema?.enum && schema.enum.length > 0) return 'enum';
+
+  switch (schema?.type ?? valueType(value)) {
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array': {
+      const itemType = schema?.items?.type ?? valueType(Array.isArray(value) ? value[0] : undefined) ?? 'string';
+      return PRIMITIVE_TYPES.has(itemType) ? 'list' : 'json';
+    }
+    case 'object':
+      return 'json';
+    default:
+      return MULTILINE_PARAM_NAME.test(name) || isLongText ? 'prompt' : 'text';
+  }
+}
+
+/**
+ * Editor draft for a param value
+ */
+export function paramToDraft(kind: ParamEditorKind, value: unknown): ParamDraft {
+  switch (kind) {
+    case 'boolean':
+      return value === true;
+    case 'list':
+      return Array.isArray(value) ? value.map(String).join('\n') : '';
+    case 'json':
+      return value === undefined ? '' : JSON.stringify(value, null, 2);
+    default:
+      return value === undefined || value === null ? '' : String(value);
+  }
+}
+
+function parseNumber(text: string, schema?: NodeIOSchema): number | null {
+  const number = Number(text);
+  if (text === '' || !Number.isFinite(number)) return null;
+  return schema?.type === 'integer' && !Number.isInteger(number) ? null : number;
+}
+
+/**
+ * Param value for an editor draft, validated against the schema
+ * An empty number or JSON field means "unset" (value undefined)
+ */
+export function parseParamDraft(kind: ParamEditorKind, draft: ParamDraft, schema?: NodeIOSchema): ParsedParam {
+  let value: unknown;
+
+  if (typeof draft === 'boolean') {
+    value = draft;
+  } else {
+    const text = draft.trim();
+
+    switch (kind) {
+      case 'number': {
+        if (text === '') {
+          value = undefined;
+          break;
+        }
+        const number = parseNumber(text, schema);
+        if (number === null) {
+          return { success: false, error: schema?.type === 'integer' ? 'Enter a whole number' : 'Enter a number' };
+        }
+        value = number;
+        break;
+      }
+
+      case 'list': {
+        const lines = draft.split('\n').map((line) => line.trim()).filter((line) => line !== '');
+        const itemType = schema?.items?.type;
+        if (itemType === 'number' || itemType === 'integer') {
+          const numbers = lines.map((line) => (isTemplateReference(line) ? line : parseNumber(line, schema?.items)));
+          const invalidItem = numbers.findIndex((number) => number === null);
+          if (invalidItem !== -1) {
+            return { success: false, error: `Item ${invalidItem + 1} is not a ${itemType === 'integer' ? 'whole number' : 'number'}` };
+          }
+          value = numbers;
+        } else if (itemType === 'boolean') {
+          value = lines.map((line) => (line === 'true' ? true : line === 'false' ? false : line));
+        } else {
+          value = lines;
+        }
+        break;
+      }
+
+      case 'json': {
+        if (text === '') {
+          value = undefined;
+          break;
+        }
+        try {
+          value = JSON.parse(text);
+        } catch (error) {
+          return { success: false, error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+        }
+        break;
+      }
+
+      default: {
+        // Text editors also hold references for typed params; plain numbers/booleans typed there are converted
+        const number = schema?.type === 'number' || schema?.type === 'integer' ? parseNumber(text, schema) : null;
+        if (number !== null) {
+          value = number;
+        } else if (schema?.type === 'boolean' && (text === 'true' || text === 'false')) {
+          value = text === 'true';
+        } else {
+          value = draft;
+        }
+      }
+    }
+  }
+
+  const error = validateParamValue(value, schema);
+  return error ? { success: false, error } : { success: true, value };
+}
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { InternalWorkflowNode, NodePosition } from '@/types/generation';
+
+/**
+ * Pinned node positions of a generation that hasn't been saved yet, kept in localStorage so
+ * a reload doesn't lose the user's arrangement. Saved workflows keep positions on the server
+ */
+
+const STORAGE_KEY_PREFIX = 'workflow-generation-ui:positions:';
+
+const storedPositionsSchema = z.record(z.object({ x: z.number(), y: z.number() }));
+
+function storageKey(generationId: string): string {
+  return `${STORAGE_KEY_PREFIX}${generationId}`;
+}
+
+/**
+ * Positions stored for a generation, or null when there are none (or they can't be read)
+ */
+export function loadStoredNodePositions(generationId: string): Record<string, NodePosition> | null {
+  if (typeof window === 'undefined' || !generationId) return null;
+
+  try {
+    const raw = window.localStorage.getItem(storageKey(generationId));
+    if (!raw) return null;
+    const result = storedPositionsSchema.safeParse(JSON.parse(raw));
+    if (!result.success || Object.keys(result.data).length === 0) return null;
+    // zod widens fields to optional without strictNullChecks
+    return result.data as Record<string, NodePosition>;
+  } catch (error) {
+    console.warn('Could not read stored node positions:', error);
+    return null;
+  }
+}
+
+/**
+ * Store the pinned positions of `nodes`; with no pins left the entry is removed
+ */
+export function storeNodePositions(generationId: string, nodes: InternalWorkflowNode[]): void {
+  if (typeof window === 'undefined' || !generationId) return;
+
+  const positions = Object.fromEntries(
+    nodes.filter((node) => node.position).map((node) => [node.nodeId, node.position])
+  );
+
+  try {
+    if (Object.keys(positions).length === 0) {
+      window.localStorage.removeItem(storageKey(generationId));
+    } else {
+      window.localStorage.setItem(storageKey(generationId), JSON.stringify(positions));
+    }
+  } catch (error) {
+    // Storage full or disabled (private mode): pins just won't survive a reload
+    console.warn('Could not store node positions:', error);
+  }
+}
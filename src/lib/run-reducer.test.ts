@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { GenerationClock } from '@/lib/generation-reducer';
+import { createInitialRunState, reduceRunEvent } from '@/lib/run-reducer';
+import { RunEvent, WorkflowRunState } from '@/types/run';
+import { planRun, RunConnection, RunNode, topologicalOrder } from '../../mock-server/utils/workflowRun';
+
+function createFixedClock(start = Date.UTC(2024, 0, 15, 9)): GenerationClock {
+  let now = start;
+  return { now: () => now++ };
+}
+
+function runNode(nodeId: string, extra: Partial<RunNode> = {}): RunNode {
+  return { nodeId, name: `${nodeId} node`, ...extra };
+}
+
+// Fan-out and fan-in, given out of order: fetch feeds summarize and translate, both feed email
+const NODES: RunNode[] = [
+  runNode('email', { inputs: { summary: { type: 'string' } } }),
+  runNode('translate', { outputs: { text: { type: 'string' } } }),
+  runNode('fetch', { outputs: { document: { type: 'string' } } }),
+  runNode('summarize', { inputs: { document: { type: 'string' } }, outputs: { summary: { type: 'string' } } }),
+];
+const CONNECTIONS: RunConnection[] = [
+  { source: 'fetch', target: 'summarize' },
+  { source: 'fetch', target: 'translate' },
+  { source: 'summarize', target: 'email' },
+  { source: 'translate', target: 'email' },
+];
+const NODE_NAMES = Object.fromEntries(NODES.map((node) => [node.nodeId, node.name!]));
+
+// Replays a planned run the way useWorkflowRun applies the stream
+function replayRun(failNodeId?: string): WorkflowRunState {
+  const clock = createFixedClock();
+  return planRun('run_1', NODES, CONNECTIONS, { failNodeId, seed: 7 })
+    .map(({ delayMs: _delayMs, ...event }) => event as unknown as RunEvent)
+    .reduce((state, event) => reduceRunEvent(state, event, NODE_NAMES, clock), createInitialRunState());
+}
+
+describe('topologicalOrder', () => {
+  it('runs every node after its upstream nodes, ties in the order given', () => {
+    expect(topologicalOrder(NODES, CONNECTIONS)).toEqual(['fetch', 'translate', 'summarize', 'email']);
+  });
+
+  it('puts nodes caught in a cycle last and ignores unknown nodes and self-loops', () => {
+    const nodes = ['a', 'b', 'c', 'd'].map((id) => runNode(id));
+    expect(topologicalOrder(nodes, [
+      { source: 'b', target: 'c' },
+      { source: 'c', target: 'b' },
+      { source: 'a', target: 'a' },
+      { source: 'missing', target: 'd' },
+    ])).toEqual(['a', 'd', 'b', 'c']);
+  });
+});
+
+describe('reduceRunEvent', () => {
+  it('starts a run with the node order from the server', () => {
+    const state = reduceRunEvent(
+      createInitialRunState(),
+      { type: 'run_started', run_id: 'run_1', node_order: ['fetch', 'email'] },
+      {},
+      createFixedClock()
+    );
+    expect(state).toMatchObject({ runId: 'run_1', status: 'running', nodeOrder: ['fetch', 'email'] });
+    expect(state.log.map((entry) => entry.message)).toEqual(['Run started']);
+  });
+
+  describe('a successful run', () => {
+    const state = replayRun();
+
+    it('succeeds with every node in topological order', () => {
+      expect(state.status).toBe('succeeded');
+      expect(state.nodeOrder).toEqual(['fetch', 'translate', 'summarize', 'email']);
+      expect(Object.values(state.nodes).every((node) => node.status === 'succeeded')).toBe(true);
+    });
+
+    it('passes upstream outputs into downstream inputs', () => {
+      expect(state.nodes.summarize.input).toEqual({ document: state.nodes.fetch.output!.document });
+      expect(state.nodes.email.input).toEqual({ summary: state.nodes.summarize.output!.summary });
+    });
+
+    it('logs transitions in run order, leaving out queued ones', () => {
+      const succeeded = state.log.filter((entry) => entry.status === 'succeeded' && entry.nodeId);
+      expect(succeeded.map((entry) => entry.nodeId)).toEqual(state.nodeOrder);
+      expect(state.log.some((entry) => entry.status === 'queued')).toBe(false);
+      expect(state.log[state.log.length - 1].message).toBe(`Run succeeded in ${state.durationMs}ms`);
+    });
+  });
+
+  describe('a run with a failing node', () => {
+    const state = replayRun('summarize');
+
+    it('fails the node, skips everything downstream and keeps independent branches', () => {
+      expect(state.status).toBe('failed');
+      expect(state.nodes.fetch.status).toBe('succeeded');
+      expect(state.nodes.translate.status).toBe('succeeded');
+      expect(state.nodes.summarize).toMatchObject({ status: 'failed', error: 'summarize node failed: simulated error' });
+      expect(state.nodes.email.status).toBe('skipped');
+    });
+
+    it('keeps the input from before the failure', () => {
+      expect(state.nodes.summarize.input).toEqual({ document: state.nodes.fetch.output!.document });
+    });
+
+    it('logs the failure with the node error and names the skipped node', () => {
+      expect(state.log.map((entry) => entry.message)).toContain('summarize node failed: simulated error');
+      expect(state.log.map((entry) => entry.message)).toContain('email node skipped (upstream failure)');
+      expect(state.log[state.log.length - 1].message).toBe('Run failed');
+    });
+  });
+
+  it('ignores heartbeats', () => {
+    const state = createInitialRunState();
+    expect(reduceRunEvent(state, { type: 'heartbeat', timestamp: '2024-01-15T09:00:00Z' })).toBe(state);
+  });
+});
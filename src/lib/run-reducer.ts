@@ -0,0 +1,105 @@
+import { NodeRunStatus, RunEvent, RunLogEntry, WorkflowRunState } from '@/types/run';
+import { GenerationClock, systemClock } from '@/lib/generation-reducer';
+
+/**
+ * Run state before anything has been started
+ */
+export function createInitialRunState(): WorkflowRunState {
+  return {
+    status: 'idle',
+    nodeOrder: [],
+    nodes: {},
+    log: [],
+  };
+}
+
+function appendLog(
+  state: WorkflowRunState,
+  clock: GenerationClock,
+  entry: Omit<RunLogEntry, 'id' | 'at'>
+): RunLogEntry[] {
+  const now = clock.now();
+  return [...state.log, { ...entry, id: `run_log_${now}_${state.log.length}`, at: new Date(now) }];
+}
+
+function describeNodeStatus(nodeName: string, status: NodeRunStatus, durationMs?: number, error?: string): string {
+  switch (status) {
+    case 'queued':
+      return `${nodeName} queued`;
+    case 'running':
+      return `${nodeName} running`;
+    case 'succeeded':
+      return `${nodeName} succeeded${durationMs !== undefined ? ` in ${durationMs}ms` : ''}`;
+    case 'failed':
+      return error || `${nodeName} failed`;
+    case 'skipped':
+      return `${nodeName} skipped (upstream failure)`;
+  }
+}
+
+/**
+ * Apply a single run stream event
+ * Pure, like reduceGenerationEvent; `nodeNames` only makes log lines readable
+ */
+export function reduceRunEvent(
+  state: WorkflowRunState,
+  event: RunEvent,
+  nodeNames: Record<string, string> = {},
+  clock: GenerationClock = systemClock
+): WorkflowRunState {
+  switch (event.type) {
+    case 'run_started':
+      return {
+        ...state,
+        runId: event.run_id,
+        status: 'running',
+        nodeOrder: event.node_order,
+        log: appendLog(state, clock, { status: 'running', message: 'Run started' }),
+      };
+
+    case 'node_status': {
+      const previous = state.nodes[event.nodeId];
+      const nodeName = nodeNames[event.nodeId] || event.nodeId;
+      // Queued lines would just repeat the node list, so only the later transitions are logged
+      const log = event.status === 'queued'
+        ? state.log
+        : appendLog(state, clock, {
+            nodeId: event.nodeId,
+            status: event.status,
+            message: describeNodeStatus(nodeName, event.status, event.duration_ms, event.error),
+          });
+
+      return {
+        ...state,
+        nodes: {
+          ...state.nodes,
+          [event.nodeId]: {
+            ...previous,
+            status: event.status,
+            input: event.input ?? previous?.input,
+            output: event.output ?? previous?.output,
+            durationMs: event.duration_ms ?? previous?.durationMs,
+            error: event.error ?? previous?.error,
+          },
+        },
+        log,
+      };
+    }
+
+    case 'run_completed':
+      return {
+        ...state,
+        status: event.status,
+        durationMs: event.duration_ms,
+        log: appendLog(state, clock, {
+          status: event.status,
+          message: event.status === 'succeeded'
+            ? `Run succeeded in ${event.duration_ms}ms`
+            : 'Run failed',
+        }),
+      };
+
+    default:
+      return state;
+  }
+}
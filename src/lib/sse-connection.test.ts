@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { openSSEConnection, SSEConnectionOptions } from '@/lib/sse-connection';
+
+// Minimal EventSource the tests drive by hand; every instance is kept in `sources`
+class FakeEventSource {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 2;
+
+  readyState = FakeEventSource.CONNECTING;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string; lastEventId: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(readonly url: string) {
+    sources.push(this);
+  }
+
+  open() {
+    this.readyState = FakeEventSource.OPEN;
+    this.onopen?.();
+  }
+
+  message(data: unknown, lastEventId = '') {
+    this.onmessage?.({ data: JSON.stringify(data), lastEventId });
+  }
+
+  // The network dropped: the browser would retry on its own
+  drop() {
+    this.readyState = FakeEventSource.CONNECTING;
+    this.onerror?.();
+  }
+
+  // The server answered with no stream (e.g. 204 once it is exhausted)
+  refuse() {
+    this.readyState = FakeEventSource.CLOSED;
+    this.onerror?.();
+  }
+
+  close() {
+    this.readyState = FakeEventSource.CLOSED;
+  }
+}
+
+let sources: FakeEventSource[] = [];
+const latest = () => sources[sources.length - 1];
+
+const STREAM_URL = '/generations/gen_1/stream';
+
+function connect(options: SSEConnectionOptions = {}) {
+  const callbacks = {
+    onMessage: vi.fn(),
+    onError: vi.fn(),
+    onOpen: vi.fn(),
+    onClose: vi.fn(),
+    onReconnecting: vi.fn(),
+  };
+  const connection = openSSEConnection(STREAM_URL, { ...callbacks, ...options });
+  return { connection, ...callbacks };
+}
+
+describe('openSSEConnection', () => {
+  beforeEach(() => {
+    sources = [];
+    vi.useFakeTimers();
+    vi.stubGlobal('EventSource', FakeEventSource);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('passes parsed messages and their ids through', () => {
+    const { connection, onOpen, onMessage } = connect();
+    latest().open();
+    latest().message({ step: 'node_selector' }, '3');
+
+    expect(onOpen).toHaveBeenCalledTimes(1);
+    expect(onMessage).toHaveBeenCalledWith({ step: 'node_selector' }, '3');
+    expect(connection.lastEventId()).toBe('3');
+  });
+
+  it('resumes after the last event id on reconnect', () => {
+    const { connection } = connect();
+    expect(latest().url).toBe(STREAM_URL);
+    latest().open();
+    latest().message({}, '7');
+    latest().drop();
+
+    vi.advanceTimersByTime(1000);
+    expect(sources).toHaveLength(2);
+    expect(latest().url).toBe(`${STREAM_URL}?lastEventId=7`);
+    expect(connection.lastEventId()).toBe('7');
+  });
+
+  it('starts from the initial event id and appends it to an existing query', () => {
+    openSSEConnection(`${STREAM_URL}?tab=a`, { initialLastEventId: 'step 4' });
+    expect(latest().url).toBe(`${STREAM_URL}?tab=a&lastEventId=step%204`);
+  });
+
+  it('backs off exponentially up to the maximum delay, then gives up', () => {
+    const { onReconnecting, onError, onClose } = connect({ maxRetries: 4, initialRetryDelay: 1000, maxRetryDelay: 5000 });
+
+    for (let attempt = 0; attempt < 4; attempt++) {
+      latest().drop();
+      vi.runOnlyPendingTimers();
+    }
+    expect(onReconnecting.mock.calls).toEqual([[1, 1000], [2, 2000], [3, 4000], [4, 5000]]);
+    expect(sources).toHaveLength(5);
+
+    latest().drop();
+    expect(onError).toHaveBeenCalledWith(new Error('SSE connection error'));
+    expect(onClose).toHaveBeenCalledTimes(1);
+    vi.runOnlyPendingTimers();
+    expect(sources).toHaveLength(5);
+  });
+
+  it('waits the full delay before reconnecting', () => {
+    connect();
+    latest().drop();
+    vi.advanceTimersByTime(999);
+    expect(sources).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(sources).toHaveLength(2);
+  });
+
+  it('starts the backoff over once a reconnect opens', () => {
+    const { onReconnecting } = connect();
+    latest().drop();
+    vi.runOnlyPendingTimers();
+    latest().drop();
+    vi.runOnlyPendingTimers();
+    latest().open();
+    latest().drop();
+
+    expect(onReconnecting.mock.calls).toEqual([[1, 1000], [2, 2000], [1, 1000]]);
+  });
+
+  it('closes without an error when the server refuses a resumed stream', () => {
+    const { onError, onClose, onReconnecting } = connect({ initialLastEventId: '12' });
+    latest().refuse();
+
+    expect(onError).not.toHaveBeenCalled();
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(onReconnecting).not.toHaveBeenCalled();
+  });
+
+  it('reports a refused first connection as an error', () => {
+    const { onError, onClose } = connect();
+    latest().refuse();
+
+    expect(onError).toHaveBeenCalledWith(new Error('SSE connection refused'));
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops for good when closed, including a pending reconnect', () => {
+    const { connection, onReconnecting, onClose } = connect();
+    latest().drop();
+    connection.close();
+    vi.runOnlyPendingTimers();
+
+    expect(onReconnecting).toHaveBeenCalledTimes(1);
+    expect(sources).toHaveLength(1);
+    expect(onClose).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,121 @@
+export interface SSEConnectionOptions {
+  onMessage?: (data: any, eventId?: string) => void;
+  onError?: (error: Error) => void;
+  onOpen?: () => void;
+  onClose?: () => void;
+  onReconnecting?: (attempt: number, delay: number) => void;
+  // Event id the first connection resumes after (e.g. a retried step)
+  initialLastEventId?: string | null;
+  // Reconnection tuning (exponential backoff)
+  maxRetries?: number;
+  initialRetryDelay?: number;
+  maxRetryDelay?: number;
+}
+
+export interface SSEConnection {
+  // Stop for good: no reconnect, no more callbacks
+  close: () => void;
+  // Last event id received (or the initial one), for resuming elsewhere
+  lastEventId: () => string | null;
+}
+
+const DEFAULT_MAX_RETRIES = 6;
+const DEFAULT_INITIAL_RETRY_DELAY = 1000;
+const DEFAULT_MAX_RETRY_DELAY = 30000;
+
+/**
+ * Append the last seen event id to the stream URL. EventSource does not let us
+ * set the Last-Event-ID header on a fresh connection, so the server accepts it
+ * as a query param as well.
+ */
+function withLastEventId(url: string, lastEventId: string | null): string {
+  if (!lastEventId) return url;
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}lastEventId=${encodeURIComponent(lastEventId)}`;
+}
+
+/**
+ * Open an EventSource that reconnects with exponential backoff and resumes after the last
+ * event id it saw. Usable outside React (see useSSE for the hook)
+ */
+export function openSSEConnection(url: string, options: SSEConnectionOptions = {}): SSEConnection {
+  const {
+    maxRetries = DEFAULT_MAX_RETRIES,
+    initialRetryDelay = DEFAULT_INITIAL_RETRY_DELAY,
+    maxRetryDelay = DEFAULT_MAX_RETRY_DELAY,
+  } = options;
+
+  let eventSource: EventSource | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+  let lastEventId: string | null = options.initialLastEventId ?? null;
+  let attempt = 0;
+
+  const connect = () => {
+    const source = new EventSource(withLastEventId(url, lastEventId));
+    eventSource = source;
+
+    source.onopen = () => {
+      attempt = 0;
+      options.onOpen?.();
+    };
+
+    source.onmessage = (event) => {
+      if (event.lastEventId) {
+        lastEventId = event.lastEventId;
+      }
+      try {
+        const data = JSON.parse(event.data);
+        options.onMessage?.(data, event.lastEventId || undefined);
+      } catch (err) {
+        console.error('Failed to parse SSE message:', err);
+      }
+    };
+
+    source.onerror = () => {
+      // CLOSED means the server refused the connection (e.g. 204 once the
+      // stream is exhausted); CONNECTING means the network dropped
+      const refused = source.readyState === EventSource.CLOSED;
+
+      // We manage retries ourselves so the Last-Event-ID survives the reconnect
+      source.close();
+
+      // The consumer closed the stream on purpose (e.g. generation complete)
+      if (closed) return;
+
+      if (refused) {
+        if (!lastEventId) {
+          options.onError?.(new Error('SSE connection refused'));
+        }
+        options.onClose?.();
+        return;
+      }
+
+      if (attempt >= maxRetries) {
+        options.onError?.(new Error('SSE connection error'));
+        options.onClose?.();
+        return;
+      }
+
+      attempt += 1;
+      const delay = Math.min(initialRetryDelay * 2 ** (attempt - 1), maxRetryDelay);
+      options.onReconnecting?.(attempt, delay);
+      retryTimer = setTimeout(connect, delay);
+    };
+  };
+
+  connect();
+
+  return {
+    close: () => {
+      closed = true;
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+      }
+      eventSource?.close();
+      eventSource = null;
+    },
+    lastEventId: () => lastEventId,
+  };
+}
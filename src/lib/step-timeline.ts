@@ -0,0 +1,194 @@
+import {
+  ArchitecturePlannerData,
+  ConnectionBuilderData,
+  DatabaseSetupData,
+  GenerationStepEntry,
+  NodeConfiguratorData,
+  NodeRemoverData,
+  NodeSelectorData,
+  SSEErrorData,
+  SSEStepEvent,
+  SSEStepType,
+} from '@/types/generation';
+
+/**
+ * Step timeline for the chat: every started/done (or error) pair of a step becomes one entry
+ * with a title, a summary of the payload, its duration and the nodes it touched
+ */
+
+export const STEP_LABELS: Record<SSEStepType, string> = {
+  architecture_planner: 'Planning the workflow',
+  database_setup: 'Setting up databases',
+  node_selector: 'Selecting nodes',
+  connection_builder: 'Building connections',
+  node_configurator: 'Configuring',
+  workflow_saver: 'Saving the workflow',
+  node_remover: 'Removing nodes',
+};
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function stepTitle(event: SSEStepEvent): string {
+  if (event.step === 'node_configurator') {
+    const name = (event.data as NodeConfiguratorData)?.name;
+    return name ? `${STEP_LABELS.node_configurator} ${name}` : `${STEP_LABELS.node_configurator} a node`;
+  }
+  return STEP_LABELS[event.step];
+}
+
+/**
+ * One-line description of what a finished step produced
+ */
+export function summarizeStepEvent(event: SSEStepEvent): string | undefined {
+  switch (event.step) {
+    case 'architecture_planner': {
+      const { summary } = event.data as ArchitecturePlannerData;
+      return Array.isArray(summary) ? `Planned ${plural(summary.length, 'step')}` : undefined;
+    }
+    case 'database_setup': {
+      const count = (event.data as DatabaseSetupData).databases?.length ?? 0;
+      return count > 0 ? `Set up ${plural(count, 'database')}` : 'No databases needed';
+    }
+    case 'node_selector': {
+      const { nodes, mode } = event.data as NodeSelectorData;
+      return `${mode === 'merge' ? 'Added' : 'Selected'} ${plural(nodes?.length ?? 0, 'node')}`;
+    }
+    case 'connection_builder': {
+      const { connections, mode } = event.data as ConnectionBuilderData;
+      return `${mode === 'merge' ? 'Added' : 'Built'} ${plural(connections?.length ?? 0, 'connection')}`;
+    }
+    case 'node_configurator': {
+      const { params } = event.data as NodeConfiguratorData;
+      return `Set ${plural(Object.keys(params ?? {}).length, 'param')}`;
+    }
+    case 'node_remover':
+      return `Removed ${plural((event.data as NodeRemoverData).nodeIds?.length ?? 0, 'node')}`;
+    case 'workflow_saver':
+      return 'Workflow saved';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Nodes a step event is about, for focusing them on the canvas
+ * (planner placeholders and removed nodes can't be focused, so they are left out)
+ */
+export function stepEventNodeIds(event: SSEStepEvent): string[] {
+  if (event.status === 'error') {
+    const { nodeId } = event.data as SSEErrorData;
+    return nodeId ? [nodeId] : [];
+  }
+
+  switch (event.step) {
+    case 'node_selector':
+      return ((event.data as NodeSelectorData).nodes ?? []).map((node) => node.nodeId);
+    case 'connection_builder': {
+      const connections = (event.data as ConnectionBuilderData).connections ?? [];
+      return [...new Set(connections.flatMap((connection) => [connection.source, connection.target]))];
+    }
+    case 'node_configurator': {
+      const { nodeId } = event.data as NodeConfiguratorData;
+      return nodeId ? [nodeId] : [];
+    }
+    default:
+      return [];
+  }
+}
+
+// node_configurator runs once per node, so its pairs are told apart by nodeId
+function stepEventKey(event: SSEStepEvent): string | undefined {
+  const nodeId = (event.data as { nodeId?: string })?.nodeId;
+  return event.step === 'node_configurator' ? nodeId : undefined;
+}
+
+/**
+ * Apply a step event to the timeline: `started` opens an entry, `done`/`error` closes the
+ * matching open one (or adds a finished entry when its start was never seen)
+ * `added` is the entry that was created, if any
+ */
+export function applyStepToTimeline(
+  timeline: GenerationStepEntry[],
+  event: SSEStepEvent,
+  now: number
+): { timeline: GenerationStepEntry[]; added?: GenerationStepEntry } {
+  const key = stepEventKey(event);
+  const at = new Date(now);
+
+  if (event.status === 'started') {
+    const entry: GenerationStepEntry = {
+      id: `step_${now}_${timeline.length}`,
+      step: event.step,
+      status: 'running',
+      title: stepTitle(event),
+      nodeId: key,
+      nodeIds: stepEventNodeIds(event),
+      startedAt: at,
+      data: event.data,
+    };
+    return { timeline: [...timeline, entry], added: entry };
+  }
+
+  const finished: Partial<GenerationStepEntry> = event.status === 'error'
+    ? { status: 'error', error: (event.data as SSEErrorData)?.message || `Error in ${event.step}` }
+    : { status: 'done', summary: summarizeStepEvent(event) };
+  const nodeIds = stepEventNodeIds(event);
+
+  let openIndex = -1;
+  for (let index = timeline.length - 1; index >= 0; index--) {
+    const entry = timeline[index];
+    if (entry.step === event.step && entry.status === 'running' && (key === undefined || entry.nodeId === key)) {
+      openIndex = index;
+      break;
+    }
+  }
+
+  if (openIndex === -1) {
+    const entry: GenerationStepEntry = {
+      id: `step_${now}_${timeline.length}`,
+      step: event.step,
+      title: stepTitle(event),
+      nodeId: key,
+      nodeIds,
+      startedAt: at,
+      finishedAt: at,
+      data: event.data,
+      ...finished,
+    } as GenerationStepEntry;
+    return { timeline: [...timeline, entry], added: entry };
+  }
+
+  const open = timeline[openIndex];
+  const closed: GenerationStepEntry = {
+    ...open,
+    ...finished,
+    // The configurator's done event carries the node's final name
+    title: event.status === 'done' ? stepTitle(event) : open.title,
+    nodeIds: nodeIds.length > 0 ? nodeIds : open.nodeIds,
+    finishedAt: at,
+    data: event.data,
+  };
+  return { timeline: timeline.map((entry, index) => (index === openIndex ? closed : entry)) };
+}
+
+/**
+ * Entries still running when the stream ended (error, cancel) are closed as errors
+ */
+export function closeOpenSteps(timeline: GenerationStepEntry[], now: number, error: string): GenerationStepEntry[] {
+  if (!timeline.some((entry) => entry.status === 'running')) return timeline;
+  return timeline.map((entry) => (
+    entry.status === 'running' ? { ...entry, status: 'error', error, finishedAt: new Date(now) } : entry
+  ));
+}
+
+/**
+ * Duration for display, e.g. "0.4s", "12s", "1m 05s"
+ */
+export function formatStepDuration(ms: number): string {
+  if (ms < 10000) return `${(ms / 1000).toFixed(1)}s`;
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
@@ -3,4 +3,17 @@ import { twMerge } from "tailwind-merge";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
-}
\ No newline at end of file
+}
+
+/**
+ * Save text or a Blob as a file through a temporary object URL
+ */
+export function downloadFile(content: string | Blob, fileName: string, mimeType = "application/json") {
+  const blob = typeof content === "string" ? new Blob([content], { type: mimeType }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
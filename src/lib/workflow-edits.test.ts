@@ -0,0 +1,207 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialGenerationState } from '@/lib/generation-reducer';
+import {
+  applyWorkflowEdit,
+  canApplyWorkflowEdit,
+  combineWorkflowEdits,
+  createConnectionId,
+  invertWorkflowEdit,
+} from '@/lib/workflow-edits';
+import { GenerationState, InternalWorkflowNode, WorkflowEdit } from '@/types/generation';
+
+function node(nodeId: string, extra: Partial<InternalWorkflowNode> = {}): InternalWorkflowNode {
+  return { nodeId, name: nodeId, description: `${nodeId} description`, status: 'configured', ...extra };
+}
+
+// Three nodes in a chain, the middle one pinned by the user
+function createState(): GenerationState {
+  return {
+    ...createInitialGenerationState('gen_1'),
+    workflowName: 'Lead routing',
+    nodes: [
+      node('A', { params: { url: 'https://example.com' } }),
+      node('B', { position: { x: 100, y: 50 } }),
+      node('C'),
+    ],
+    connections: [
+      { source: 'A', target: 'B', id: 'edge_A_B_0' },
+      { source: 'B', target: 'C', id: 'edge_B_C_1' },
+    ],
+  };
+}
+
+// Restored connections are appended, so their order is not compared
+function withSortedConnections(state: GenerationState): GenerationState {
+  return { ...state, connections: [...state.connections].sort((a, b) => a.id!.localeCompare(b.id!)) };
+}
+
+// Applies the edit, then its inverse, and checks the state is back where it started
+function expectUndoable(state: GenerationState, edit: WorkflowEdit) {
+  const inverse = invertWorkflowEdit(state, edit);
+  expect(inverse).not.toBeNull();
+  const edited = applyWorkflowEdit(state, edit);
+  expect(edited).not.toEqual(state);
+  expect(withSortedConnections(applyWorkflowEdit(edited, inverse!))).toEqual(withSortedConnections(state));
+  return edited;
+}
+
+describe('createConnectionId', () => {
+  it('skips ids that are already taken', () => {
+    const { connections } = createState();
+    expect(createConnectionId(connections, 'A', 'C')).toBe('edge_A_C_2');
+    expect(createConnectionId([...connections, { source: 'A', target: 'C', id: 'edge_A_C_3' }], 'A', 'C'))
+      .toBe('edge_A_C_4');
+  });
+});
+
+describe('combineWorkflowEdits', () => {
+  it('returns null, the single edit or a batch', () => {
+    const move: WorkflowEdit = { type: 'move_node', nodeId: 'A', position: { x: 0, y: 0 } };
+    expect(combineWorkflowEdits([])).toBeNull();
+    expect(combineWorkflowEdits([move])).toBe(move);
+    expect(combineWorkflowEdits([move, move])).toEqual({ type: 'batch', edits: [move, move] });
+  });
+});
+
+describe('canApplyWorkflowEdit', () => {
+  const state = createState();
+
+  it('rejects edits to unknown nodes', () => {
+    expect(canApplyWorkflowEdit(state, { type: 'remove_node', nodeId: 'Z' })).toBe(false);
+    expect(canApplyWorkflowEdit(state, { type: 'move_node', nodeId: 'Z', position: { x: 0, y: 0 } })).toBe(false);
+  });
+
+  it('rejects self-loops, duplicate and dangling connections', () => {
+    const canConnect = (source: string, target: string) =>
+      canApplyWorkflowEdit(state, { type: 'add_connection', connection: { source, target } });
+    expect(canConnect('A', 'A')).toBe(false);
+    expect(canConnect('A', 'B')).toBe(false);
+    expect(canConnect('A', 'Z')).toBe(false);
+    expect(canConnect('A', 'C')).toBe(true);
+  });
+
+  it('rejects blank names and adding a node that exists', () => {
+    expect(canApplyWorkflowEdit(state, { type: 'rename_node', nodeId: 'A', name: '  ' })).toBe(false);
+    expect(canApplyWorkflowEdit(state, { type: 'rename_workflow', name: '' })).toBe(false);
+    expect(canApplyWorkflowEdit(state, { type: 'add_node', node: node('A'), index: 0, connections: [] })).toBe(false);
+  });
+
+  it('accepts a batch when any of its edits applies', () => {
+    expect(canApplyWorkflowEdit(state, {
+      type: 'batch',
+      edits: [{ type: 'remove_node', nodeId: 'Z' }, { type: 'remove_node', nodeId: 'C' }],
+    })).toBe(true);
+    expect(canApplyWorkflowEdit(state, { type: 'batch', edits: [{ type: 'remove_node', nodeId: 'Z' }] })).toBe(false);
+  });
+});
+
+describe('applyWorkflowEdit', () => {
+  it('returns the same state for an edit that does not apply', () => {
+    const state = createState();
+    expect(applyWorkflowEdit(state, { type: 'remove_connection', connectionId: 'missing' })).toBe(state);
+  });
+
+  it('removes a node together with its connections', () => {
+    const edited = applyWorkflowEdit(createState(), { type: 'remove_node', nodeId: 'B' });
+    expect(edited.nodes.map((n) => n.nodeId)).toEqual(['A', 'C']);
+    expect(edited.connections).toEqual([]);
+  });
+
+  it('gives a new connection an id that does not collide', () => {
+    const edited = applyWorkflowEdit(createState(), { type: 'add_connection', connection: { source: 'A', target: 'C' } });
+    expect(edited.connections[2]).toEqual({ source: 'A', target: 'C', id: 'edge_A_C_2' });
+  });
+
+  it('trims names', () => {
+    const edited = applyWorkflowEdit(createState(), { type: 'rename_node', nodeId: 'A', name: '  Fetch page ' });
+    expect(edited.nodes[0].name).toBe('Fetch page');
+  });
+
+  it('pins and unpins nodes with set_node_positions', () => {
+    const edited = applyWorkflowEdit(createState(), {
+      type: 'set_node_positions',
+      positions: { A: { x: 5, y: 6 }, B: null },
+    });
+    expect(edited.nodes[0].position).toEqual({ x: 5, y: 6 });
+    expect(edited.nodes[1]).not.toHaveProperty('position');
+  });
+
+  it('applies a batch in order', () => {
+    const edited = applyWorkflowEdit(createState(), {
+      type: 'batch',
+      edits: [
+        { type: 'add_connection', connection: { source: 'A', target: 'C', id: 'edge_new' } },
+        { type: 'remove_connection', connectionId: 'edge_new' },
+        { type: 'remove_node', nodeId: 'A' },
+      ],
+    });
+    expect(edited.nodes.map((n) => n.nodeId)).toEqual(['B', 'C']);
+    expect(edited.connections.map((c) => c.id)).toEqual(['edge_B_C_1']);
+  });
+});
+
+describe('invertWorkflowEdit', () => {
+  it('undoes moves, back to the drawn position for an auto-laid-out node', () => {
+    expectUndoable(createState(), { type: 'move_node', nodeId: 'B', position: { x: 300, y: 0 } });
+    const inverse = invertWorkflowEdit(createState(), {
+      type: 'move_node',
+      nodeId: 'A',
+      position: { x: 300, y: 0 },
+      previousPosition: { x: 10, y: 20 },
+    });
+    expect(inverse).toEqual({ type: 'move_node', nodeId: 'A', position: { x: 10, y: 20 } });
+  });
+
+  it('undoes adding and removing connections', () => {
+    const state = createState();
+    expectUndoable(state, { type: 'add_connection', connection: { source: 'A', target: 'C' } });
+    expectUndoable(state, { type: 'remove_connection', connectionId: 'edge_A_B_0' });
+  });
+
+  it('restores a removed node at its index with its connections', () => {
+    expectUndoable(createState(), { type: 'remove_node', nodeId: 'B' });
+  });
+
+  it('undoes param updates and renames', () => {
+    const state = createState();
+    expectUndoable(state, { type: 'update_node_params', nodeId: 'A', params: { url: 'https://example.org' } });
+    expectUndoable(state, { type: 'rename_node', nodeId: 'C', name: 'Notify' });
+    expectUndoable(state, { type: 'rename_workflow', name: 'Lead scoring' });
+  });
+
+  it('clears the workflow name when undoing the first rename', () => {
+    const { workflowName: _name, ...unnamed } = createState();
+    const inverse = invertWorkflowEdit(unnamed, { type: 'rename_workflow', name: 'First name' });
+    expect(inverse).toEqual({ type: 'rename_workflow', name: null });
+    expectUndoable(unnamed, { type: 'rename_workflow', name: 'First name' });
+  });
+
+  it('undoes pinning, unpinning nodes that had no position', () => {
+    expectUndoable(createState(), { type: 'set_node_positions', positions: { A: { x: 1, y: 2 }, B: { x: 3, y: 4 } } });
+  });
+
+  it('undoes a multi-node delete in one step, connections included', () => {
+    const state = createState();
+    const edited = expectUndoable(state, {
+      type: 'batch',
+      edits: [
+        { type: 'remove_connection', connectionId: 'edge_A_B_0' },
+        { type: 'remove_node', nodeId: 'B' },
+        { type: 'remove_node', nodeId: 'C' },
+      ],
+    });
+    expect(edited.nodes.map((n) => n.nodeId)).toEqual(['A']);
+  });
+
+  it('leaves out the inverses of batched edits that do not apply', () => {
+    const inverse = invertWorkflowEdit(createState(), {
+      type: 'batch',
+      edits: [{ type: 'remove_node', nodeId: 'Z' }, { type: 'rename_node', nodeId: 'A', name: 'Fetch' }],
+    });
+    expect(inverse).toEqual({ type: 'batch', edits: [{ type: 'rename_node', nodeId: 'A', name: 'A' }] });
+  });
+
+  it('returns null for an edit that does not apply', () => {
+    expect(invertWorkflowEdit(createState(), { type: 'remove_node', nodeId: 'Z' })).toBeNull();
+  });
+});
@@ -0,0 +1,255 @@
+import {
+  GenerationState,
+  InternalConnection,
+  WorkflowEdit,
+} from '@/types/generation';
+
+/**
+ * Connection id that doesn't collide with an existing one
+ * Follows the `edge_<source>_<target>_<n>` shape used by transformConnections
+ */
+export function createConnectionId(
+  connections: InternalConnection[],
+  source: string,
+  target: string
+): string {
+  const taken = new Set(connections.map((connection) => connection.id));
+  let index = connections.length;
+  while (taken.has(`edge_${source}_${target}_${index}`)) {
+    index++;
+  }
+  return `edge_${source}_${target}_${index}`;
+}
+
+/**
+ * One edit for what a single user action did: the edit itself, a batch, or null for nothing
+ */
+export function combineWorkflowEdits(edits: WorkflowEdit[]): WorkflowEdit | null {
+  if (edits.length === 0) return null;
+  return edits.length === 1 ? edits[0] : { type: 'batch', edits };
+}
+
+/**
+ * Whether an edit would change the workflow (unknown nodes, duplicates and self-loops are rejected)
+ */
+export function canApplyWorkflowEdit(state: GenerationState, edit: WorkflowEdit): boolean {
+  const hasNode = (nodeId: string) => state.nodes.some((node) => node.nodeId === nodeId);
+
+  switch (edit.type) {
+    case 'move_node':
+    case 'remove_node':
+    case 'update_node_params':
+      return hasNode(edit.nodeId);
+
+    case 'rename_node':
+      return hasNode(edit.nodeId) && edit.name.trim() !== '';
+
+    case 'add_node':
+      return !hasNode(edit.node.nodeId);
+
+    case 'rename_workflow':
+      return edit.name === null ? state.workflowName !== undefined : edit.name.trim() !== '';
+
+    case 'set_node_positions':
+      return Object.keys(edit.positions).some(hasNode);
+
+    case 'add_connection': {
+      const { source, target } = edit.connection;
+      return source !== target &&
+        hasNode(source) &&
+        hasNode(target) &&
+        !state.connections.some((connection) => connection.source === source && connection.target === target);
+    }
+
+    case 'remove_connection':
+      return state.connections.some((connection) => connection.id === edit.connectionId);
+
+    // Edits before the first one that applies leave the state as it is, so checking each against
+    // the current state is enough
+    case 'batch':
+      return edit.edits.some((batched) => canApplyWorkflowEdit(state, batched));
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Apply a user edit to the generated workflow
+ * Pure: returns `state` unchanged when the edit doesn't apply
+ */
+export function applyWorkflowEdit(state: GenerationState, edit: WorkflowEdit): GenerationState {
+  if (!canApplyWorkflowEdit(state, edit)) return state;
+
+  switch (edit.type) {
+    case 'move_node':
+      return {
+        ...state,
+        nodes: state.nodes.map((node) =>
+          node.nodeId === edit.nodeId ? { ...node, position: { ...edit.position } } : node
+        ),
+      };
+
+    case 'add_connection': {
+      const { source, target, id } = edit.connection;
+      return {
+        ...state,
+        connections: [
+          ...state.connections,
+          { source, target, id: id || createConnectionId(state.connections, source, target) },
+        ],
+      };
+    }
+
+    case 'remove_connection':
+      return {
+        ...state,
+        connections: state.connections.filter((connection) => connection.id !== edit.connectionId),
+      };
+
+    case 'add_node': {
+      const nodes = [...state.nodes];
+      nodes.splice(Math.min(Math.max(edit.index, 0), nodes.length), 0, edit.node);
+      const existingIds = new Set(state.connections.map((connection) => connection.id));
+      return {
+        ...state,
+        nodes,
+        connections: [
+          ...state.connections,
+          ...edit.connections.filter((connection) => !existingIds.has(connection.id)),
+        ],
+      };
+    }
+
+    case 'remove_node':
+      // Dangling connections go with the node
+      return {
+        ...state,
+        nodes: state.nodes.filter((node) => node.nodeId !== edit.nodeId),
+        connections: state.connections.filter(
+          (connection) => connection.source !== edit.nodeId && connection.target !== edit.nodeId
+        ),
+      };
+
+    case 'update_node_params':
+      return {
+        ...state,
+        nodes: state.nodes.map((node) =>
+          node.nodeId === edit.nodeId ? { ...node, params: edit.params } : node
+        ),
+      };
+
+    case 'rename_node':
+      return {
+        ...state,
+        nodes: state.nodes.map((node) =>
+          node.nodeId === edit.nodeId ? { ...node, name: edit.name.trim() } : node
+        ),
+      };
+
+    case 'rename_workflow': {
+      if (edit.name !== null) return { ...state, workflowName: edit.name.trim() };
+      const { workflowName: _cleared, ...unnamedState } = state;
+      return unnamedState;
+    }
+
+    case 'set_node_positions':
+      return {
+        ...state,
+        nodes: state.nodes.map((node) => {
+          if (!(node.nodeId in edit.positions)) return node;
+          const position = edit.positions[node.nodeId];
+          if (position) return { ...node, position: { ...position } };
+          const { position: _unpinned, ...unpinnedNode } = node;
+          return unpinnedNode;
+        }),
+      };
+
+    case 'batch':
+      return edit.edits.reduce((current, batched) => applyWorkflowEdit(current, batched), state);
+
+    default:
+      return state;
+  }
+}
+
+/**
+ * The edit that undoes `edit`, computed against the state *before* it is applied
+ * Returns null when the edit doesn't apply or there is nothing to restore
+ */
+export function invertWorkflowEdit(state: GenerationState, edit: WorkflowEdit): WorkflowEdit | null {
+  if (!canApplyWorkflowEdit(state, edit)) return null;
+
+  const findNode = (nodeId: string) => state.nodes.find((node) => node.nodeId === nodeId);
+
+  switch (edit.type) {
+    case 'move_node': {
+      const previous = findNode(edit.nodeId)?.position ?? edit.previousPosition;
+      return previous ? { type: 'move_node', nodeId: edit.nodeId, position: previous } : null;
+    }
+
+    case 'add_connection': {
+      // Resolve the id the connection will get so undo removes exactly that one
+      const { source, target, id } = edit.connection;
+      return {
+        type: 'remove_connection',
+        connectionId: id || createConnectionId(state.connections, source, target),
+      };
+    }
+
+    case 'remove_connection': {
+      const connection = state.connections.find((candidate) => candidate.id === edit.connectionId);
+      return connection ? { type: 'add_connection', connection } : null;
+    }
+
+    case 'add_node':
+      return { type: 'remove_node', nodeId: edit.node.nodeId };
+
+    case 'remove_node': {
+      const index = state.nodes.findIndex((node) => node.nodeId === edit.nodeId);
+      return {
+        type: 'add_node',
+        node: state.nodes[index],
+        index,
+        connections: state.connections.filter(
+          (connection) => connection.source === edit.nodeId || connection.target === edit.nodeId
+        ),
+      };
+    }
+
+    case 'update_node_params':
+      return { type: 'update_node_params', nodeId: edit.nodeId, params: findNode(edit.nodeId)?.params ?? {} };
+
+    case 'rename_node': {
+      const node = findNode(edit.nodeId);
+      return node ? { type: 'rename_node', nodeId: edit.nodeId, name: node.name } : null;
+    }
+
+    case 'rename_workflow':
+      return { type: 'rename_workflow', name: state.workflowName || null };
+
+    case 'set_node_positions':
+      return {
+        type: 'set_node_positions',
+        positions: Object.fromEntries(
+          state.nodes
+            .filter((node) => node.nodeId in edit.positions)
+            .map((node) => [node.nodeId, node.position ?? null])
+        ),
+      };
+
+    case 'batch': {
+      // Each inverse is computed against the state its edit applies to, and they run in reverse
+      const inverses: WorkflowEdit[] = [];
+      edit.edits.reduce((current, batched) => {
+        const inverse = invertWorkflowEdit(current, batched);
+        if (inverse) inverses.unshift(inverse);
+        return applyWorkflowEdit(current, batched);
+      }, state);
+      return inverses.length > 0 ? { type: 'batch', edits: inverses } : null;
+    }
+
+    default:
+      return null;
+  }
+}
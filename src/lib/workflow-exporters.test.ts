@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialGenerationState } from '@/lib/generation-reducer';
+import { exportToMermaid, exportToN8n } from '@/lib/workflow-exporters';
+import { GenerationState, InternalWorkflowNode } from '@/types/generation';
+
+function node(nodeId: string, name: string, extra: Partial<InternalWorkflowNode> = {}): InternalWorkflowNode {
+  return { nodeId, name, description: `${name} description`, status: 'configured', ...extra };
+}
+
+// Names full of characters that mean something in Mermaid, YAML or JSON
+function createState(): GenerationState {
+  return {
+    ...createInitialGenerationState('gen_1'),
+    workflowName: 'Leads: "hot" #1',
+    nodes: [
+      node('WebhookReceiverNode_1', 'Receive <lead>', { params: { path: 'leads' } }),
+      node('LeadScoringNode_2', 'Score "lead" [v2]\nfast', { params: { threshold: 0.8 }, loop_text: 'for each lead in {{$leads}}' }),
+      node('SendSlackMessageNode_3', 'Notify #sales; team', { params: { channel: '#sales', message: 'New lead' } }),
+      node('SendSlackMessageNode.3', 'Notify #sales; team', { params: { channel: '#ops' }, position: { x: 12.4, y: 80.6 } }),
+      node('Mock_1', 'Placeholder', { isMock: true }),
+    ],
+    connections: [
+      { source: 'WebhookReceiverNode_1', target: 'LeadScoringNode_2', id: 'e1' },
+      { source: 'LeadScoringNode_2', target: 'SendSlackMessageNode_3', id: 'e2' },
+      { source: 'LeadScoringNode_2', target: 'SendSlackMessageNode.3', id: 'e3' },
+      { source: 'LeadScoringNode_2', target: 'GoneNode_9', id: 'e4' },
+    ],
+  };
+}
+
+describe('exportToMermaid', () => {
+  const { content, fileName, summary } = exportToMermaid(createState());
+  const lines = content.trimEnd().split('\n');
+
+  it('quotes the title as a YAML string', () => {
+    expect(lines.slice(0, 4)).toEqual(['---', 'title: "Leads: \\"hot\\" #1"', '---', 'flowchart LR']);
+    expect(fileName).toBe('leads-hot-1.mmd');
+  });
+
+  it('escapes quotes, angle brackets, "#" and newlines in labels', () => {
+    expect(lines).toContain('  n_WebhookReceiverNode_1["Receive #lt;lead#gt;"]');
+    expect(lines).toContain('  n_SendSlackMessageNode_3["Notify #35;sales; team"]');
+    expect(lines).toContain(
+      '  n_LeadScoringNode_2["Score #quot;lead#quot; [v2] fast<br/><i>↻ for each lead in {{$leads}}</i>"]:::loop'
+    );
+    expect(lines).toContain('  classDef loop stroke-dasharray: 5 3');
+  });
+
+  it('gives nodes whose ids only differ in punctuation distinct Mermaid ids', () => {
+    expect(lines).toContain('  n_SendSlackMessageNode_3_2["Notify #35;sales; team"]');
+    expect(lines).toContain('  n_LeadScoringNode_2 --> n_SendSlackMessageNode_3');
+    expect(lines).toContain('  n_LeadScoringNode_2 --> n_SendSlackMessageNode_3_2');
+  });
+
+  it('leaves out placeholders and reports connections to missing nodes', () => {
+    expect(content).not.toContain('Placeholder');
+    expect(summary).toMatchObject({ nodeCount: 4, connectionCount: 3, unmappedNodes: [] });
+    expect(summary.warnings).toEqual(['Skipped connection LeadScoringNode_2 -> GoneNode_9: unknown node']);
+  });
+});
+
+describe('exportToN8n', () => {
+  const { content, fileName, summary } = exportToN8n(createState());
+  const workflow = JSON.parse(content);
+  const byId = Object.fromEntries(workflow.nodes.map((n8nNode: { id: string }) => [n8nNode.id, n8nNode]));
+
+  it('writes valid JSON with the names as they are', () => {
+    expect(workflow.name).toBe('Leads: "hot" #1');
+    expect(byId.LeadScoringNode_2.name).toBe('Score "lead" [v2]\nfast');
+    expect(fileName).toBe('leads-hot-1.n8n.json');
+  });
+
+  it('maps known node types and their params', () => {
+    expect(byId.WebhookReceiverNode_1).toMatchObject({
+      type: 'n8n-nodes-base.webhook',
+      parameters: { httpMethod: 'POST', path: 'leads' },
+    });
+    expect(byId.SendSlackMessageNode_3).toMatchObject({
+      type: 'n8n-nodes-base.slack',
+      parameters: { channel: '#sales', text: 'New lead' },
+    });
+  });
+
+  it('keeps unmapped nodes as no-ops carrying the original params', () => {
+    expect(byId.LeadScoringNode_2).toMatchObject({ type: 'n8n-nodes-base.noOp', parameters: {}, notesInFlow: true });
+    expect(byId.LeadScoringNode_2.notes).toBe([
+      'Loop: for each lead in {{$leads}}',
+      'Unmapped LeadScoringNode: Score "lead" [v2]\nfast description',
+      'Original params: {"threshold":0.8}',
+    ].join('\n'));
+    expect(summary.unmappedNodes).toEqual([
+      { nodeId: 'LeadScoringNode_2', name: 'Score "lead" [v2]\nfast', type: 'LeadScoringNode' },
+      { nodeId: 'SendSlackMessageNode.3', name: 'Notify #sales; team', type: 'SendSlackMessageNode.3' },
+    ]);
+  });
+
+  it('makes names unique and connects nodes by name', () => {
+    expect(byId['SendSlackMessageNode.3'].name).toBe('Notify #sales; team 2');
+    expect(workflow.connections).toEqual({
+      'Receive <lead>': { main: [[{ node: 'Score "lead" [v2]\nfast', type: 'main', index: 0 }]] },
+      'Score "lead" [v2]\nfast': {
+        main: [[
+          { node: 'Notify #sales; team', type: 'main', index: 0 },
+          { node: 'Notify #sales; team 2', type: 'main', index: 0 },
+        ]],
+      },
+    });
+  });
+
+  it('uses canvas positions where the user placed a node, columns by depth otherwise', () => {
+    expect(byId.WebhookReceiverNode_1.position).toEqual([0, 0]);
+    expect(byId.LeadScoringNode_2.position).toEqual([260, 0]);
+    expect(byId.SendSlackMessageNode_3.position).toEqual([520, 0]);
+    expect(byId['SendSlackMessageNode.3'].position).toEqual([12, 81]);
+  });
+
+  it('warns about loops and connections to missing nodes', () => {
+    expect(summary).toMatchObject({ nodeCount: 4, connectionCount: 3 });
+    expect(summary.warnings).toEqual([
+      'Skipped connection LeadScoringNode_2 -> GoneNode_9: unknown node',
+      '"Score "lead" [v2]\nfast" loops (for each lead in {{$leads}}); n8n runs it once per incoming item instead',
+    ]);
+  });
+});
@@ -0,0 +1,334 @@
+import { GenerationState, InternalConnection, InternalWorkflowNode } from '@/types/generation';
+import { generationStateToSaveRequest } from '@/lib/workflow-persistence';
+
+/**
+ * Exporters to other tools' formats. Both work from the saved shape of the workflow
+ * (no planner/mock placeholders) and report what they couldn't carry over
+ */
+
+export interface ExportSummary {
+  format: 'mermaid' | 'n8n';
+  nodeCount: number;
+  connectionCount: number;
+  // Nodes with no equivalent in the target format (kept as placeholders, never dropped)
+  unmappedNodes: Array<{ nodeId: string; name: string; type: string }>;
+  warnings: string[];
+}
+
+export interface ExportResult {
+  content: string;
+  fileName: string;
+  mimeType: string;
+  summary: ExportSummary;
+}
+
+interface ExportableWorkflow {
+  name: string;
+  nodes: InternalWorkflowNode[];
+  connections: InternalConnection[];
+}
+
+function toExportableWorkflow(state: GenerationState): ExportableWorkflow {
+  const { name, nodes, connections } = generationStateToSaveRequest(state, 'draft');
+  return { name, nodes, connections };
+}
+
+function fileSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workflow';
+}
+
+/**
+ * Node type from the backend id, e.g. "LLMCallNode_2" -> "LLMCallNode"
+ */
+export function getNodeType(node: InternalWorkflowNode): string {
+  return node.nodeId.replace(/_\d+$/, '');
+}
+
+/**
+ * Connections whose ends both exist; the rest become warnings
+ */
+function partitionConnections(workflow: ExportableWorkflow): { valid: InternalConnection[]; warnings: string[] } {
+  const nodeIds = new Set(workflow.nodes.map((node) => node.nodeId));
+  const valid: InternalConnection[] = [];
+  const warnings: string[] = [];
+
+  workflow.connections.forEach((connection) => {
+    if (nodeIds.has(connection.source) && nodeIds.has(connection.target)) {
+      valid.push(connection);
+    } else {
+      warnings.push(`Skipped connection ${connection.source} -> ${connection.target}: unknown node`);
+    }
+  });
+
+  return { valid, warnings };
+}
+
+// ---------------------------------------------------------------------------
+// Mermaid
+// ---------------------------------------------------------------------------
+
+// Mermaid entity codes keep quotes and brackets from breaking the label syntax; "#" goes first
+// so text that looks like an entity code ("#1;") stays literal
+function escapeMermaidLabel(text: string): string {
+  return text
+    .replace(/#/g, '#35;')
+    .replace(/"/g, '#quot;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;')
+    .replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Mermaid flowchart (left to right); nodes with loop_text get a "↻" line and a dashed border
+ */
+export function exportToMermaid(state: GenerationState): ExportResult {
+  const workflow = toExportableWorkflow(state);
+  const { valid, warnings } = partitionConnections(workflow);
+
+  // Mermaid ids are restricted to word characters, so map and de-duplicate them
+  const mermaidIds = new Map<string, string>();
+  const taken = new Set<string>();
+  workflow.nodes.forEach((node) => {
+    const base = `n_${node.nodeId.replace(/\W/g, '_')}`;
+    let id = base;
+    for (let suffix = 2; taken.has(id); suffix++) id = `${base}_${suffix}`;
+    taken.add(id);
+    mermaidIds.set(node.nodeId, id);
+  });
+
+  const lines = [
+    '---',
+    // Front matter is YAML: a quoted string keeps names with ": " or "#" intact
+    `title: ${JSON.stringify(workflow.name.replace(/\r?\n/g, ' '))}`,
+    '---',
+    'flowchart LR',
+  ];
+
+  workflow.nodes.forEach((node) => {
+    const label = node.loop_text
+      ? `${escapeMermaidLabel(node.name)}<br/><i>↻ ${escapeMermaidLabel(node.loop_text)}</i>`
+      : escapeMermaidLabel(node.name);
+    lines.push(`  ${mermaidIds.get(node.nodeId)}["${label}"]${node.loop_text ? ':::loop' : ''}`);
+  });
+
+  valid.forEach((connection) => {
+    lines.push(`  ${mermaidIds.get(connection.source)} --> ${mermaidIds.get(connection.target)}`);
+  });
+
+  if (workflow.nodes.some((node) => node.loop_text)) {
+    lines.push('  classDef loop stroke-dasharray: 5 3');
+  }
+
+  return {
+    content: `${lines.join('\n')}\n`,
+    fileName: `${fileSlug(workflow.name)}.mmd`,
+    mimeType: 'text/vnd.mermaid',
+    summary: {
+      format: 'mermaid',
+      nodeCount: workflow.nodes.length,
+      connectionCount: valid.length,
+      unmappedNodes: [],
+      warnings,
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// n8n
+// ---------------------------------------------------------------------------
+
+interface N8nNode {
+  id: string;
+  name: string;
+  type: string;
+  typeVersion: number;
+  position: [number, number];
+  parameters: Record<string, unknown>;
+  notes?: string;
+  notesInFlow?: boolean;
+}
+
+interface N8nWorkflow {
+  name: string;
+  nodes: N8nNode[];
+  connections: Record<string, { main: Array<Array<{ node: string; type: 'main'; index: number }>> }>;
+  settings: Record<string, unknown>;
+  pinData: Record<string, unknown>;
+}
+
+interface N8nMapping {
+  type: string;
+  typeVersion: number;
+  parameters: (params: Record<string, any>) => Record<string, unknown>;
+}
+
+// Backend node types with a direct n8n counterpart; params are renamed where n8n differs
+const N8N_NODE_MAPPINGS: Record<string, N8nMapping> = {
+  WebhookReceiverNode: {
+    type: 'n8n-nodes-base.webhook',
+    typeVersion: 2,
+    parameters: (params) => ({ httpMethod: 'POST', path: params.path ?? params.webhook_url ?? '' }),
+  },
+  SendEmailNode: {
+    type: 'n8n-nodes-base.emailSend',
+    typeVersion: 2,
+    parameters: (params) => ({
+      toEmail: params.email_to ?? '',
+      subject: params.email_subject ?? '',
+      text: params.email_body ?? '',
+    }),
+  },
+  SendSlackMessageNode: {
+    type: 'n8n-nodes-base.slack',
+    typeVersion: 2,
+    parameters: (params) => ({ resource: 'message', operation: 'post', channel: params.channel ?? '', text: params.message ?? params.text ?? '' }),
+  },
+  GoogleSheetsUploadNode: {
+    type: 'n8n-nodes-base.googleSheets',
+    typeVersion: 4,
+    parameters: (params) => ({ operation: 'append', sheetName: params.sheet_name ?? '', columns: params.data ?? '' }),
+  },
+  DataSourceNode: {
+    type: 'n8n-nodes-base.awsS3',
+    typeVersion: 2,
+    parameters: (params) => ({ operation: 'download', fileKey: params.s3_filepath ?? '' }),
+  },
+  DocumentFetchNode: {
+    type: 'n8n-nodes-base.notion',
+    typeVersion: 2,
+    parameters: (params) => ({ resource: 'page', operation: 'get', pageId: params.page_id ?? '' }),
+  },
+  WebSearchNode: {
+    type: 'n8n-nodes-base.httpRequest',
+    typeVersion: 4,
+    parameters: (params) => ({
+      url: 'https://www.google.com/search',
+      sendQuery: true,
+      queryParameters: { parameters: [{ name: 'q', value: params.query ?? '' }] },
+    }),
+  },
+  LLMCallNode: {
+    type: '@n8n/n8n-nodes-langchain.openAi',
+    typeVersion: 1,
+    parameters: (params) => ({
+      resource: 'text',
+      operation: 'message',
+      messages: {
+        values: [
+          ...(params.system_prompt ? [{ role: 'system', content: params.system_prompt }] : []),
+          { content: params.prompt ?? '' },
+        ],
+      },
+    }),
+  },
+};
+
+// Unmapped nodes become no-ops carrying the original params, so the graph stays connected
+const N8N_PLACEHOLDER_TYPE = 'n8n-nodes-base.noOp';
+
+const N8N_COLUMN_WIDTH = 260;
+const N8N_ROW_HEIGHT = 160;
+
+/**
+ * Longest-path depth per node; capped below the node count so loops can't grow it forever
+ */
+function nodeDepths(nodes: InternalWorkflowNode[], connections: InternalConnection[]): Map<string, number> {
+  const depths = new Map(nodes.map((node) => [node.nodeId, 0]));
+  // A node can't be deeper than the node count, which also bounds cycles
+  for (let pass = 0; pass < nodes.length; pass++) {
+    let changed = false;
+    connections.forEach(({ source, target }) => {
+      const next = (depths.get(source) ?? 0) + 1;
+      if (next > (depths.get(target) ?? 0) && next < nodes.length) {
+        depths.set(target, next);
+        changed = true;
+      }
+    });
+    if (!changed) break;
+  }
+  return depths;
+}
+
+/**
+ * n8n workflow JSON (paste into the editor or import from file)
+ * Positions come from the canvas when the user placed a node, otherwise from a simple column layout
+ */
+export function exportToN8n(state: GenerationState): ExportResult {
+  const workflow = toExportableWorkflow(state);
+  const { valid, warnings } = partitionConnections(workflow);
+  const unmappedNodes: ExportSummary['unmappedNodes'] = [];
+
+  const depths = nodeDepths(workflow.nodes, valid);
+  const rowsPerDepth = new Map<number, number>();
+
+  // n8n connects nodes by name, so names must be unique
+  const n8nNames = new Map<string, string>();
+  const takenNames = new Set<string>();
+
+  const nodes: N8nNode[] = workflow.nodes.map((node) => {
+    const baseName = node.name || node.nodeId;
+    let name = baseName;
+    for (let suffix = 2; takenNames.has(name); suffix++) name = `${baseName} ${suffix}`;
+    takenNames.add(name);
+    n8nNames.set(node.nodeId, name);
+
+    const depth = depths.get(node.nodeId) ?? 0;
+    const row = rowsPerDepth.get(depth) ?? 0;
+    rowsPerDepth.set(depth, row + 1);
+    const position: [number, number] = node.position
+      ? [Math.round(node.position.x), Math.round(node.position.y)]
+      : [depth * N8N_COLUMN_WIDTH, row * N8N_ROW_HEIGHT];
+
+    const type = getNodeType(node);
+    const mapping = N8N_NODE_MAPPINGS[type];
+    const notes: string[] = [];
+
+    if (node.loop_text) {
+      notes.push(`Loop: ${node.loop_text}`);
+      warnings.push(`"${node.name}" loops (${node.loop_text}); n8n runs it once per incoming item instead`);
+    }
+
+    if (!mapping) {
+      unmappedNodes.push({ nodeId: node.nodeId, name: node.name, type });
+      notes.push(`Unmapped ${type}: ${node.description}`, `Original params: ${JSON.stringify(node.params ?? {})}`);
+    }
+
+    return {
+      id: node.nodeId,
+      name,
+      type: mapping?.type ?? N8N_PLACEHOLDER_TYPE,
+      typeVersion: mapping?.typeVersion ?? 1,
+      position,
+      parameters: mapping ? mapping.parameters(node.params ?? {}) : {},
+      ...(notes.length > 0 ? { notes: notes.join('\n'), notesInFlow: true } : {}),
+    };
+  });
+
+  const connections: N8nWorkflow['connections'] = {};
+  valid.forEach(({ source, target }) => {
+    const sourceName = n8nNames.get(source)!;
+    connections[sourceName] ??= { main: [[]] };
+    connections[sourceName].main[0].push({ node: n8nNames.get(target)!, type: 'main', index: 0 });
+  });
+
+  const n8nWorkflow: N8nWorkflow = {
+    name: workflow.name,
+    nodes,
+    connections,
+    settings: { executionOrder: 'v1' },
+    pinData: {},
+  };
+
+  return {
+    content: `${JSON.stringify(n8nWorkflow, null, 2)}\n`,
+    fileName: `${fileSlug(workflow.name)}.n8n.json`,
+    mimeType: 'application/json',
+    summary: {
+      format: 'n8n',
+      nodeCount: nodes.length,
+      connectionCount: valid.length,
+      unmappedNodes,
+      warnings,
+    },
+  };
+}
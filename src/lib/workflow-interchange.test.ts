@@ -0,0 +1,117 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { GenerationClock, replayGenerationEvents } from '@/lib/generation-reducer';
+import {
+  generationStateToWorkflowDocument,
+  parseWorkflowDocument,
+  parseWorkflowFile,
+  serializeWorkflowDocument,
+  workflowDocumentToGenerationState,
+} from '@/lib/workflow-interchange';
+import { GenerationState, SSEEvent } from '@/types/generation';
+
+const FIXTURES_DIR = path.resolve(__dirname, '../../mock-server/fixtures');
+
+function createFixedClock(start = Date.UTC(2024, 0, 15, 9)): GenerationClock {
+  let now = start;
+  return { now: () => now++ };
+}
+
+// A finished generation the user has since arranged and edited on the canvas
+function createEditedState(): GenerationState {
+  const events: SSEEvent[] = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, 'happy.json'), 'utf8'));
+  const state = replayGenerationEvents(events, createFixedClock());
+  return {
+    ...state,
+    workflowName: 'Daily sales report',
+    databases: [{ name: 'sales', link: 'https://db.example.com/sales' }],
+    nodes: state.nodes.map((node, index) => ({
+      ...node,
+      position: { x: index * 250, y: index % 2 === 0 ? 0 : 120.5 },
+      loop_text: index === 0 ? 'for each region in {{$regions}}' : node.loop_text,
+    })),
+  };
+}
+
+function exportedDocument() {
+  return JSON.parse(serializeWorkflowDocument(generationStateToWorkflowDocument(createEditedState())));
+}
+
+function expectRejected(raw: unknown) {
+  const result = parseWorkflowDocument(raw);
+  expect(result.success).toBe(false);
+  return result.success === false ? result.errors : [];
+}
+
+describe('workflow interchange', () => {
+  describe('round trip', () => {
+    const state = createEditedState();
+    const result = parseWorkflowFile(serializeWorkflowDocument(generationStateToWorkflowDocument(state)));
+    if (!result.success) throw new Error(result.errors.join('\n'));
+    const imported = workflowDocumentToGenerationState(result.document, 'gen_current');
+
+    it('keeps the workflow: nodes with params, loop_text and positions, connections and databases', () => {
+      expect(imported.workflowName).toBe('Daily sales report');
+      expect(imported.nodes).toEqual(state.nodes);
+      expect(imported.nodes[0].params).toEqual({ s3_filepath: '{{$sales_data_filepath}}' });
+      expect(imported.nodes[0].loop_text).toBe('for each region in {{$regions}}');
+      expect(imported.nodes[1].position).toEqual({ x: 250, y: 120.5 });
+      expect(imported.connections).toEqual(state.connections);
+      expect(imported.databases).toEqual(state.databases);
+      expect(imported.databaseInfo).toEqual({ name: 'sales', link: 'https://db.example.com/sales' });
+    });
+
+    it('keeps the chat and timelines with their dates as Date objects', () => {
+      expect(imported.status).toBe('COMPLETED');
+      expect(imported.chatMessages).toEqual(state.chatMessages);
+      expect(imported.statusHistory).toEqual(state.statusHistory);
+      expect(imported.stepTimeline).toEqual(state.stepTimeline);
+      expect(imported.chatMessages[0].timestamp).toBeInstanceOf(Date);
+      expect(imported.stepTimeline[0].startedAt).toBeInstanceOf(Date);
+    });
+
+    it('opens on the current generation, not the one in the file', () => {
+      expect(imported.generationId).toBe('gen_current');
+      expect(imported.isComplete).toBe(true);
+      expect(imported.showCanvas).toBe(true);
+    });
+  });
+
+  describe('rejected files', () => {
+    it('rejects a newer format version', () => {
+      expect(expectRejected({ ...exportedDocument(), version: 2 })).toEqual([
+        'File uses format version 2, this app reads up to version 1',
+      ]);
+    });
+
+    it('rejects an older format version', () => {
+      expect(expectRejected({ ...exportedDocument(), version: 0 })).toEqual([
+        'Format version 0 is no longer supported',
+      ]);
+    });
+
+    it('rejects duplicate node ids', () => {
+      const document = exportedDocument();
+      document.workflow.nodes[1].nodeId = document.workflow.nodes[0].nodeId;
+      expect(expectRejected(document)).toContain('workflow.nodes.1.nodeId: Duplicate node id "DataSourceNode_51448"');
+    });
+
+    it('rejects connections to nodes that are not in the file', () => {
+      const document = exportedDocument();
+      document.workflow.connections.push({ source: 'MessageNode_29578', target: 'MissingNode_1' });
+      expect(expectRejected(document)).toEqual(['workflow.connections.5.target: Unknown node "MissingNode_1"']);
+    });
+
+    it('rejects an unknown generation status', () => {
+      const document = exportedDocument();
+      document.generation.status = 'DONE';
+      expect(expectRejected(document)).toHaveLength(1);
+    });
+
+    it('rejects text that is not JSON', () => {
+      const result = parseWorkflowFile('{ "format": ');
+      expect(result.success).toBe(false);
+    });
+  });
+});
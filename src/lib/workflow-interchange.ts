@@ -0,0 +1,253 @@
+import { z } from 'zod';
+import { GENERATION_PHASES, GenerationState, SSE_STEP_TYPES, SSEStepData } from '@/types/generation';
+import { generationStatusSchema, getStepDataSchema, nodeIOSchema } from '@/lib/generation-validators';
+import { createInitialGenerationState } from '@/lib/generation-reducer';
+import { generationStateToSaveRequest } from '@/lib/workflow-persistence';
+
+/**
+ * Versioned JSON file format for exporting and importing workflows.
+ * Bump WORKFLOW_FORMAT_VERSION on any change an older reader would get wrong;
+ * additive optional fields don't need a bump.
+ */
+
+export const WORKFLOW_FORMAT = 'workflow-generation-ui/workflow';
+export const WORKFLOW_FORMAT_VERSION = 1;
+
+const positionSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+});
+
+// Same shape as the canvas model: params, loop_text, port schemas and positions included
+const nodeSchema = z.object({
+  nodeId: z.string().min(1),
+  name: z.string(),
+  description: z.string(),
+  status: z.enum(['idle', 'configuring', 'configured', 'generating']).optional(),
+  params: z.record(z.unknown()).optional(),
+  loop_text: z.string().nullable().optional(),
+  category: z.enum(['Input', 'Processing', 'AI', 'Output']).optional(),
+  icon: z.string().optional(),
+  inputs: z.record(nodeIOSchema).optional(),
+  outputs: z.record(nodeIOSchema).optional(),
+  position: positionSchema.optional(),
+});
+
+const connectionSchema = z.object({
+  source: z.string().min(1),
+  target: z.string().min(1),
+  id: z.string().optional(),
+});
+
+const databaseSchema = z.object({
+  name: z.string(),
+  link: z.string(),
+});
+
+// superRefine adds the cross-field checks: unique node ids, connections between known nodes
+const workflowSchema = z.object({
+  name: z.string().min(1),
+  // Generation the file was exported from; a record only, import never applies it
+  generationId: z.string().optional(),
+  nodes: z.array(nodeSchema),
+  connections: z.array(connectionSchema),
+  databases: z.array(databaseSchema).default([]),
+}).superRefine((workflow, ctx) => {
+  const nodeIds = new Set<string>();
+  workflow.nodes.forEach((node, index) => {
+    if (nodeIds.has(node.nodeId)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['nodes', index, 'nodeId'], message: `Duplicate node id "${node.nodeId}"` });
+    }
+    nodeIds.add(node.nodeId);
+  });
+
+  workflow.connections.forEach((connection, index) => {
+    (['source', 'target'] as const).forEach((end) => {
+      if (!nodeIds.has(connection[end])) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['connections', index, end], message: `Unknown node "${connection[end]}"` });
+      }
+    });
+  });
+});
+
+// Dates are written as ISO strings and read back as Date objects
+const dateSchema = z.coerce.date();
+
+const chatMessageSchema = z.object({
+  id: z.string(),
+  type: z.enum(['step', 'error', 'system', 'assistant']),
+  content: z.string(),
+  timestamp: dateSchema,
+  step: z.enum(GENERATION_PHASES).optional(),
+  stepEntryId: z.string().optional(),
+});
+
+const statusTransitionSchema = z.object({
+  from: generationStatusSchema.nullable(),
+  to: generationStatusSchema,
+  at: dateSchema,
+});
+
+// The status of the event an entry last received, to check its `data` against
+const STEP_ENTRY_EVENT_STATUS = { running: 'started', done: 'done', error: 'error' } as const;
+
+const stepEntrySchema = z.object({
+  id: z.string(),
+  step: z.enum(SSE_STEP_TYPES),
+  status: z.enum(['running', 'done', 'error']),
+  title: z.string(),
+  summary: z.string().optional(),
+  error: z.string().optional(),
+  nodeId: z.string().optional(),
+  nodeIds: z.array(z.string()),
+  startedAt: dateSchema,
+  finishedAt: dateSchema.optional(),
+  // Payload of the step's last event, validated like the event itself
+  data: z.custom<SSEStepData>((value) => typeof value === 'object' && value !== null).optional(),
+}).superRefine((entry, ctx) => {
+  if (entry.data === undefined) return;
+  const result = getStepDataSchema(entry.step, STEP_ENTRY_EVENT_STATUS[entry.status]).safeParse(entry.data);
+  if (result.success === false) {
+    result.error.issues.forEach((issue) => ctx.addIssue({ ...issue, path: ['data', ...issue.path] }));
+  }
+});
+
+// How the workflow came about. Stream-only state (connection, heartbeats, diagnostics,
+// placeholder nodes) is not exported
+const generationSchema = z.object({
+  status: generationStatusSchema.optional(),
+  chatMessages: z.array(chatMessageSchema),
+  statusHistory: z.array(statusTransitionSchema),
+  stepTimeline: z.array(stepEntrySchema),
+});
+
+const documentSchema = z.object({
+  format: z.literal(WORKFLOW_FORMAT),
+  // Bumped on breaking changes; files with another version are rejected
+  version: z.literal(WORKFLOW_FORMAT_VERSION),
+  exportedAt: z.string(),
+  workflow: workflowSchema,
+  // Optional, so files with just the workflow still import
+  generation: generationSchema.optional(),
+});
+
+export type WorkflowDocument = z.infer<typeof documentSchema>;
+
+export type WorkflowDocumentParseResult =
+  | { success: true; document: WorkflowDocument }
+  | { success: false; errors: string[] };
+
+/**
+ * Snapshot the workflow in GenerationState as a portable document, with the chat and timelines
+ * Stream-only state (connection, heartbeats, diagnostics, placeholder nodes) is not part of the file
+ */
+export function generationStateToWorkflowDocument(state: GenerationState): WorkflowDocument {
+  const { name, nodes, connections, databases, generationId } = generationStateToSaveRequest(state, 'draft');
+  return {
+    format: WORKFLOW_FORMAT,
+    version: WORKFLOW_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    workflow: { name, generationId, nodes, connections, databases },
+    generation: {
+      status: state.status,
+      chatMessages: state.chatMessages,
+      statusHistory: state.statusHistory,
+      stepTimeline: state.stepTimeline,
+    },
+  };
+}
+
+/**
+ * Generation state for an imported document, opened like a saved workflow
+ * `generationId` is the generation the page shows: the file's own id is only a record of where
+ * it came from, so importing never moves the page onto another generation
+ */
+export function workflowDocumentToGenerationState(
+  document: WorkflowDocument,
+  generationId?: string
+): GenerationState {
+  const { name, nodes, connections, databases } = document.workflow;
+  const { generation } = document;
+  return {
+    ...createInitialGenerationState(generationId),
+    currentStep: 'completed',
+    isComplete: true,
+    showCanvas: nodes.length > 0,
+    workflowName: name,
+    nodes,
+    connections,
+    databases,
+    databaseInfo: databases[0],
+    status: generation?.status,
+    chatMessages: generation?.chatMessages ?? [],
+    statusHistory: generation?.statusHistory ?? [],
+    stepTimeline: generation?.stepTimeline ?? [],
+  };
+}
+
+/**
+ * Validate parsed JSON as a workflow document
+ * The format and version are checked first so an incompatible file gets one clear error
+ */
+export function parseWorkflowDocument(raw: unknown): WorkflowDocumentParseResult {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { success: false, errors: ['File does not contain a JSON object'] };
+  }
+
+  const { format, version } = raw as Record<string, unknown>;
+  if (format !== WORKFLOW_FORMAT) {
+    return { success: false, errors: [`Not a workflow file (expected format "${WORKFLOW_FORMAT}")`] };
+  }
+  if (typeof version !== 'number' || !Number.isInteger(version)) {
+    return { success: false, errors: ['version must be an integer'] };
+  }
+  if (version > WORKFLOW_FORMAT_VERSION) {
+    return {
+      success: false,
+      errors: [`File uses format version ${version}, this app reads up to version ${WORKFLOW_FORMAT_VERSION}`],
+    };
+  }
+  if (version < WORKFLOW_FORMAT_VERSION) {
+    return { success: false, errors: [`Format version ${version} is no longer supported`] };
+  }
+
+  const result = documentSchema.safeParse(raw);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map((issue) => (
+        issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+      )),
+    };
+  }
+
+  return { success: true, document: result.data };
+}
+
+/**
+ * Parse the text of an imported file
+ */
+export function parseWorkflowFile(text: string): WorkflowDocumentParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    return { success: false, errors: [`Invalid JSON: ${err instanceof Error ? err.message : String(err)}`] };
+  }
+  return parseWorkflowDocument(raw);
+}
+
+/**
+ * Pretty-printed file contents for download
+ */
+export function serializeWorkflowDocument(document: WorkflowDocument): string {
+  return `${JSON.stringify(document, null, 2)}\n`;
+}
+
+/**
+ * Download file name derived from the workflow name
+ */
+export function workflowDocumentFileName(document: WorkflowDocument): string {
+  const slug = document.workflow.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'workflow'}.workflow.json`;
+}
@@ -0,0 +1,40 @@
+import { GenerationState } from '@/types/generation';
+import { SaveWorkflowRequest, SavedWorkflow, SavedWorkflowStatus } from '@/types/workflow';
+import { createInitialGenerationState } from '@/lib/generation-reducer';
+
+/**
+ * Snapshot of the generated workflow for PUT /workflows/:id
+ * Only real nodes are saved; planner/mock placeholders are generation-time UI
+ */
+export function generationStateToSaveRequest(
+  state: GenerationState,
+  status: SavedWorkflowStatus
+): SaveWorkflowRequest {
+  return {
+    name: state.workflowName || 'Untitled workflow',
+    nodes: state.nodes
+      .filter((node) => !node.isMock && !node.isArchitecturePlanner)
+      .map((node) => ({ ...node, status: node.status === 'configuring' ? 'idle' : node.status })),
+    connections: state.connections,
+    databases: state.databases ?? (state.databaseInfo ? [state.databaseInfo] : []),
+    status,
+    generationId: state.generationId,
+  };
+}
+
+/**
+ * Generation state for a saved workflow: complete, so the canvas opens in its final layout
+ */
+export function savedWorkflowToGenerationState(workflow: SavedWorkflow): GenerationState {
+  return {
+    ...createInitialGenerationState(workflow.generationId),
+    currentStep: 'completed',
+    isComplete: true,
+    showCanvas: workflow.nodes.length > 0,
+    workflowName: workflow.name,
+    nodes: workflow.nodes,
+    connections: workflow.connections,
+    databases: workflow.databases,
+    databaseInfo: workflow.databases[0],
+  };
+}
@@ -0,0 +1,25 @@
+// Minimal typings for the parts of d3-flextree used by lib/layout-engines.ts (the package ships none)
+declare module 'd3-flextree' {
+  export interface FlextreeNode<Datum> {
+    data: Datum;
+    // Centre of the node along the breadth axis
+    x: number;
+    // Top of the node along the depth axis
+    y: number;
+    children?: FlextreeNode<Datum>[];
+    each(callback: (node: FlextreeNode<Datum>) => void): this;
+  }
+
+  export interface FlextreeLayout<Datum> {
+    (root: FlextreeNode<Datum>): FlextreeNode<Datum>;
+    hierarchy(data: Datum, children?: (datum: Datum) => Datum[] | undefined): FlextreeNode<Datum>;
+  }
+
+  export interface FlextreeOptions<Datum> {
+    // [breadth, depth]
+    nodeSize?: (node: FlextreeNode<Datum>) => [number, number];
+    spacing?: number | ((a: FlextreeNode<Datum>, b: FlextreeNode<Datum>) => number);
+  }
+
+  export function flextree<Datum>(options?: FlextreeOptions<Datum>): FlextreeLayout<Datum>;
+}
@@ -1,17 +1,49 @@
-// Step types as defined in the backend
-export type SSEStepType = 
-  | 'architecture_planner'
-  | 'database_setup'
-  | 'node_selector'
-  | 'connection_builder'
-  | 'node_configurator'
-  | 'workflow_saver';
+// Step types as defined in the backend (runtime list for the schemas in lib/)
+export const SSE_STEP_TYPES = [
+  'architecture_planner',
+  'database_setup',
+  'node_selector',
+  'connection_builder',
+  'node_configurator',
+  'workflow_saver',
+  // Refinements only: nodes dropped from the existing workflow
+  'node_remover',
+] as const;
+
+export type SSEStepType = (typeof SSE_STEP_TYPES)[number];
+
+// Pseudo-steps the UI uses to mark connection and terminal states
+export const GENERATION_PHASES = [...SSE_STEP_TYPES, 'connected', 'completed', 'error', 'cancelled'] as const;
+
+export type GenerationPhase = (typeof GENERATION_PHASES)[number];
+
+// Generation statuses sent in status, status_change and complete events
+export const GENERATION_STATUSES = [
+  'PENDING',
+  'RUNNING',
+  // Refinements only: the finished workflow is being patched
+  'REFINING',
+  'COMPLETED',
+  'ERROR',
+  'FAILED',
+  'CANCELLED',
+] as const;
+
+export type GenerationStatus = (typeof GENERATION_STATUSES)[number];
 
 // Status types for each step
 export type SSEStatusType = 'started' | 'done' | 'error';
 
 // System event types (not step-based)
-export type SSESystemEventType = 'connected' | 'status' | 'status_change' | 'complete' | 'heartbeat' | 'error';
+export type SSESystemEventType =
+  | 'connected'
+  | 'status'
+  | 'status_change'
+  | 'complete'
+  | 'heartbeat'
+  | 'error'
+  // Refinements only: the agent's reply to a chat message
+  | 'assistant_message';
 
 // Step-specific data interfaces (matching backend models exactly)
 export interface ArchitecturePlannerData {
@@ -25,15 +57,31 @@ export interface DatabaseSetupData {
   }>;
 }
 
+// JSON-Schema-like description of a node input or output port
+export interface NodeIOSchema {
+  type: string; // 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object'
+  description?: string;
+  enum?: Array<string | number | boolean>;
+  items?: NodeIOSchema; // For arrays
+  properties?: Record<string, NodeIOSchema>; // For objects
+}
+
+// Generations replace the workflow's nodes/connections; refinements merge into it
+export type SSEPatchMode = 'replace' | 'merge';
+
 export interface NodeSelectorData {
+  mode?: SSEPatchMode;
   nodes: Array<{
     nodeId: string; // Backend actually sends 'nodeId' field
     name: string;
     description: string;
+    inputs?: Record<string, NodeIOSchema>;
+    outputs?: Record<string, NodeIOSchema>;
   }>;
 }
 
 export interface ConnectionBuilderData {
+  mode?: SSEPatchMode;
   connections: Array<{
     source: string;
     target: string;
@@ -45,7 +93,11 @@ export interface NodeConfiguratorData {
   name: string;
   description: string;
   params: Record<string, any>;
-  loop_text: string | null;
+  loop_text?: string | null;
+}
+
+export interface NodeRemoverData {
+  nodeIds: string[];
 }
 
 export interface WorkflowSaverData {
@@ -55,7 +107,8 @@ export interface WorkflowSaverData {
 // Error data model
 export interface SSEErrorData {
   message: string;
-  code?: number;
+  code?: string | number;
+  nodeId?: string;
   details?: Record<string, any>;
 }
 
@@ -66,20 +119,20 @@ export interface SSEConnectedData {
 }
 
 export interface SSEStatusData {
-  status: string;
+  status: GenerationStatus;
   generation_id: string;
   timestamp?: string;
 }
 
 export interface SSEStatusChangeData {
-  old_status: string;
-  new_status: string;
+  old_status: GenerationStatus;
+  new_status: GenerationStatus;
   generation_id: string;
   timestamp?: string;
 }
 
 export interface SSECompleteData {
-  final_status: string;
+  final_status: GenerationStatus;
   generation_id: string;
   timestamp?: string;
 }
@@ -89,6 +142,11 @@ export interface SSEHeartbeatData {
   generation_id: string;
 }
 
+export interface SSEAssistantMessageData {
+  content: string;
+  generation_id?: string;
+}
+
 // Union type for all possible step data
 export type SSEStepData = 
   | ArchitecturePlannerData
@@ -96,6 +154,7 @@ export type SSEStepData =
   | NodeSelectorData
   | ConnectionBuilderData
   | NodeConfiguratorData
+  | NodeRemoverData
   | WorkflowSaverData
   | SSEErrorData;
 
@@ -105,7 +164,8 @@ export type SSESystemData =
   | SSEStatusData
   | SSEStatusChangeData
   | SSECompleteData
-  | SSEHeartbeatData;
+  | SSEHeartbeatData
+  | SSEAssistantMessageData;
 
 // Main SSE event structure for step-based events
 export interface SSEStepEvent {
@@ -134,15 +194,21 @@ export interface InternalWorkflowNode {
   // UI-specific properties
   category?: 'Input' | 'Processing' | 'AI' | 'Output';
   icon?: string;
-  inputs?: Record<string, any>;
-  outputs?: Array<{
-    name: string;
-    type: string;
-  }>;
+  // Port schemas from node_selector (absent for mock/planner placeholders)
+  inputs?: Record<string, NodeIOSchema>;
+  outputs?: Record<string, NodeIOSchema>;
   // Mock node properties
   isMock?: boolean;
   // Architecture planner node properties
   isArchitecturePlanner?: boolean;
+  // Canvas position set by the user in edit mode: the node is pinned there and
+  // auto-layout arranges the other nodes around it (absent: auto-layout decides)
+  position?: NodePosition;
+}
+
+export interface NodePosition {
+  x: number;
+  y: number;
 }
 
 export interface InternalConnection {
@@ -151,33 +217,105 @@ export interface InternalConnection {
   id?: string; // Generated for React Flow
 }
 
+// User edits applied to a generated workflow (see lib/workflow-edits.ts)
+// Every edit has an inverse, which is what undo/redo replays
+export type WorkflowEdit =
+  // previousPosition: where the node was drawn before the drag, for undoing auto-laid-out nodes
+  | { type: 'move_node'; nodeId: string; position: NodePosition; previousPosition?: NodePosition }
+  | { type: 'add_connection'; connection: InternalConnection }
+  | { type: 'remove_connection'; connectionId: string }
+  | { type: 'add_node'; node: InternalWorkflowNode; index: number; connections: InternalConnection[] }
+  | { type: 'remove_node'; nodeId: string }
+  | { type: 'update_node_params'; nodeId: string; params: Record<string, any> }
+  | { type: 'rename_node'; nodeId: string; name: string }
+  // null clears the name, back to the default title (undoing the first rename)
+  | { type: 'rename_workflow'; name: string | null }
+  // Pin several nodes at once; null unpins (reset layout, restoring stored positions)
+  | { type: 'set_node_positions'; positions: Record<string, NodePosition | null> }
+  // Edits from one user action (dragging or deleting a selection), applied in order and undone together
+  | { type: 'batch'; edits: WorkflowEdit[] };
+
 export interface InternalDatabaseInfo {
   name: string;
   link: string;
 }
 
+// One entry of the generation status timeline (RUNNING -> COMPLETED, ...)
+export interface GenerationStatusTransition {
+  from: GenerationStatus | null;
+  to: GenerationStatus;
+  at: Date;
+}
+
+// An event that failed runtime validation and was kept out of the state
+export interface GenerationDiagnostic {
+  id: string;
+  receivedAt: Date;
+  label: string; // e.g. "database_setup/done" or "status_change"
+  issues: string[];
+  event: unknown; // Raw payload as received
+}
+
+// One started/done (or error) pair of a step, shown as a timeline entry in the chat
+export interface GenerationStepEntry {
+  id: string;
+  step: SSEStepType;
+  status: 'running' | 'done' | 'error';
+  title: string; // e.g. "Configuring Get Sales Data"
+  summary?: string; // e.g. "Selected 6 nodes"
+  error?: string;
+  // Node the step works on (node_configurator), to pair its started and done events
+  nodeId?: string;
+  // Nodes the entry can focus on the canvas
+  nodeIds: string[];
+  startedAt: Date;
+  finishedAt?: Date;
+  data?: SSEStepData; // Payload of the last event
+}
+
+// What a failed generation stopped on, for the error card
+export interface GenerationError {
+  message: string;
+  code?: string | number;
+  step?: SSEStepType; // Missing when the failure didn't come from a step (status, connection)
+  nodeId?: string;
+  details?: Record<string, any>;
+}
+
 // Chat message for UI
 export interface ChatMessage {
   id: string;
   type: 'step' | 'error' | 'system' | 'assistant';
   content: string;
   timestamp: Date;
-  step?: SSEStepType;
+  step?: GenerationPhase;
+  // Timeline entry a 'step' message stands for
+  stepEntryId?: string;
 }
 
 // Generation state for UI
 export interface GenerationState {
   // Connection state
-  currentStep: SSEStepType | null;
+  currentStep: GenerationPhase | null;
   isComplete: boolean;
   hasError: boolean;
   errorMessage?: string;
+  error?: GenerationError;
+  // Stopped by the user; the partial workflow is kept
+  isCancelled: boolean;
   
   // Data state
   chatMessages: ChatMessage[];
   nodes: InternalWorkflowNode[];
   connections: InternalConnection[];
   databaseInfo?: InternalDatabaseInfo;
+  databases?: InternalDatabaseInfo[];
+  
+  // Step started/done pairs in arrival order
+  stepTimeline: GenerationStepEntry[];
+  
+  // Events rejected by runtime validation
+  diagnostics: GenerationDiagnostic[];
   
   // Mock data state
   mockNodes: InternalWorkflowNode[];
@@ -187,7 +325,16 @@ export interface GenerationState {
   showCanvas: boolean;
   isCollapsed: boolean;
   
+  // Workflow title (initial details, then user renames)
+  workflowName?: string;
+  
   // System state
   generationId?: string;
-  status?: string;
+  status?: GenerationStatus;
+  finalStatus?: GenerationStatus;
+  statusHistory: GenerationStatusTransition[];
+  
+  // Liveness (epoch ms), driven by every valid event and by heartbeats
+  lastEventAt?: number;
+  lastHeartbeatAt?: number;
 } 
\ No newline at end of file
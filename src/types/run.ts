@@ -0,0 +1,64 @@
+// Simulated workflow execution (POST /workflows/:id/runs + GET /runs/:id/stream)
+
+export type NodeRunStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+export type WorkflowRunStatus = 'idle' | 'starting' | 'running' | 'succeeded' | 'failed';
+
+export interface RunStartedEvent {
+  type: 'run_started';
+  run_id: string;
+  node_order: string[];
+}
+
+export interface NodeStatusEvent {
+  type: 'node_status';
+  run_id: string;
+  nodeId: string;
+  status: NodeRunStatus;
+  input?: Record<string, unknown>;
+  output?: Record<string, unknown>;
+  duration_ms?: number;
+  error?: string;
+}
+
+export interface RunCompletedEvent {
+  type: 'run_completed';
+  run_id: string;
+  status: 'succeeded' | 'failed';
+  duration_ms: number;
+}
+
+export interface RunHeartbeatEvent {
+  type: 'heartbeat';
+  run_id?: string;
+  timestamp: string;
+}
+
+export type RunEvent = RunStartedEvent | NodeStatusEvent | RunCompletedEvent | RunHeartbeatEvent;
+
+export interface NodeRunInfo {
+  status: NodeRunStatus;
+  input?: Record<string, unknown>;
+  output?: Record<string, unknown>;
+  durationMs?: number;
+  error?: string;
+}
+
+// One line of the run log panel
+export interface RunLogEntry {
+  id: string;
+  at: Date;
+  nodeId?: string;
+  status: NodeRunStatus | WorkflowRunStatus;
+  message: string;
+}
+
+export interface WorkflowRunState {
+  runId?: string;
+  status: WorkflowRunStatus;
+  nodeOrder: string[];
+  nodes: Record<string, NodeRunInfo>;
+  log: RunLogEntry[];
+  durationMs?: number;
+  error?: string;
+}
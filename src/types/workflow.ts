@@ -0,0 +1,52 @@
+import type {
+  InternalConnection,
+  InternalDatabaseInfo,
+  InternalWorkflowNode,
+} from './generation';
+
+export type SavedWorkflowStatus = 'draft' | 'published';
+
+// A generated (and possibly edited) workflow as stored by PUT /workflows/:id
+export interface SavedWorkflow {
+  id: string;
+  name: string;
+  // Full node definitions: params, loop_text, port schemas and user positions
+  nodes: InternalWorkflowNode[];
+  connections: InternalConnection[];
+  databases: InternalDatabaseInfo[];
+  status: SavedWorkflowStatus;
+  // Generation the workflow came from, if any
+  generationId?: string;
+  createdAt: string;
+  updatedAt: string;
+  publishedAt?: string;
+}
+
+// Body of PUT /workflows/:id; timestamps are assigned by the server
+export type SaveWorkflowRequest = Omit<SavedWorkflow, 'id' | 'createdAt' | 'updatedAt' | 'publishedAt'>;
+
+// Status shown in the workflows list; unsaved generations are generating / failed / draft
+export type WorkflowListStatus = SavedWorkflowStatus | 'generating' | 'failed' | 'cancelled';
+
+// One row of GET /workflows
+export interface WorkflowSummary {
+  id: string;
+  name: string;
+  status: WorkflowListStatus;
+  // null while the workflow only exists as a generation
+  nodeCount: number | null;
+  saved: boolean;
+  generationId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ListWorkflowsOptions {
+  search?: string;
+  status?: WorkflowListStatus;
+  // By updatedAt; the server defaults to newest first
+  order?: 'asc' | 'desc';
+}
+
+// Portable workflow file (Export / Import), derived from its schema in lib/workflow-interchange.ts
+export type { WorkflowDocument } from '@/lib/workflow-interchange';